@@ -0,0 +1,153 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+import connectDB from '../src/config/database';
+import User from '../src/models/user.model';
+import Group from '../src/models/group.model';
+import Message from '../src/models/message.model';
+import FriendRequest from '../src/models/friendRequest.model';
+import Notification from '../src/models/notification.model';
+import Workspace, { IWorkspace } from '../src/models/workspace.model';
+
+/**
+ * Workspace Migration Script
+ * Moves data created before workspaces existed into a default workspace:
+ * every existing user becomes a member, and groups, messages, friend requests
+ * and notifications without a workspace are assigned to it
+ * Safe to run more than once
+ */
+
+const DEFAULT_WORKSPACE_NAME = 'Default Workspace';
+const DEFAULT_WORKSPACE_SLUG = 'default';
+
+/**
+ * Find the default workspace, creating it on the first run
+ * It is created by the oldest owner, or the oldest user if there is no owner
+ */
+async function getDefaultWorkspace(): Promise<IWorkspace | null> {
+  const existing = await Workspace.findOne({ slug: DEFAULT_WORKSPACE_SLUG });
+  if (existing) {
+    console.log(` Using existing workspace "${existing.name}"`);
+    return existing;
+  }
+
+  const creator = await User.findOne({ role: 'owner' }).sort({ createdAt: 1 }) ||
+    await User.findOne().sort({ createdAt: 1 });
+  if (!creator) {
+    return null;
+  }
+
+  const workspace = await Workspace.create({
+    name: DEFAULT_WORKSPACE_NAME,
+    slug: DEFAULT_WORKSPACE_SLUG,
+    createdBy: creator._id,
+    members: []
+  });
+
+  console.log(` Created workspace "${workspace.name}"`);
+  return workspace;
+}
+
+/**
+ * Add every user who is not a member yet; global owners and admins become workspace admins
+ */
+async function addMembers(workspace: IWorkspace): Promise<number> {
+  const memberIds = new Set(workspace.members.map(member => member.user.toString()));
+  const users = await User.find().select('role createdAt').sort({ createdAt: 1 });
+
+  const newMembers = users
+    .filter(user => !memberIds.has(user._id.toString()))
+    .map(user => ({
+      user: user._id,
+      role: user.role === 'owner' || user.role === 'admin' || user._id.toString() === workspace.createdBy.toString() ? 'admin' : 'member',
+      joinedAt: new Date()
+    }));
+
+  if (newMembers.length > 0) {
+    await Workspace.updateOne({ _id: workspace._id }, { $push: { members: { $each: newMembers } } });
+  }
+
+  // Users who never logged in since workspaces exist start in the default workspace
+  await User.updateMany(
+    { defaultWorkspace: { $exists: false } },
+    { $set: { defaultWorkspace: workspace._id } }
+  );
+
+  return newMembers.length;
+}
+
+/**
+ * Assign documents created before workspaces existed to the default workspace
+ */
+async function assignWorkspace(workspace: IWorkspace): Promise<Record<string, number>> {
+  const filter = { workspace: { $exists: false } };
+  const update = { $set: { workspace: workspace._id } };
+
+  const [groups, messages, friendRequests, notifications] = await Promise.all([
+    Group.updateMany(filter, update),
+    Message.updateMany(filter, update),
+    FriendRequest.updateMany(filter, update),
+    Notification.updateMany(filter, update)
+  ]);
+
+  return {
+    Groups: groups.modifiedCount,
+    Messages: messages.modifiedCount,
+    'Friend Requests': friendRequests.modifiedCount,
+    Notifications: notifications.modifiedCount
+  };
+}
+
+/**
+ * Replace the old unique { sender, recipient } friend request index with the per-workspace one
+ * Without this the same two users could not send each other a request in a second workspace
+ */
+async function syncFriendRequestIndexes(): Promise<string[]> {
+  return await FriendRequest.syncIndexes();
+}
+
+/**
+ * Main migration function
+ */
+async function migrateWorkspaces(): Promise<void> {
+  let exitCode = 0;
+
+  try {
+    console.log(' Starting workspace migration...');
+
+    await connectDB();
+
+    const workspace = await getDefaultWorkspace();
+    if (!workspace) {
+      console.log(' No users found, nothing to migrate');
+      return;
+    }
+
+    const addedMembers = await addMembers(workspace);
+    const assigned = await assignWorkspace(workspace);
+    const droppedIndexes = await syncFriendRequestIndexes();
+
+    console.log('\n Workspace migration completed successfully!');
+    console.log('\n Summary:');
+    console.log(`   Workspace: ${workspace.name} (${workspace._id})`);
+    console.log(`   Members added: ${addedMembers}`);
+    for (const [collection, count] of Object.entries(assigned)) {
+      console.log(`   ${collection} assigned: ${count}`);
+    }
+    console.log(`   Friend request indexes dropped: ${droppedIndexes.length > 0 ? droppedIndexes.join(', ') : 'none'}`);
+  } catch (error) {
+    console.error(' Workspace migration failed:', error);
+    exitCode = 1;
+  } finally {
+    await mongoose.connection.close();
+    console.log('\n Database connection closed');
+    process.exit(exitCode);
+  }
+}
+
+migrateWorkspaces();
+
+export { migrateWorkspaces };
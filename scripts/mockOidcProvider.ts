@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import express, { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Mock OpenID Connect Provider
+ * A minimal identity provider for testing single sign-on locally.
+ * It shows a form where any identity can be entered, so never expose it publicly.
+ *
+ * Point the server at it with:
+ *   OIDC_ISSUER=http://localhost:4000
+ *   OIDC_CLIENT_ID=workplace-connect
+ *   OIDC_CLIENT_SECRET=mock-secret
+ *   OIDC_REDIRECT_URI=http://localhost:5001/api/auth/oidc/callback
+ */
+
+const PORT = parseInt(process.env.MOCK_OIDC_PORT || '4000', 10);
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'workplace-connect';
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || 'mock-secret';
+const CODE_EXPIRES_MS = 60 * 1000;
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  claims: Record<string, unknown>;
+  expiresAt: number;
+}
+
+// Fresh signing key on every start
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+
+const codes = new Map<string, PendingCode>();
+const accessTokens = new Map<string, Record<string, unknown>>();
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (req: Request, res: Response) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    userinfo_endpoint: `${ISSUER}/userinfo`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post']
+  });
+});
+
+app.get('/jwks', (req: Request, res: Response) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+});
+
+// Show a form where the tester picks the identity to log in as
+app.get('/authorize', (req: Request, res: Response) => {
+  const { client_id, redirect_uri, response_type, code_challenge, code_challenge_method } = req.query;
+
+  if (client_id !== CLIENT_ID || typeof redirect_uri !== 'string' || response_type !== 'code') {
+    res.status(400).send('Invalid authorization request');
+    return;
+  }
+  if (typeof code_challenge !== 'string' || code_challenge_method !== 'S256') {
+    res.status(400).send('PKCE with S256 is required');
+    return;
+  }
+
+  const hiddenFields = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(String(req.query[name] || ''))}">`)
+    .join('\n');
+
+  res.send(`<!DOCTYPE html>
+<html>
+<head><title>Mock Identity Provider</title></head>
+<body style="font-family: sans-serif; max-width: 420px; margin: 40px auto;">
+  <h2>Mock Identity Provider</h2>
+  <form method="post" action="/authorize">
+    ${hiddenFields}
+    <p><label>Subject<br><input name="sub" value="mock-user-1" required></label></p>
+    <p><label>Email<br><input name="email" type="email" value="jane.doe@example.com" required></label></p>
+    <p><label>First name<br><input name="given_name" value="Jane"></label></p>
+    <p><label>Last name<br><input name="family_name" value="Doe"></label></p>
+    <p><label><input name="email_verified" type="checkbox" value="true" checked> Email verified</label></p>
+    <button type="submit">Sign in</button>
+  </form>
+</body>
+</html>`);
+});
+
+app.post('/authorize', (req: Request, res: Response) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, sub, email, given_name, family_name, email_verified } = req.body;
+
+  if (client_id !== CLIENT_ID || !redirect_uri || !code_challenge || !sub) {
+    res.status(400).send('Invalid authorization request');
+    return;
+  }
+
+  const code = crypto.randomBytes(24).toString('base64url');
+  codes.set(code, {
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    codeChallenge: code_challenge,
+    nonce: nonce || undefined,
+    claims: { sub, email, given_name, family_name, email_verified: email_verified === 'true' },
+    expiresAt: Date.now() + CODE_EXPIRES_MS
+  });
+
+  const url = new URL(redirect_uri);
+  url.searchParams.set('code', code);
+  if (state) url.searchParams.set('state', state);
+  res.redirect(url.toString());
+});
+
+app.post('/token', (req: Request, res: Response) => {
+  // Accept client_secret_basic and client_secret_post
+  let clientId = req.body.client_id;
+  let clientSecret = req.body.client_secret;
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Basic ')) {
+    const [id, secret] = Buffer.from(authorization.slice(6), 'base64').toString().split(':');
+    clientId = decodeURIComponent(id);
+    clientSecret = decodeURIComponent(secret || '');
+  }
+
+  if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+    res.status(401).json({ error: 'invalid_client' });
+    return;
+  }
+
+  const { grant_type, code, redirect_uri, code_verifier } = req.body;
+  const pending = codes.get(code);
+  codes.delete(code);
+
+  if (grant_type !== 'authorization_code' || !pending || pending.expiresAt < Date.now()) {
+    res.status(400).json({ error: 'invalid_grant' });
+    return;
+  }
+
+  const challenge = crypto.createHash('sha256').update(String(code_verifier || '')).digest('base64url');
+  if (pending.clientId !== clientId || pending.redirectUri !== redirect_uri || challenge !== pending.codeChallenge) {
+    res.status(400).json({ error: 'invalid_grant' });
+    return;
+  }
+
+  const idToken = jwt.sign(
+    { ...pending.claims, nonce: pending.nonce },
+    privateKey,
+    { algorithm: 'RS256', keyid: KEY_ID, issuer: ISSUER, audience: clientId, expiresIn: '5m' }
+  );
+  const accessToken = crypto.randomBytes(24).toString('base64url');
+  accessTokens.set(accessToken, pending.claims);
+
+  res.json({ access_token: accessToken, id_token: idToken, token_type: 'Bearer', expires_in: 300 });
+});
+
+app.get('/userinfo', (req: Request, res: Response) => {
+  const token = req.headers.authorization?.replace(/^Bearer /, '') || '';
+  const claims = accessTokens.get(token);
+
+  if (!claims) {
+    res.status(401).json({ error: 'invalid_token' });
+    return;
+  }
+
+  res.json(claims);
+});
+
+app.listen(PORT, () => {
+  console.log(` Mock OIDC provider running at ${ISSUER}`);
+  console.log(`   Client ID: ${CLIENT_ID}`);
+  console.log(`   Client secret: ${CLIENT_SECRET}`);
+});
@@ -10,10 +10,11 @@ import User from '../src/models/user.model';
 import Group from '../src/models/group.model';
 import Message from '../src/models/message.model';
 import FriendRequest from '../src/models/friendRequest.model';
+import Workspace from '../src/models/workspace.model';
 
 /**
  * Comprehensive Database Seeding Script
- * Creates mock users, groups, messages, and friend requests
+ * Creates mock users, a shared workspace, groups, messages, and friend requests
  */
 
 // Mock users data
@@ -23,6 +24,7 @@ const mockUsers = [
     lastName: 'Johnson',
     email: 'emma.johnson@workplace.com',
     password: 'Qwerty@123',
+    role: 'owner',
     profilePicture: 'https://randomuser.me/api/portraits/women/44.jpg'
   },
   {
@@ -207,6 +209,7 @@ async function clearData(): Promise<void> {
     await Group.deleteMany({});
     await Message.deleteMany({});
     await FriendRequest.deleteMany({});
+    await Workspace.deleteMany({});
     console.log(' Cleared existing data');
   } catch (error) {
     console.error(' Error clearing data:', error);
@@ -230,6 +233,7 @@ async function createUsers(): Promise<any[]> {
         email: userData.email,
         password: hashedPassword,
         profilePicture: userData.profilePicture,
+        role: userData.role || 'member',
         isEmailVerified: true // Skip email verification for mock data
       });
       
@@ -245,10 +249,37 @@ async function createUsers(): Promise<any[]> {
   }
 }
 
+/**
+ * Create a shared workspace containing all mock users
+ */
+async function createWorkspace(users: any[]): Promise<any> {
+  try {
+    const workspace = await Workspace.create({
+      name: 'Workplace',
+      slug: 'workplace',
+      createdBy: users[0]._id,
+      members: users.map((user, index) => ({
+        user: user._id,
+        role: index === 0 ? 'admin' : 'member',
+        joinedAt: new Date()
+      })),
+      allowedDomains: ['workplace.com']
+    });
+    
+    await User.updateMany({}, { $set: { defaultWorkspace: workspace._id } });
+    
+    console.log(` Created workspace "${workspace.name}" with ${users.length} members`);
+    return workspace;
+  } catch (error) {
+    console.error(' Error creating workspace:', error);
+    throw error;
+  }
+}
+
 /**
  * Create mock groups
  */
-async function createGroups(users: any[]): Promise<any[]> {
+async function createGroups(users: any[], workspace: any): Promise<any[]> {
   try {
     const groups: any[] = [];
     
@@ -271,6 +302,7 @@ async function createGroups(users: any[]): Promise<any[]> {
       }
       
       const group = new Group({
+        workspace: workspace._id,
         name: groupData.name,
         description: groupData.description,
         members: groupMembers.map(user => user._id),
@@ -293,7 +325,7 @@ async function createGroups(users: any[]): Promise<any[]> {
 /**
  * Create mock messages
  */
-async function createMessages(users: any[], groups: any[]): Promise<any[]> {
+async function createMessages(users: any[], groups: any[], workspace: any): Promise<any[]> {
   try {
     const messages: any[] = [];
     
@@ -312,6 +344,7 @@ async function createMessages(users: any[], groups: any[]): Promise<any[]> {
           
           const message = new Message({
             content: sampleMessages[Math.floor(Math.random() * sampleMessages.length)],
+            workspace: workspace._id,
             sender: sender._id,
             receiver: receiver._id,
             timestamp: new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000), // Random time in last 7 days
@@ -346,6 +379,7 @@ async function createMessages(users: any[], groups: any[]): Promise<any[]> {
         
         const message = new Message({
           content: sampleMessages[Math.floor(Math.random() * sampleMessages.length)],
+          workspace: workspace._id,
           sender: sender._id,
           group: group._id,
           timestamp: new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000), // Random time in last 7 days
@@ -368,7 +402,7 @@ async function createMessages(users: any[], groups: any[]): Promise<any[]> {
 /**
  * Create mock friend requests
  */
-async function createFriendRequests(users: any[]): Promise<any[]> {
+async function createFriendRequests(users: any[], workspace: any): Promise<any[]> {
   try {
     const friendRequests: any[] = [];
     
@@ -392,6 +426,7 @@ async function createFriendRequests(users: any[]): Promise<any[]> {
         const status = Math.random() > 0.7 ? 'pending' : (Math.random() > 0.5 ? 'accepted' : 'rejected');
         
         const friendRequest = new FriendRequest({
+          workspace: workspace._id,
           sender: sender._id,
           recipient: recipient._id,
           status: status,
@@ -426,19 +461,21 @@ async function seedDatabase(): Promise<void> {
     
     // Create mock data
     const users = await createUsers();
-    const groups = await createGroups(users);
-    const messages = await createMessages(users, groups);
-    const friendRequests = await createFriendRequests(users);
+    const workspace = await createWorkspace(users);
+    const groups = await createGroups(users, workspace);
+    const messages = await createMessages(users, groups, workspace);
+    const friendRequests = await createFriendRequests(users, workspace);
     
     console.log('\n Database seeding completed successfully!');
     console.log('\n Summary:');
     console.log(`   Users: ${users.length}`);
+    console.log(`   Workspace: ${workspace.name}`);
     console.log(`   Groups: ${groups.length}`);
     console.log(`   Messages: ${messages.length}`);
     console.log(`   Friend Requests: ${friendRequests.length}`);
     
     console.log('\n Test User Credentials:');
-    console.log('   Email: emma.johnson@workplace.com');
+    console.log('   Email: emma.johnson@workplace.com (owner)');
     console.log('   Password: Qwerty@123');
     console.log('\n   (All users have the same password: Qwerty@123)');
     
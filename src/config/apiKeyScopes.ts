@@ -0,0 +1,20 @@
+/**
+ * Scopes that can be granted to personal API keys
+ * Sessions (JWT logins) are not limited by scopes
+ */
+export const API_KEY_SCOPES = {
+  USERS_READ: 'users:read',
+  WORKSPACES_READ: 'workspaces:read',
+  MESSAGES_READ: 'messages:read',
+  MESSAGES_WRITE: 'messages:write',
+  GROUPS_READ: 'groups:read',
+  GROUPS_WRITE: 'groups:write',
+  FRIENDS_READ: 'friends:read',
+  FRIENDS_WRITE: 'friends:write',
+  NOTIFICATIONS_READ: 'notifications:read',
+  NOTIFICATIONS_WRITE: 'notifications:write'
+} as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[keyof typeof API_KEY_SCOPES];
+
+export const API_KEY_SCOPE_VALUES = Object.values(API_KEY_SCOPES) as [ApiKeyScope, ...ApiKeyScope[]];
@@ -0,0 +1,60 @@
+/**
+ * Global user roles, ordered from most to least privileged
+ */
+export const ROLES = ['owner', 'admin', 'member', 'guest'] as const;
+
+export type Role = typeof ROLES[number];
+
+/**
+ * Permissions checked by the authorize middleware
+ */
+export const PERMISSIONS = {
+  NOTIFICATIONS_CREATE: 'notifications:create',
+  MOCK_READ: 'mock:read',
+  STATS_READ: 'stats:read',
+  USERS_MANAGE_ROLES: 'users:manage_roles',
+  GROUPS_CREATE: 'groups:create',
+  WORKSPACES_CREATE: 'workspaces:create',
+  WORKSPACES_MANAGE_DOMAINS: 'workspaces:manage_domains',
+  MESSAGES_AUDIT: 'messages:audit',
+  FILES_MANAGE: 'files:manage'
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+const MEMBER_PERMISSIONS: Permission[] = [
+  PERMISSIONS.GROUPS_CREATE,
+  PERMISSIONS.WORKSPACES_CREATE
+];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...MEMBER_PERMISSIONS,
+  PERMISSIONS.NOTIFICATIONS_CREATE,
+  PERMISSIONS.MOCK_READ,
+  PERMISSIONS.STATS_READ,
+  PERMISSIONS.USERS_MANAGE_ROLES,
+  PERMISSIONS.WORKSPACES_MANAGE_DOMAINS,
+  PERMISSIONS.MESSAGES_AUDIT,
+  PERMISSIONS.FILES_MANAGE
+];
+
+/**
+ * Permissions granted to each role
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: [...ADMIN_PERMISSIONS],
+  admin: ADMIN_PERMISSIONS,
+  member: MEMBER_PERMISSIONS,
+  guest: []
+};
+
+/**
+ * Check whether a role grants a permission
+ * @param role - User role (unknown roles have no permissions)
+ * @param permission - Permission to check
+ * @returns True if the role grants the permission
+ */
+export const hasPermission = (role: string | undefined, permission: Permission): boolean => {
+  const permissions = ROLE_PERMISSIONS[role as Role];
+  return !!permissions && permissions.includes(permission);
+};
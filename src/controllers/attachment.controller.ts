@@ -0,0 +1,286 @@
+import { Request, Response, NextFunction } from 'express';
+import { ZodError } from 'zod';
+import mongoose from 'mongoose';
+import { attachmentService } from '../services/attachment.service';
+import { uploadService } from '../services/upload.service';
+import { IAttachment } from '../models/attachment.model';
+import { IUploadSession } from '../models/uploadSession.model';
+import { generateFileUrl } from '../utils/fileUpload.util';
+import { createUploadSchema, uploadChunkHeadersSchema, uploadIdSchema } from '../validations/message.validation';
+
+const formatAttachment = (attachment: IAttachment, baseUrl: string) => ({
+  _id: attachment._id.toString(),
+  name: attachment.originalName,
+  size: attachment.size,
+  mimeType: attachment.mimeType,
+  kind: attachment.kind,
+  width: attachment.width ?? null,
+  height: attachment.height ?? null,
+  url: generateFileUrl(attachment.filename, baseUrl),
+  uploadedAt: attachment.createdAt
+});
+
+const formatUpload = (upload: IUploadSession) => ({
+  _id: upload._id.toString(),
+  name: upload.originalName,
+  mimeType: upload.mimeType,
+  kind: upload.kind,
+  size: upload.size,
+  offset: upload.receivedBytes,
+  expiresAt: upload.expiresAt
+});
+
+const sendValidationError = (error: ZodError, res: Response): void => {
+  res.status(400).json({
+    message: 'Validation error',
+    errors: error.errors.map(err => ({
+      path: err.path.join('.'),
+      message: err.message
+    }))
+  });
+};
+
+/**
+ * Upload files to attach to a message
+ * POST /api/messages/attachments
+ */
+export const uploadAttachments = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    if (files.length === 0) {
+      res.status(400).json({ message: 'No files uploaded' });
+      return;
+    }
+
+    const attachments = await attachmentService.createAttachments(
+      new mongoose.Types.ObjectId(req.workspaceId),
+      new mongoose.Types.ObjectId(req.user._id),
+      files
+    );
+
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+
+    res.status(201).json({
+      success: true,
+      message: 'Attachments uploaded successfully',
+      data: {
+        attachments: attachments.map(attachment => formatAttachment(attachment, baseUrl))
+      }
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('exceeds the') || error.message.startsWith('Storage quota exceeded')) {
+        res.status(413).json({ message: error.message });
+        return;
+      }
+      if (error.message === 'Invalid file type' ||
+          error.message === 'Invalid image file' ||
+          error.message === 'File content does not match its type') {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    next(error);
+  }
+};
+
+/**
+ * Start a resumable upload of a large attachment
+ * POST /api/messages/attachments/uploads
+ */
+export const createUpload = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const input = createUploadSchema.parse(req.body);
+
+    const upload = await uploadService.createUpload(
+      new mongoose.Types.ObjectId(req.workspaceId),
+      new mongoose.Types.ObjectId(req.user._id),
+      input
+    );
+
+    res.status(201)
+      .location(`${req.baseUrl}/attachments/uploads/${upload._id}`)
+      .set('Upload-Offset', '0')
+      .json({
+        success: true,
+        message: 'Upload created successfully',
+        data: { upload: formatUpload(upload) }
+      });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      sendValidationError(error, res);
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('exceeds the') || error.message.startsWith('Storage quota exceeded')) {
+        res.status(413).json({ message: error.message });
+        return;
+      }
+      if (error.message === 'Invalid file type') {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    next(error);
+  }
+};
+
+/**
+ * Get the state of a resumable upload, e.g. the offset to resume from
+ * GET /api/messages/attachments/uploads/:uploadId
+ */
+export const getUpload = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { uploadId } = uploadIdSchema.parse(req.params);
+
+    const upload = await uploadService.getUpload(uploadId, new mongoose.Types.ObjectId(req.user._id));
+
+    res.set({ 'Upload-Offset': upload.receivedBytes.toString(), 'Cache-Control': 'no-store' }).json({
+      success: true,
+      data: { upload: formatUpload(upload) }
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      sendValidationError(error, res);
+      return;
+    }
+
+    if (error instanceof Error && error.message === 'Upload not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+
+    next(error);
+  }
+};
+
+/**
+ * Append a chunk to a resumable upload
+ * PATCH /api/messages/attachments/uploads/:uploadId
+ */
+export const appendUploadChunk = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const uploaderId = new mongoose.Types.ObjectId(req.user._id);
+
+  try {
+    const { uploadId } = uploadIdSchema.parse(req.params);
+    const headers = uploadChunkHeadersSchema.parse(req.headers);
+
+    const upload = await uploadService.appendChunk(
+      uploadId,
+      uploaderId,
+      headers['upload-offset'],
+      req.body as Buffer,
+      headers['upload-checksum']
+    );
+
+    res.set('Upload-Offset', upload.receivedBytes.toString()).json({
+      success: true,
+      data: { upload: formatUpload(upload) }
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      sendValidationError(error, res);
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Upload not found') {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+      // Tell the client where to resume from
+      if (error.message === 'Upload offset mismatch') {
+        const upload = await uploadService.getUpload(req.params.uploadId as string, uploaderId).catch(() => null);
+        res.status(409)
+          .set('Upload-Offset', upload ? upload.receivedBytes.toString() : '0')
+          .json({ message: error.message, offset: upload?.receivedBytes ?? null });
+        return;
+      }
+      if (error.message === 'Chunk exceeds the declared upload size' || error.message === 'Chunk checksum mismatch') {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    next(error);
+  }
+};
+
+/**
+ * Finish a resumable upload and create its attachment
+ * POST /api/messages/attachments/uploads/:uploadId/complete
+ */
+export const completeUpload = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { uploadId } = uploadIdSchema.parse(req.params);
+
+    const attachment = await uploadService.completeUpload(uploadId, new mongoose.Types.ObjectId(req.user._id));
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+
+    res.status(201).json({
+      success: true,
+      message: 'Attachment uploaded successfully',
+      data: { attachment: formatAttachment(attachment, baseUrl) }
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      sendValidationError(error, res);
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Upload not found') {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+      if (error.message === 'Upload is incomplete') {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+      if (error.message.includes('exceeds the') || error.message.startsWith('Storage quota exceeded')) {
+        res.status(413).json({ message: error.message });
+        return;
+      }
+      if (error.message === 'File checksum mismatch' ||
+          error.message === 'Invalid image file' ||
+          error.message === 'File content does not match its type') {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+
+    next(error);
+  }
+};
+
+/**
+ * Cancel a resumable upload
+ * DELETE /api/messages/attachments/uploads/:uploadId
+ */
+export const abortUpload = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { uploadId } = uploadIdSchema.parse(req.params);
+
+    await uploadService.abortUpload(uploadId, new mongoose.Types.ObjectId(req.user._id));
+
+    res.json({
+      success: true,
+      message: 'Upload cancelled successfully'
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      sendValidationError(error, res);
+      return;
+    }
+
+    if (error instanceof Error && error.message === 'Upload not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+
+    next(error);
+  }
+};
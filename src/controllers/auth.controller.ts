@@ -1,21 +1,120 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import { UserRepository } from '../repositories/user.repository';
-import { loginSchema, registerSchema } from '../validations/auth.validation';
+import {
+  loginSchema,
+  twoFactorLoginSchema,
+  registerSchema,
+  refreshTokenSchema,
+  sessionIdSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  unlockAccountSchema,
+  oidcCallbackQuerySchema,
+  oidcExchangeSchema
+} from '../validations/auth.validation';
 import { ZodError } from 'zod';
 import { IUser } from '../models/user.model';
+import { sessionService, SessionMetadata, AuthTokens } from '../services/session.service';
+import { authTokenService } from '../services/authToken.service';
+import { emailService } from '../services/email.service';
+import { emailVerificationService } from '../services/emailVerification.service';
+import { twoFactorService } from '../services/twoFactor.service';
+import { loginThrottleService } from '../services/loginThrottle.service';
+import { workspaceService } from '../services/workspace.service';
+import { oidcService, getOidcConfig, isPasswordLoginDisabled } from '../services/oidc.service';
+import bcrypt from 'bcrypt';
+import SocketService from '../services/socket.service';
 
 const userRepository = new UserRepository();
 
+// Socket service instance will be injected
+let socketService: SocketService | null = null;
+
+// Function to set socket service instance
+export const setSocketService = (instance: SocketService) => {
+  socketService = instance;
+};
+
+/**
+ * Collect device information stored with a session
+ * @param req - Express request
+ * @returns Session metadata
+ */
+const getSessionMetadata = (req: Request): SessionMetadata => ({
+  userAgent: req.headers['user-agent'] || '',
+  ipAddress: req.ip || req.socket?.remoteAddress || ''
+});
+
 /**
- * Generate JWT token for authenticated user
- * @param userId - User ID to include in token payload
- * @returns JWT token string
+ * Build the token part of an authentication response
+ * @param tokens - Tokens issued for the session
+ * @returns Token fields returned to the client
  */
-const generateToken = (userId: string): string => {
-  return jwt.sign({ id: userId }, process.env.JWT_SECRET || 'fallback_secret', {
-    expiresIn: '30d',
+const formatTokens = (tokens: AuthTokens) => ({
+  token: tokens.accessToken,
+  refreshToken: tokens.refreshToken,
+  expiresIn: tokens.accessTokenExpiresIn,
+  refreshTokenExpiresAt: tokens.refreshTokenExpiresAt,
+  sessionId: tokens.session._id,
+  workspaceId: tokens.session.workspace,
+});
+
+/**
+ * Start a session in the workspace the user should land in
+ * @param user - Authenticated user
+ * @param req - Express request
+ * @returns Tokens for the new session
+ */
+const startSession = async (user: IUser, req: Request): Promise<AuthTokens> => {
+  const workspaceId = await workspaceService.resolveWorkspaceForLogin(user);
+  return await sessionService.createSession(user._id.toString(), workspaceId, getSessionMetadata(req));
+};
+
+// Compared against when the email is unknown so both cases take the same time
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('workplace-connect-timing-equalizer', 10);
+
+/**
+ * Reject the request if the caller is currently throttled
+ * @returns True if a 429 response was sent
+ */
+const rejectIfThrottled = async (res: Response, email: string | null, ip: string): Promise<boolean> => {
+  const retryAfter = await loginThrottleService.getRetryAfter(email, ip);
+  if (retryAfter === 0) return false;
+  
+  res.set('Retry-After', retryAfter.toString());
+  res.status(429).json({ 
+    message: 'Too many failed login attempts. Please try again later',
+    retryAfter
   });
+  return true;
+};
+
+/**
+ * Email a link that lifts an account lockout
+ * @param user - Locked user
+ */
+const sendAccountUnlockEmail = async (user: IUser): Promise<void> => {
+  const expiresInMinutes = parseInt(process.env.ACCOUNT_UNLOCK_TOKEN_EXPIRES_MINUTES || '60', 10);
+  const token = await authTokenService.issueToken(user._id.toString(), 'account_unlock', expiresInMinutes);
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  
+  await emailService.sendAccountUnlockEmail({
+    recipientName: `${user.firstName} ${user.lastName}`,
+    recipientEmail: user.email,
+    unlockUrl: `${frontendUrl}/unlock-account?token=${encodeURIComponent(token)}`,
+    lockoutMinutes: loginThrottleService.getLockoutMinutes(),
+    expiresInMinutes
+  });
+};
+
+/**
+ * Disconnect live sockets of revoked sessions
+ * @param sessionIds - Revoked session IDs
+ */
+const disconnectSessions = (sessionIds: string[]): void => {
+  if (!socketService) return;
+  sessionIds.forEach(sessionId => socketService?.disconnectSession(sessionId));
 };
 
 /**
@@ -24,6 +123,11 @@ const generateToken = (userId: string): string => {
  */
 export const register = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
+    if (isPasswordLoginDisabled()) {
+      res.status(403).json({ message: 'Password signup is disabled, please sign in with single sign-on' });
+      return;
+    }
+    
     // Validate input data
     const validatedData = registerSchema.parse(req.body);
     
@@ -34,25 +138,34 @@ export const register = async (req: Request, res: Response, next: NextFunction):
       return;
     }
     
+    // The very first account owns the installation
+    const isFirstUser = (await userRepository.count({})) === 0;
+    
     // Create new user (password will be hashed by the pre-save hook in the model)
     const user = await userRepository.create({
       firstName: validatedData.firstName,
       lastName: validatedData.lastName,
       email: validatedData.email,
       password: validatedData.password,
+      role: isFirstUser ? 'owner' : 'member',
     }) as IUser;
     
-    // Generate JWT token
-    const token = generateToken(user._id.toString());
+    // Ask the user to prove they own the email address
+    await emailVerificationService.sendVerification(user);
+    
+    // Start a session for the new user (in a personal workspace until the email is verified)
+    const tokens = await startSession(user, req);
     
-    // Return user data and token (excluding password)
+    // Return user data and tokens (excluding password)
     res.status(201).json({
       _id: user._id,
       firstName: user.firstName,
       lastName: user.lastName,
       email: user.email,
+      role: user.role,
+      emailVerified: user.emailVerified,
       profilePicture: user.profilePicture,
-      token,
+      ...formatTokens(tokens),
     });
   } catch (error) {
     if (error instanceof ZodError) {
@@ -77,29 +190,62 @@ export const register = async (req: Request, res: Response, next: NextFunction):
  */
 export const login = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
+    if (isPasswordLoginDisabled()) {
+      res.status(403).json({ message: 'Password login is disabled, please sign in with single sign-on' });
+      return;
+    }
+    
     // Validate input data
     const validatedData = loginSchema.parse(req.body);
+    const { ipAddress = '' } = getSessionMetadata(req);
+    
+    // Refuse attempts while the account or IP is delayed or locked out
+    if (await rejectIfThrottled(res, validatedData.email, ipAddress)) return;
     
     // Find user by email
     const user = await userRepository.findByEmail(validatedData.email) as IUser | null;
     
-    // Check if user exists and password is correct
-    if (!user || !(await user.comparePassword(validatedData.password))) {
+    // Check if user exists and password is correct (unknown emails still pay for a bcrypt compare)
+    const isPasswordValid = user
+      ? await user.comparePassword(validatedData.password)
+      : await bcrypt.compare(validatedData.password, DUMMY_PASSWORD_HASH);
+    
+    if (!user || !isPasswordValid) {
+      const { accountLocked } = await loginThrottleService.recordFailure(validatedData.email, ipAddress);
+      if (accountLocked && user) {
+        await sendAccountUnlockEmail(user);
+      }
+      
       res.status(401).json({ message: 'Invalid email or password' });
       return;
     }
     
-    // Generate JWT token
-    const token = generateToken(user._id.toString());
+    // Accounts with 2FA need a second step before a session is created
+    // Their failure counter is only cleared once that step succeeds
+    if (user.twoFactor?.enabled) {
+      res.json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken: await twoFactorService.issueChallenge(user._id.toString()),
+      });
+      return;
+    }
+    
+    await loginThrottleService.recordSuccess(validatedData.email);
+    
+    // Start a session for this device
+    const tokens = await startSession(user, req);
     
-    // Return user data and token (excluding password)
+    // Return user data and tokens (excluding password)
     res.json({
       _id: user._id,
       firstName: user.firstName,
       lastName: user.lastName,
       email: user.email,
+      role: user.role,
+      emailVerified: user.emailVerified,
       profilePicture: user.profilePicture,
-      token,
+      ...formatTokens(tokens),
     });
   } catch (error) {
     if (error instanceof ZodError) {
@@ -118,6 +264,85 @@ export const login = async (req: Request, res: Response, next: NextFunction): Pr
   }
 };
 
+/**
+ * Complete login with an authenticator or recovery code
+ * @route POST /auth/login/2fa
+ */
+export const loginWithTwoFactor = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Validate input data
+    const validatedData = twoFactorLoginSchema.parse(req.body);
+    const { ipAddress = '' } = getSessionMetadata(req);
+    
+    if (await rejectIfThrottled(res, null, ipAddress)) return;
+    
+    let user: IUser;
+    try {
+      user = await twoFactorService.getChallengeUser(validatedData.challengeToken);
+    } catch (error) {
+      await loginThrottleService.recordFailure(null, ipAddress);
+      throw error;
+    }
+    
+    // Code guessing counts against the account and IP like password guessing does
+    if (await rejectIfThrottled(res, user.email, ipAddress)) return;
+    
+    try {
+      await twoFactorService.completeChallenge(user, validatedData.challengeToken, validatedData.code);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Invalid two-factor code') {
+        const { accountLocked } = await loginThrottleService.recordFailure(user.email, ipAddress);
+        if (accountLocked) {
+          await sendAccountUnlockEmail(user);
+        }
+      }
+      throw error;
+    }
+    
+    await loginThrottleService.recordSuccess(user.email);
+    
+    // Start a session for this device
+    const tokens = await startSession(user, req);
+    
+    // Return user data and tokens (excluding password)
+    res.json({
+      _id: user._id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+      role: user.role,
+      emailVerified: user.emailVerified,
+      profilePicture: user.profilePicture,
+      ...formatTokens(tokens),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+    
+    if (error instanceof Error) {
+      if (error.message === 'Invalid or expired two-factor challenge' || error.message === 'User not found') {
+        res.status(401).json({ message: 'Invalid or expired two-factor challenge' });
+        return;
+      }
+      if (error.message === 'Invalid two-factor code') {
+        res.status(401).json({ message: error.message });
+        return;
+      }
+    }
+    
+    console.error('Two-factor login error:', error);
+    res.status(500).json({ message: 'Server error during login' });
+  }
+};
+
 /**
  * Get current user profile
  * @route GET /auth/profile
@@ -135,6 +360,9 @@ export const getProfile = async (req: Request, res: Response, next: NextFunction
       firstName: req.user.firstName,
       lastName: req.user.lastName,
       email: req.user.email,
+      role: req.user.role,
+      emailVerified: req.user.emailVerified,
+      twoFactorEnabled: !!req.user.twoFactor?.enabled,
       profilePicture: req.user.profilePicture,
       createdAt: req.user.createdAt,
       updatedAt: req.user.updatedAt,
@@ -143,4 +371,505 @@ export const getProfile = async (req: Request, res: Response, next: NextFunction
     console.error('Profile fetch error:', error);
     res.status(500).json({ message: 'Server error while fetching profile' });
   }
+};
+
+/**
+ * Exchange a refresh token for a new access token (rotates the refresh token)
+ * @route POST /auth/refresh
+ */
+export const refresh = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { refreshToken } = refreshTokenSchema.parse(req.body);
+    
+    const tokens = await sessionService.refreshSession(refreshToken, getSessionMetadata(req));
+    
+    res.json(formatTokens(tokens));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+    
+    if (error instanceof Error) {
+      if (error.message === 'Refresh token reuse detected') {
+        // The session was revoked because of the reuse, drop its sockets too
+        const [sessionId] = String(req.body.refreshToken).split('.');
+        disconnectSessions([sessionId]);
+        res.status(401).json({ message: 'Refresh token has already been used, session revoked' });
+        return;
+      }
+      if (error.message === 'Invalid refresh token') {
+        res.status(401).json({ message: error.message });
+        return;
+      }
+    }
+    
+    console.error('Token refresh error:', error);
+    res.status(500).json({ message: 'Server error during token refresh' });
+  }
+};
+
+/**
+ * Log out the current session
+ * @route POST /auth/logout
+ */
+export const logout = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user || !req.sessionId) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    await sessionService.revokeSession(req.sessionId, req.user._id, 'logout');
+    disconnectSessions([req.sessionId]);
+    
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ message: 'Server error during logout' });
+  }
+};
+
+/**
+ * List active sessions (devices) of the current user
+ * @route GET /auth/sessions
+ */
+export const getSessions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    const sessions = await sessionService.listSessions(req.user._id);
+    
+    res.json({
+      sessions: sessions.map(session => ({
+        _id: session._id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        createdAt: session.createdAt,
+        current: session._id.toString() === req.sessionId,
+      })),
+      count: sessions.length,
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ message: 'Server error while fetching sessions' });
+  }
+};
+
+/**
+ * Revoke a specific session of the current user
+ * @route DELETE /auth/sessions/:sessionId
+ */
+export const revokeSession = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    const { sessionId } = sessionIdSchema.parse(req.params);
+    
+    const revoked = await sessionService.revokeSession(sessionId, req.user._id, 'revoked_by_user');
+    if (!revoked) {
+      res.status(404).json({ message: 'Session not found' });
+      return;
+    }
+    
+    disconnectSessions([sessionId]);
+    
+    res.json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+    
+    console.error('Revoke session error:', error);
+    res.status(500).json({ message: 'Server error while revoking session' });
+  }
+};
+
+/**
+ * Revoke all sessions of the current user except the current one
+ * @route DELETE /auth/sessions
+ */
+export const revokeOtherSessions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    const revokedIds = await sessionService.revokeAllSessions(req.user._id, 'revoked_by_user', req.sessionId);
+    disconnectSessions(revokedIds);
+    
+    res.json({
+      message: 'Other sessions revoked successfully',
+      revokedCount: revokedIds.length,
+    });
+  } catch (error) {
+    console.error('Revoke other sessions error:', error);
+    res.status(500).json({ message: 'Server error while revoking sessions' });
+  }
+};
+
+/**
+ * Request a password reset link
+ * Always responds the same way so it cannot be used to probe for accounts
+ * @route POST /auth/forgot-password
+ */
+export const forgotPassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email } = forgotPasswordSchema.parse(req.body);
+    
+    const user = await userRepository.findByEmail(email) as IUser | null;
+    
+    if (user) {
+      const expiresInMinutes = parseInt(process.env.PASSWORD_RESET_TOKEN_EXPIRES_MINUTES || '60', 10);
+      const token = await authTokenService.issueToken(user._id.toString(), 'password_reset', expiresInMinutes);
+      const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+      
+      await emailService.sendPasswordResetEmail({
+        recipientName: `${user.firstName} ${user.lastName}`,
+        recipientEmail: user.email,
+        resetUrl: `${frontendUrl}/reset-password?token=${encodeURIComponent(token)}`,
+        expiresInMinutes
+      });
+    }
+    
+    res.json({ message: 'If an account with that email exists, a password reset link has been sent' });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+    
+    console.error('Forgot password error:', error);
+    res.status(500).json({ message: 'Server error while requesting password reset' });
+  }
+};
+
+/**
+ * Reset password using a single-use reset token
+ * Revokes every session of the user so existing tokens stop working
+ * @route POST /auth/reset-password
+ */
+export const resetPassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const validatedData = resetPasswordSchema.parse(req.body);
+    
+    const resetToken = await authTokenService.consumeToken(validatedData.token, 'password_reset');
+    if (!resetToken) {
+      res.status(400).json({ message: 'Invalid or expired reset token' });
+      return;
+    }
+    
+    const user = await userRepository.findById(resetToken.user) as IUser | null;
+    if (!user) {
+      res.status(400).json({ message: 'Invalid or expired reset token' });
+      return;
+    }
+    
+    // Password will be hashed by the pre-save hook in the model
+    user.password = validatedData.password;
+    await user.save();
+    
+    const revokedIds = await sessionService.revokeAllSessions(user._id.toString(), 'password_reset');
+    disconnectSessions(revokedIds);
+    
+    // A fresh password also lifts any lockout caused by guessing the old one
+    await loginThrottleService.unlockAccount(user.email);
+    
+    res.json({ message: 'Password has been reset successfully. Please log in with your new password' });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+    
+    console.error('Reset password error:', error);
+    res.status(500).json({ message: 'Server error while resetting password' });
+  }
+};
+
+/**
+ * Lift an account lockout using the token from the unlock email
+ * @route POST /auth/unlock
+ */
+export const unlockAccount = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { token } = unlockAccountSchema.parse(req.body);
+    
+    const unlockToken = await authTokenService.consumeToken(token, 'account_unlock');
+    if (!unlockToken) {
+      res.status(400).json({ message: 'Invalid or expired unlock token' });
+      return;
+    }
+    
+    const user = await userRepository.findById(unlockToken.user) as IUser | null;
+    if (!user) {
+      res.status(400).json({ message: 'Invalid or expired unlock token' });
+      return;
+    }
+    
+    await loginThrottleService.unlockAccount(user.email);
+    
+    res.json({ message: 'Your account has been unlocked. You can log in again' });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+    
+    console.error('Unlock account error:', error);
+    res.status(500).json({ message: 'Server error while unlocking account' });
+  }
+};
+
+/**
+ * Verify email address using a verification token
+ * @route POST /auth/verify-email
+ */
+export const verifyEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { token } = verifyEmailSchema.parse(req.body);
+    
+    const user = await emailVerificationService.verifyEmail(token);
+    
+    // A verified email proves the domain, so join the workspaces that allow it
+    const joinedWorkspaces = await workspaceService.joinByEmailDomain(user);
+    
+    res.json({
+      message: 'Email address verified successfully',
+      user: {
+        _id: user._id,
+        email: user.email,
+        emailVerified: user.emailVerified,
+        emailVerifiedAt: user.emailVerifiedAt,
+      },
+      joinedWorkspaces: joinedWorkspaces.map(workspace => ({
+        _id: workspace._id,
+        name: workspace.name,
+        slug: workspace.slug,
+      })),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+    
+    if (error instanceof Error && error.message === 'Invalid or expired verification token') {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    
+    console.error('Verify email error:', error);
+    res.status(500).json({ message: 'Server error while verifying email' });
+  }
+};
+
+/**
+ * Resend the email verification link to the current user
+ * @route POST /auth/resend-verification
+ */
+export const resendVerificationEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    if (req.user.emailVerified) {
+      res.status(400).json({ message: 'Email address is already verified' });
+      return;
+    }
+    
+    await emailVerificationService.sendVerification(req.user);
+    
+    res.json({ message: `Verification email sent to ${req.user.email}` });
+  } catch (error) {
+    console.error('Resend verification email error:', error);
+    res.status(500).json({ message: 'Server error while sending verification email' });
+  }
+};
+
+
+/**
+ * Build the frontend URL the browser is sent to after a single sign-on attempt
+ * @param params - Query parameters (a one-time login code or an error)
+ */
+const buildOidcFrontendRedirect = (params: Record<string, string>): string => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const url = new URL(process.env.OIDC_FRONTEND_CALLBACK_URL || `${frontendUrl}/auth/sso/callback`);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url.toString();
+};
+
+/**
+ * Describe the single sign-on configuration for the login page
+ * @route GET /auth/oidc
+ */
+export const getOidcStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const config = getOidcConfig();
+  
+  res.json({
+    enabled: !!config,
+    providerName: config?.providerName,
+    loginUrl: config ? '/api/auth/oidc/login' : undefined,
+    passwordLoginEnabled: !isPasswordLoginDisabled(),
+  });
+};
+
+/**
+ * Start single sign-on by redirecting to the identity provider
+ * @route GET /auth/oidc/login
+ */
+export const oidcLogin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!getOidcConfig()) {
+      res.status(404).json({ message: 'Single sign-on is not configured' });
+      return;
+    }
+    
+    const authorizationUrl = await oidcService.createAuthorizationUrl();
+    res.redirect(authorizationUrl);
+  } catch (error) {
+    console.error('OIDC login error:', error);
+    res.status(502).json({ message: 'Could not reach the identity provider' });
+  }
+};
+
+/**
+ * Handle the identity provider redirect
+ * Sends the browser to the frontend with a one-time login code, never with the tokens themselves
+ * @route GET /auth/oidc/callback
+ */
+export const oidcCallback = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { code, state, error } = oidcCallbackQuerySchema.parse(req.query);
+    
+    if (error || !code || !state) {
+      res.redirect(buildOidcFrontendRedirect({ error: error || 'invalid_request' }));
+      return;
+    }
+    
+    const { user } = await oidcService.handleCallback(code, state);
+    
+    const expiresInMinutes = parseInt(process.env.OIDC_LOGIN_CODE_EXPIRES_MINUTES || '2', 10);
+    const loginCode = await authTokenService.issueToken(user._id.toString(), 'oidc_login', expiresInMinutes);
+    
+    res.redirect(buildOidcFrontendRedirect({ code: loginCode }));
+  } catch (error) {
+    console.error('OIDC callback error:', error);
+    
+    let reason = 'login_failed';
+    if (error instanceof Error) {
+      if (error.message === 'Invalid or expired login state') reason = 'invalid_state';
+      if (error.message === 'Email address is not verified by the identity provider') reason = 'email_not_verified';
+      if (error.message === 'Identity provider did not return an email address') reason = 'email_missing';
+    }
+    
+    res.redirect(buildOidcFrontendRedirect({ error: reason }));
+  }
+};
+
+/**
+ * Exchange the one-time login code from the single sign-on redirect for a session
+ * @route POST /auth/oidc/exchange
+ */
+export const oidcExchange = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { code } = oidcExchangeSchema.parse(req.body);
+    
+    const loginToken = await authTokenService.consumeToken(code, 'oidc_login');
+    if (!loginToken) {
+      res.status(400).json({ message: 'Invalid or expired login code' });
+      return;
+    }
+    
+    const user = await userRepository.findById(loginToken.user) as IUser | null;
+    if (!user) {
+      res.status(400).json({ message: 'Invalid or expired login code' });
+      return;
+    }
+    
+    // Local 2FA still applies to accounts that enabled it
+    if (user.twoFactor?.enabled) {
+      res.json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken: await twoFactorService.issueChallenge(user._id.toString()),
+      });
+      return;
+    }
+    
+    const tokens = await startSession(user, req);
+    
+    res.json({
+      _id: user._id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+      role: user.role,
+      emailVerified: user.emailVerified,
+      profilePicture: user.profilePicture,
+      ...formatTokens(tokens),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+    
+    console.error('OIDC exchange error:', error);
+    res.status(500).json({ message: 'Server error during login' });
+  }
 };
\ No newline at end of file
@@ -1,7 +1,82 @@
 import { Request, Response, NextFunction } from 'express';
+import { ZodError } from 'zod';
+import mongoose from 'mongoose';
 import path from 'path';
-import fs from 'fs';
-import { getFileInfo } from '../utils/fileUpload.util';
+import { ALLOWED_FILE_EXTENSIONS, getFileInfo, getMimeTypeForFilename, isImageFilename } from '../utils/fileUpload.util';
+import { IMAGE_VARIANT_SIZES, ImageVariantSize, getVariantFilename } from '../utils/imageProcessing.util';
+import { verifyUrlSignature } from '../utils/crypto.util';
+import { attachmentService } from '../services/attachment.service';
+import { getSignedUrlTtlSeconds, getStorage } from '../services/storage.service';
+import { fileService } from '../services/file.service';
+import { fileGcService } from '../services/fileGc.service';
+import { fileGcSchema } from '../validations/file.validation';
+import { IAttachment } from '../models/attachment.model';
+
+// Stored files are named UUID + extension
+const FILENAME_PATTERN = new RegExp(
+  `^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}\\.(${ALLOWED_FILE_EXTENSIONS.map(extension => extension.slice(1)).join('|')})$`,
+  'i'
+);
+
+/**
+ * Check the expires/signature query of a signed file URL
+ */
+const hasValidUrlSignature = (filename: string, req: Request): boolean => {
+  const { expires, signature } = req.query;
+  return typeof expires === 'string' && typeof signature === 'string' &&
+    verifyUrlSignature(filename, Number(expires), signature);
+};
+
+/**
+ * Answer 401/404 unless the requester may download the attachment
+ * Not found is used for other users so attachment names do not leak
+ * A valid signed URL grants access without authentication
+ * @returns True if access is allowed
+ */
+const checkAttachmentAccess = async (attachment: IAttachment, req: Request, res: Response): Promise<boolean> => {
+  if (hasValidUrlSignature(attachment.filename, req)) {
+    return true;
+  }
+
+  if (!req.user) {
+    res.status(401).json({ message: 'Not authorized, no token' });
+    return false;
+  }
+
+  if (!(await attachmentService.canAccess(attachment, req.user._id))) {
+    res.status(404).json({ message: 'File not found' });
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Build a Content-Disposition header with an ASCII fallback and the UTF-8 file name (RFC 6266)
+ */
+const buildContentDisposition = (type: 'inline' | 'attachment', filename: string): string => {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+/**
+ * Check the If-Range header: a range only applies if the file is still the version the client has
+ * Dates are compared at the one-second precision of Last-Modified
+ */
+const isIfRangeFresh = (req: Request, etag: string, modifiedAt: Date): boolean => {
+  const ifRange = req.get('If-Range');
+  if (!ifRange) {
+    return true;
+  }
+
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    // Weak validators never match for ranges
+    return ifRange === etag;
+  }
+
+  return Math.floor(modifiedAt.getTime() / 1000) === Math.floor(Date.parse(ifRange) / 1000);
+};
 
 /**
  * Serve uploaded files with proper headers and security
@@ -12,64 +87,72 @@ export const serveFile = async (req: Request, res: Response, next: NextFunction)
     const { filename } = req.params;
     
     // Validate filename format (should be UUID + extension)
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}\.(jpg|jpeg|png|gif|webp)$/i;
-    
-    if (!uuidRegex.test(filename)) {
+    if (!FILENAME_PATTERN.test(filename)) {
       res.status(400).json({ message: 'Invalid filename format' });
       return;
     }
-    
-    const filesDir = path.join(process.cwd(), 'files');
-    const filePath = path.join(filesDir, filename);
-    
-    // Security check: ensure the resolved path is within the files directory
-    const resolvedPath = path.resolve(filePath);
-    const resolvedFilesDir = path.resolve(filesDir);
-    
-    if (!resolvedPath.startsWith(resolvedFilesDir)) {
-      res.status(403).json({ message: 'Access denied' });
+
+    // Message attachments are only available to the participants of their conversations
+    const attachment = await attachmentService.getByFilename(filename as string);
+    if (attachment && !(await checkAttachmentAccess(attachment, req, res))) {
       return;
     }
-    
-    // Check if file exists
-    if (!fs.existsSync(filePath)) {
-      res.status(404).json({ message: 'File not found' });
-      return;
+
+    const storage = getStorage();
+
+    // Images can be served resized (?size=) and as WebP (?format=webp, or when the client accepts it)
+    let servedFilename = filename as string;
+    if (isImageFilename(servedFilename)) {
+      const { size, format } = req.query;
+      if (size !== undefined && !IMAGE_VARIANT_SIZES.includes(Number(size) as ImageVariantSize)) {
+        res.status(400).json({ message: `Invalid size. Use one of ${IMAGE_VARIANT_SIZES.join(', ')}` });
+        return;
+      }
+
+      const variantSize = size !== undefined ? Number(size) as ImageVariantSize : undefined;
+      const webp = format === 'webp' || (format === undefined && (req.headers.accept || '').includes('image/webp'));
+      res.vary('Accept');
+
+      // Variants larger than the original and images uploaded before variants existed fall back to the original
+      const candidates = [
+        ...(variantSize ? [getVariantFilename(servedFilename, variantSize, webp)] : []),
+        ...(webp ? [getVariantFilename(servedFilename, undefined, true)] : [])
+      ];
+      for (const candidate of candidates) {
+        if (await storage.stat(candidate)) {
+          servedFilename = candidate;
+          break;
+        }
+      }
     }
     
     // Get file information
-    const fileInfo = getFileInfo(filename);
+    const fileInfo = await getFileInfo(servedFilename);
     if (!fileInfo) {
       res.status(404).json({ message: 'File not found' });
       return;
     }
     
-    // Set appropriate headers
-    const extension = path.extname(filename).toLowerCase();
-    let contentType = 'application/octet-stream';
-    
-    switch (extension) {
-      case '.jpg':
-      case '.jpeg':
-        contentType = 'image/jpeg';
-        break;
-      case '.png':
-        contentType = 'image/png';
-        break;
-      case '.gif':
-        contentType = 'image/gif';
-        break;
-      case '.webp':
-        contentType = 'image/webp';
-        break;
-    }
+    // Use the MIME type detected at upload; variants and older files fall back to their extension
+    const storedFile = servedFilename === filename ? await fileService.getByFilename(servedFilename) : null;
+    const contentType = storedFile?.mimeType ||
+      (servedFilename === filename ? attachment?.mimeType : undefined) ||
+      fileInfo.contentType ||
+      getMimeTypeForFilename(servedFilename);
+
+    // Only media is shown inline; everything else (and any file with ?download=true) is downloaded
+    const download = req.query.download === 'true' || req.query.download === '1';
+    const inline = !download && /^(image|audio|video)\//.test(contentType);
+    const etag = `"${servedFilename}-${fileInfo.modifiedAt.getTime()}"`;
     
     // Set security and caching headers
     res.set({
       'Content-Type': contentType,
-      'Content-Length': fileInfo.size.toString(),
-      'Cache-Control': 'public, max-age=31536000', // Cache for 1 year
-      'ETag': `"${filename}-${fileInfo.modifiedAt.getTime()}"`,
+      'Content-Disposition': buildContentDisposition(inline ? 'inline' : 'attachment', attachment?.originalName || servedFilename),
+      'Accept-Ranges': 'bytes',
+      // Cache for 1 year; attachments must not be kept by shared caches
+      'Cache-Control': `${attachment ? 'private' : 'public'}, max-age=31536000`,
+      'ETag': etag,
       'Last-Modified': fileInfo.modifiedAt.toUTCString(),
       'X-Content-Type-Options': 'nosniff',
       'X-Frame-Options': 'DENY'
@@ -79,29 +162,60 @@ export const serveFile = async (req: Request, res: Response, next: NextFunction)
     const ifNoneMatch = req.headers['if-none-match'];
     const ifModifiedSince = req.headers['if-modified-since'];
     
-    const etag = `"${filename}-${fileInfo.modifiedAt.getTime()}"`;
-    
     if (ifNoneMatch === etag || 
         (ifModifiedSince && new Date(ifModifiedSince) >= fileInfo.modifiedAt)) {
       res.status(304).end();
       return;
     }
+
+    // A single byte range is served as 206; several ranges, or a range for a changed file (If-Range), get the whole file
+    let range: { start: number; end: number } | undefined;
+    const ranges = req.headers.range && isIfRangeFresh(req, etag, fileInfo.modifiedAt)
+      ? req.range(fileInfo.size, { combine: true })
+      : undefined;
+
+    if (ranges === -1) {
+      res.removeHeader('Content-Type');
+      res.removeHeader('Content-Disposition');
+      res.status(416).set('Content-Range', `bytes */${fileInfo.size}`).json({ message: 'Range not satisfiable' });
+      return;
+    }
+    if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+      range = { start: ranges[0].start, end: ranges[0].end };
+      res.status(206).set('Content-Range', `bytes ${range.start}-${range.end}/${fileInfo.size}`);
+    }
+
+    res.set('Content-Length', (range ? range.end - range.start + 1 : fileInfo.size).toString());
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
     
     // Log file access
     const timestamp = new Date().toISOString();
     const clientIP = req.ip || req.connection?.remoteAddress || 'unknown';
     console.log(`📁 ${timestamp} | FILE ACCESS | ${filename} | ${clientIP} | ${req.headers['user-agent']?.substring(0, 50) || 'unknown'}`);
     
-    // Send file
-    res.sendFile(filePath, (err) => {
-      if (err) {
-        console.error('Error serving file:', err);
-        if (!res.headersSent) {
-          res.status(500).json({ message: 'Error serving file' });
-        }
+    // Stream the file (or the requested range) from storage
+    const stream = await storage.getStream(servedFilename, range);
+    stream.on('error', (err) => {
+      console.error('Error serving file:', err);
+      if (!res.headersSent) {
+        res.status(500).json({ message: 'Error serving file' });
+      } else {
+        res.destroy(err);
       }
     });
+    // Stop reading when the client goes away, e.g. when a player seeks
+    res.on('close', () => stream.destroy());
+    stream.pipe(res);
   } catch (error) {
+    if (error instanceof Error && error.message === 'File not found' && !res.headersSent) {
+      res.status(404).json({ message: 'File not found' });
+      return;
+    }
+
     console.error('File serving error:', error);
     res.status(500).json({ message: 'Server error while serving file' });
   }
@@ -116,19 +230,35 @@ export const getFileMetadata = async (req: Request, res: Response, next: NextFun
     const { filename } = req.params;
     
     // Validate filename format
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}\.(jpg|jpeg|png|gif|webp)$/i;
-    
-    if (!uuidRegex.test(filename)) {
+    if (!FILENAME_PATTERN.test(filename)) {
       res.status(400).json({ message: 'Invalid filename format' });
       return;
     }
+
+    // Message attachments are only available to the participants of their conversations
+    const attachment = await attachmentService.getByFilename(filename as string);
+    if (attachment && !(await checkAttachmentAccess(attachment, req, res))) {
+      return;
+    }
     
-    const fileInfo = getFileInfo(filename);
+    const fileInfo = await getFileInfo(filename as string);
     
     if (!fileInfo) {
       res.status(404).json({ message: 'File not found' });
       return;
     }
+
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+
+    // Attachments also get a time-limited URL that works without authentication
+    let signedUrl: { url: string; expiresAt: Date } | null = null;
+    if (attachment) {
+      const expiresInSeconds = getSignedUrlTtlSeconds();
+      signedUrl = {
+        url: await getStorage().getSignedUrl(attachment.filename, { expiresInSeconds, baseUrl }),
+        expiresAt: new Date(Date.now() + expiresInSeconds * 1000)
+      };
+    }
     
     // Return file metadata
     res.json({
@@ -136,11 +266,69 @@ export const getFileMetadata = async (req: Request, res: Response, next: NextFun
       size: fileInfo.size,
       createdAt: fileInfo.createdAt,
       modifiedAt: fileInfo.modifiedAt,
-      extension: path.extname(filename).toLowerCase(),
-      url: `${req.protocol}://${req.get('host')}/files/${filename}`
+      extension: path.extname(filename as string).toLowerCase(),
+      url: `${baseUrl}/files/${filename}`,
+      signedUrl: signedUrl?.url ?? null,
+      signedUrlExpiresAt: signedUrl?.expiresAt ?? null
     });
   } catch (error) {
     console.error('Get file metadata error:', error);
     res.status(500).json({ message: 'Server error while getting file metadata' });
   }
 };
+
+/**
+ * Get the storage used by the current user and workspace, with their quotas
+ * @route GET /api/files/usage
+ */
+export const getStorageUsage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const usage = await fileService.getUsage(
+      new mongoose.Types.ObjectId(req.user._id),
+      new mongoose.Types.ObjectId(req.workspaceId)
+    );
+
+    res.json({
+      success: true,
+      data: usage
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Run the orphaned file garbage collection now (admin only)
+ * @route POST /api/files/gc
+ */
+export const runFileGc = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { dryRun } = fileGcSchema.parse(req.body ?? {});
+
+    const report = await fileGcService.sweep(dryRun);
+
+    res.json({
+      success: true,
+      message: dryRun ? 'File garbage collection dry run completed' : 'File garbage collection completed',
+      data: { report }
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message === 'File garbage collection is already running') {
+      res.status(409).json({ message: error.message });
+      return;
+    }
+
+    next(error);
+  }
+};
@@ -0,0 +1,131 @@
+import { Request, Response, NextFunction } from 'express';
+import { ZodError } from 'zod';
+import { friendService } from '../services/friend.service';
+import { getFriendsQuerySchema, friendUserIdSchema } from '../validations/friend.validation';
+
+/**
+ * Get the current user's friends with pagination and search
+ * GET /api/friends
+ */
+export const getFriends = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { page, limit, search } = getFriendsQuerySchema.parse(req.query);
+
+    const { friends, totalCount } = await friendService.listFriends(
+      req.workspaceId!,
+      req.user._id.toString(),
+      page,
+      limit,
+      search
+    );
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+      success: true,
+      data: {
+        friends,
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalFriends: totalCount,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+          limit
+        },
+        search: search || null
+      }
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    next(error);
+  }
+};
+
+/**
+ * Remove a friend
+ * DELETE /api/friends/:userId
+ */
+export const removeFriend = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { userId } = friendUserIdSchema.parse(req.params);
+
+    await friendService.removeFriend(req.workspaceId!, req.user._id.toString(), userId);
+
+    res.json({
+      success: true,
+      message: 'Friend removed successfully'
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message === 'Friend not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+
+    next(error);
+  }
+};
+
+/**
+ * Get the relationship between the current user and another user
+ * GET /api/friends/status/:userId
+ */
+export const getRelationshipStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { userId } = friendUserIdSchema.parse(req.params);
+
+    if (userId === req.user._id.toString()) {
+      res.status(400).json({ message: 'Cannot look up your relationship with yourself' });
+      return;
+    }
+
+    const relationship = await friendService.getRelationshipStatus(
+      req.workspaceId!,
+      req.user._id.toString(),
+      userId
+    );
+
+    res.json({
+      success: true,
+      data: { userId, ...relationship }
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message === 'User not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+
+    next(error);
+  }
+};
@@ -18,8 +18,9 @@ export const sendFriendRequest = async (req: Request, res: Response, next: NextF
   try {
     const { emails } = sendFriendRequestSchema.parse(req.body);
     const senderId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
 
-    const result = await friendRequestService.sendFriendRequestsByEmail(senderId, emails);
+    const result = await friendRequestService.sendFriendRequestsByEmail(workspaceId, senderId, emails);
 
     // Determine response status based on results
     let status = 201; // Created
@@ -91,6 +92,7 @@ export const acceptFriendRequest = async (req: Request, res: Response, next: Nex
     }
 
     const friendRequest = await friendRequestService.acceptFriendRequest(
+      new mongoose.Types.ObjectId(req.workspaceId),
       new mongoose.Types.ObjectId(id),
       req.user._id
     );
@@ -135,6 +137,7 @@ export const rejectFriendRequest = async (req: Request, res: Response, next: Nex
     }
 
     const friendRequest = await friendRequestService.rejectFriendRequest(
+      new mongoose.Types.ObjectId(req.workspaceId),
       new mongoose.Types.ObjectId(id),
       req.user._id
     );
@@ -179,6 +182,7 @@ export const cancelFriendRequest = async (req: Request, res: Response, next: Nex
     }
 
     const success = await friendRequestService.cancelFriendRequest(
+      new mongoose.Types.ObjectId(req.workspaceId),
       new mongoose.Types.ObjectId(id),
       req.user._id
     );
@@ -214,6 +218,7 @@ export const getFriendRequests = async (req: Request, res: Response, next: NextF
     const validatedQuery = getFriendRequestsQuerySchema.parse(req.query);
 
     const friendRequests = await friendRequestService.getFriendRequests(
+      new mongoose.Types.ObjectId(req.workspaceId),
       req.user._id,
       validatedQuery.type,
       validatedQuery.status
@@ -269,6 +274,7 @@ export const getFriendRequestById = async (req: Request, res: Response, next: Ne
     }
 
     const friendRequest = await friendRequestService.getFriendRequestById(
+      new mongoose.Types.ObjectId(req.workspaceId),
       new mongoose.Types.ObjectId(id)
     );
 
@@ -19,8 +19,9 @@ export const createGroup = async (req: Request, res: Response, next: NextFunctio
   try {
     const { name, description, emails } = createGroupSchema.parse(req.body);
     const creatorId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
 
-    const result = await groupService.createGroup(creatorId, name, description, emails);
+    const result = await groupService.createGroup(workspaceId, creatorId, name, description, emails);
 
     // Determine response status based on results
     let status = 201; // Created
@@ -70,7 +71,8 @@ export const createGroup = async (req: Request, res: Response, next: NextFunctio
 export const getUserGroups = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     const userId = new mongoose.Types.ObjectId(req.user?._id);
-    const groups = await groupService.getUserGroups(userId);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
+    const groups = await groupService.getUserGroups(workspaceId, userId);
     
     res.json({
       success: true,
@@ -93,6 +95,7 @@ export const getGroupById = async (req: Request, res: Response, next: NextFuncti
   try {
     const { id } = groupIdSchema.parse(req.params);
     const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
 
     // Validate group ID format
     if (!mongoose.Types.ObjectId.isValid(id)) {
@@ -100,7 +103,7 @@ export const getGroupById = async (req: Request, res: Response, next: NextFuncti
       return;
     }
 
-    const group = await groupService.getGroupById(new mongoose.Types.ObjectId(id));
+    const group = await groupService.getGroupById(workspaceId, new mongoose.Types.ObjectId(id));
 
     if (!group) {
       res.status(404).json({ message: 'Group not found' });
@@ -141,6 +144,7 @@ export const updateGroup = async (req: Request, res: Response, next: NextFunctio
     const { id } = groupIdSchema.parse(req.params);
     const updates = updateGroupSchema.parse(req.body);
     const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
 
     // Validate group ID format
     if (!mongoose.Types.ObjectId.isValid(id)) {
@@ -149,6 +153,7 @@ export const updateGroup = async (req: Request, res: Response, next: NextFunctio
     }
 
     const group = await groupService.updateGroup(
+      workspaceId,
       new mongoose.Types.ObjectId(id),
       userId,
       updates
@@ -197,6 +202,7 @@ export const addMembersByEmail = async (req: Request, res: Response, next: NextF
     const { id } = groupIdSchema.parse(req.params);
     const { emails } = addMembersByEmailSchema.parse(req.body);
     const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
 
     // Validate group ID format
     if (!mongoose.Types.ObjectId.isValid(id)) {
@@ -205,6 +211,7 @@ export const addMembersByEmail = async (req: Request, res: Response, next: NextF
     }
 
     const result = await groupService.addMembersByEmail(
+      workspaceId,
       new mongoose.Types.ObjectId(id),
       userId,
       emails
@@ -267,6 +274,7 @@ export const removeMember = async (req: Request, res: Response, next: NextFuncti
   try {
     const { id, userId: memberIdToRemove } = req.params;
     const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
 
     // Validate IDs
     if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(memberIdToRemove)) {
@@ -275,6 +283,7 @@ export const removeMember = async (req: Request, res: Response, next: NextFuncti
     }
 
     const group = await groupService.removeMember(
+      workspaceId,
       new mongoose.Types.ObjectId(id),
       userId,
       new mongoose.Types.ObjectId(memberIdToRemove)
@@ -315,6 +324,7 @@ export const deleteGroup = async (req: Request, res: Response, next: NextFunctio
   try {
     const { id } = groupIdSchema.parse(req.params);
     const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
 
     // Validate group ID format
     if (!mongoose.Types.ObjectId.isValid(id)) {
@@ -322,7 +332,7 @@ export const deleteGroup = async (req: Request, res: Response, next: NextFunctio
       return;
     }
 
-    await groupService.deleteGroup(new mongoose.Types.ObjectId(id), userId);
+    await groupService.deleteGroup(workspaceId, new mongoose.Types.ObjectId(id), userId);
 
     res.json({
       success: true,
@@ -360,6 +370,7 @@ export const makeAdmin = async (req: Request, res: Response, next: NextFunction)
   try {
     const { id, userId: memberIdToPromote } = req.params;
     const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
 
     // Validate IDs
     if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(memberIdToPromote)) {
@@ -368,6 +379,7 @@ export const makeAdmin = async (req: Request, res: Response, next: NextFunction)
     }
 
     const group = await groupService.makeAdmin(
+      workspaceId,
       new mongoose.Types.ObjectId(id),
       userId,
       new mongoose.Types.ObjectId(memberIdToPromote)
@@ -409,6 +421,7 @@ export const removeAdmin = async (req: Request, res: Response, next: NextFunctio
   try {
     const { id, userId: adminIdToRemove } = req.params;
     const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
 
     // Validate IDs
     if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(adminIdToRemove)) {
@@ -417,6 +430,7 @@ export const removeAdmin = async (req: Request, res: Response, next: NextFunctio
     }
 
     const group = await groupService.removeAdmin(
+      workspaceId,
       new mongoose.Types.ObjectId(id),
       userId,
       new mongoose.Types.ObjectId(adminIdToRemove)
@@ -2,8 +2,20 @@ import { Request, Response, NextFunction } from 'express';
 import { ZodError } from 'zod';
 import mongoose from 'mongoose';
 import { MessageService } from '../services/message.service';
-import { createMessageSchema } from '../validations/message.validation';
+import {
+  createMessageSchema,
+  editMessageSchema,
+  historyQuerySchema,
+  mentionsQuerySchema,
+  messageIdSchema,
+  reactionSchema,
+  searchMessagesQuerySchema,
+  threadQuerySchema
+} from '../validations/message.validation';
 import SocketService from '../services/socket.service';
+import { workspaceService } from '../services/workspace.service';
+import { formatMessage, getParticipantId, summarizeReactions } from '../utils/messageFormat.util';
+import { buildSnippet, getSearchTerms } from '../utils/searchSnippet.util';
 
 const messageService = new MessageService();
 
@@ -21,31 +33,30 @@ export const setSocketService = (instance: SocketService) => {
  */
 export const sendMessage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { content, receiver, group } = createMessageSchema.parse(req.body);
+    const { content, receiver, group, parentMessage, quotedMessage, forwardedMessage, attachments } = createMessageSchema.parse(req.body);
     const senderId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
 
     const receiverId = receiver ? new mongoose.Types.ObjectId(receiver) : undefined;
     const groupId = group ? new mongoose.Types.ObjectId(group) : undefined;
 
-    const message = await messageService.sendMessage(senderId, content, receiverId, groupId);
+    const message = await messageService.sendMessage(workspaceId, senderId, content ?? '', receiverId, groupId, {
+      parentMessageId: parentMessage ? new mongoose.Types.ObjectId(parentMessage) : undefined,
+      quotedMessageId: quotedMessage ? new mongoose.Types.ObjectId(quotedMessage) : undefined,
+      forwardedMessageId: forwardedMessage ? new mongoose.Types.ObjectId(forwardedMessage) : undefined,
+      attachmentIds: attachments?.map(attachmentId => new mongoose.Types.ObjectId(attachmentId)),
+      onlineUserIds: socketService?.getOnlineUsers()
+    });
 
     // Format response to match frontend interface
-    const formattedMessage = {
-      _id: message._id.toString(),
-      text: message.content,
-      sender: {
-        _id: message.sender._id.toString(),
-        firstName: (message.sender as any).firstName,
-        lastName: (message.sender as any).lastName,
-        profilePicture: (message.sender as any).profilePictureUrl
-      },
-      timestamp: message.createdAt.toISOString(),
-      isOwn: true // Since the sender is sending the message
-    };
+    const formattedMessage = formatMessage(message, senderId.toString());
 
     // Emit real-time message if socket service is available
     if (socketService) {
-      if (receiverId) {
+      if (message.parentMessage) {
+        // Thread reply, kept out of the main conversation stream
+        await socketService.emitThreadReply(formattedMessage, message);
+      } else if (receiverId) {
         // Direct message
         socketService.emitDirectMessage(senderId.toString(), receiverId.toString(), formattedMessage);
       } else if (groupId) {
@@ -54,6 +65,9 @@ export const sendMessage = async (req: Request, res: Response, next: NextFunctio
       }
     }
 
+    const notifications = await messageService.notifyMentions(workspaceId, message);
+    socketService?.emitNotifications(notifications);
+
     res.status(201).json({
       success: true,
       message: 'Message sent successfully',
@@ -75,10 +89,16 @@ export const sendMessage = async (req: Request, res: Response, next: NextFunctio
         return;
       }
       if (error.message.includes('Either receiver or group') ||
-          error.message.includes('cannot have both')) {
+          error.message.includes('cannot have both') ||
+          error.message === 'Reply must be sent to the conversation of its thread' ||
+          error.message === 'Quoted message must be in the same conversation') {
         res.status(400).json({ message: error.message });
         return;
       }
+      if (error.message === 'You cannot send messages to this user') {
+        res.status(403).json({ message: error.message });
+        return;
+      }
     }
 
     next(error);
@@ -92,7 +112,7 @@ export const sendMessage = async (req: Request, res: Response, next: NextFunctio
 export const getDirectMessages = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { userId: otherUserId } = req.params;
-    const { page = '1', limit = '50' } = req.query;
+    const { page, limit, before, after, around } = historyQuerySchema.parse(req.query);
 
     // Validate other user ID
     if (!mongoose.Types.ObjectId.isValid(otherUserId)) {
@@ -101,26 +121,22 @@ export const getDirectMessages = async (req: Request, res: Response, next: NextF
     }
 
     const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
     const result = await messageService.getDirectMessages(
+      workspaceId,
       userId,
       new mongoose.Types.ObjectId(otherUserId),
-      parseInt(page as string),
-      parseInt(limit as string)
+      {
+        limit,
+        page,
+        before,
+        after,
+        aroundMessageId: around ? new mongoose.Types.ObjectId(around) : undefined
+      }
     );
 
     // Format messages to match frontend interface
-    const formattedMessages = result.messages.map(message => ({
-      _id: message._id.toString(),
-      text: message.content,
-      sender: {
-        _id: message.sender._id.toString(),
-        firstName: (message.sender as any).firstName,
-        lastName: (message.sender as any).lastName,
-        profilePicture: (message.sender as any).profilePictureUrl
-      },
-      timestamp: message.createdAt.toISOString(),
-      isOwn: message.sender._id.toString() === userId.toString()
-    }));
+    const formattedMessages = result.messages.map(message => formatMessage(message, userId.toString()));
 
     res.json({
       success: true,
@@ -128,14 +144,28 @@ export const getDirectMessages = async (req: Request, res: Response, next: NextF
       data: {
         messages: formattedMessages,
         pagination: {
-          currentPage: parseInt(page as string),
-          totalCount: result.totalCount,
-          hasMore: result.hasMore
+          ...(page !== undefined ? { currentPage: page, totalCount: result.totalCount } : {}),
+          hasMore: result.hasOlder,
+          hasOlder: result.hasOlder,
+          hasNewer: result.hasNewer,
+          prevCursor: result.prevCursor,
+          nextCursor: result.nextCursor
         }
       }
     });
   } catch (error) {
-    if (error instanceof Error && error.message === 'User not found') {
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof Error && (error.message === 'User not found' || error.message === 'Message not found')) {
       res.status(404).json({ message: error.message });
       return;
     }
@@ -151,7 +181,7 @@ export const getDirectMessages = async (req: Request, res: Response, next: NextF
 export const getGroupMessages = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { groupId } = req.params;
-    const { page = '1', limit = '50' } = req.query;
+    const { page, limit, before, after, around } = historyQuerySchema.parse(req.query);
 
     // Validate group ID
     if (!mongoose.Types.ObjectId.isValid(groupId)) {
@@ -160,26 +190,22 @@ export const getGroupMessages = async (req: Request, res: Response, next: NextFu
     }
 
     const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
     const result = await messageService.getGroupMessages(
+      workspaceId,
       userId,
       new mongoose.Types.ObjectId(groupId),
-      parseInt(page as string),
-      parseInt(limit as string)
+      {
+        limit,
+        page,
+        before,
+        after,
+        aroundMessageId: around ? new mongoose.Types.ObjectId(around) : undefined
+      }
     );
 
     // Format messages to match frontend interface
-    const formattedMessages = result.messages.map(message => ({
-      _id: message._id.toString(),
-      text: message.content,
-      sender: {
-        _id: message.sender._id.toString(),
-        firstName: (message.sender as any).firstName,
-        lastName: (message.sender as any).lastName,
-        profilePicture: (message.sender as any).profilePictureUrl
-      },
-      timestamp: message.createdAt.toISOString(),
-      isOwn: message.sender._id.toString() === userId.toString()
-    }));
+    const formattedMessages = result.messages.map(message => formatMessage(message, userId.toString()));
 
     res.json({
       success: true,
@@ -187,15 +213,29 @@ export const getGroupMessages = async (req: Request, res: Response, next: NextFu
       data: {
         messages: formattedMessages,
         pagination: {
-          currentPage: parseInt(page as string),
-          totalCount: result.totalCount,
-          hasMore: result.hasMore
+          ...(page !== undefined ? { currentPage: page, totalCount: result.totalCount } : {}),
+          hasMore: result.hasOlder,
+          hasOlder: result.hasOlder,
+          hasNewer: result.hasNewer,
+          prevCursor: result.prevCursor,
+          nextCursor: result.nextCursor
         }
       }
     });
   } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
     if (error instanceof Error) {
-      if (error.message === 'Group not found') {
+      if (error.message === 'Group not found' || error.message === 'Message not found') {
         res.status(404).json({ message: error.message });
         return;
       }
@@ -209,6 +249,60 @@ export const getGroupMessages = async (req: Request, res: Response, next: NextFu
   }
 };
 
+/**
+ * Get a thread: its root message and replies
+ * GET /api/messages/:messageId/thread
+ */
+export const getThreadMessages = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { messageId } = messageIdSchema.parse(req.params);
+    const { page, limit } = threadQuerySchema.parse(req.query);
+    const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
+
+    const result = await messageService.getThreadMessages(
+      workspaceId,
+      userId,
+      new mongoose.Types.ObjectId(messageId),
+      page,
+      limit
+    );
+
+    res.json({
+      success: true,
+      message: 'Thread retrieved successfully',
+      data: {
+        root: formatMessage(result.root, userId.toString()),
+        replies: result.replies.map(reply => formatMessage(reply, userId.toString())),
+        unreadCount: result.unreadCount,
+        pagination: {
+          currentPage: page,
+          totalCount: result.totalCount,
+          hasMore: result.hasMore
+        }
+      }
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message === 'Message not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+
+    next(error);
+  }
+};
+
 /**
  * Mark messages as read - Enhanced with real-time support
  * PUT /api/messages/read
@@ -230,9 +324,10 @@ export const markMessagesAsRead = async (req: Request, res: Response, next: Next
     }
 
     const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
     const objectIds = validIds.map(id => new mongoose.Types.ObjectId(id));
 
-    await messageService.markMessagesAsRead(userId, objectIds);
+    await messageService.markMessagesAsRead(workspaceId, userId, objectIds);
 
     // Emit real-time read receipt if socket service is available
     if (socketService) {
@@ -268,7 +363,9 @@ export const getUnreadDirectMessageCount = async (req: Request, res: Response, n
     }
 
     const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
     const count = await messageService.getUnreadDirectMessageCount(
+      workspaceId,
       userId,
       new mongoose.Types.ObjectId(otherUserId)
     );
@@ -298,7 +395,9 @@ export const getUnreadGroupMessageCount = async (req: Request, res: Response, ne
     }
 
     const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
     const count = await messageService.getUnreadGroupMessageCount(
+      workspaceId,
       userId,
       new mongoose.Types.ObjectId(groupId)
     );
@@ -313,6 +412,188 @@ export const getUnreadGroupMessageCount = async (req: Request, res: Response, ne
   }
 };
 
+/**
+ * Get unread reply count for a thread
+ * GET /api/messages/unread/thread/:messageId
+ */
+export const getUnreadThreadMessageCount = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { messageId } = messageIdSchema.parse(req.params);
+    const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
+    const root = await messageService.getThreadRoot(workspaceId, new mongoose.Types.ObjectId(messageId), userId);
+    const count = await messageService.getUnreadThreadMessageCount(
+      workspaceId,
+      userId,
+      new mongoose.Types.ObjectId(root._id.toString())
+    );
+
+    res.json({
+      success: true,
+      message: 'Unread count retrieved successfully',
+      data: { unreadCount: count }
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message === 'Message not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+
+    next(error);
+  }
+};
+
+/**
+ * Get the group messages that mention the current user
+ * GET /api/messages/mentions
+ */
+export const getMentions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { page, limit, unread } = mentionsQuerySchema.parse(req.query);
+    const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
+
+    const result = await messageService.getMentions(workspaceId, userId, page, limit, unread);
+
+    const formattedMessages = result.messages.map(message => {
+      const group = message.group as any;
+      return {
+        ...formatMessage(message, userId.toString()),
+        group: {
+          _id: group._id.toString(),
+          name: group.name
+        },
+        isRead: message.readBy.some(reader => reader.toString() === userId.toString())
+      };
+    });
+
+    res.json({
+      success: true,
+      message: 'Mentions retrieved successfully',
+      data: {
+        messages: formattedMessages,
+        pagination: {
+          currentPage: page,
+          totalCount: result.totalCount,
+          hasMore: result.hasMore
+        }
+      }
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    next(error);
+  }
+};
+
+/**
+ * Search messages in the conversations the current user can access
+ * GET /api/messages/search
+ */
+export const searchMessages = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const query = searchMessagesQuerySchema.parse(req.query);
+    const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
+
+    const result = await messageService.searchMessages(workspaceId, userId, {
+      query: query.q,
+      senderId: query.sender ? new mongoose.Types.ObjectId(query.sender) : undefined,
+      withUserId: query.withUser ? new mongoose.Types.ObjectId(query.withUser) : undefined,
+      groupId: query.group ? new mongoose.Types.ObjectId(query.group) : undefined,
+      from: query.from,
+      to: query.to,
+      hasAttachment: query.hasAttachment,
+      mentionsMe: query.mentionsMe,
+      context: query.context,
+      limit: query.limit,
+      cursor: query.cursor
+    });
+
+    const terms = getSearchTerms(query.q);
+    const results = result.hits.map(hit => {
+      const { message } = hit;
+      const group = message.group as any;
+      // The other participant is null once they deleted their account
+      const otherUser = (getParticipantId(message, 'sender').toString() === userId.toString()
+        ? message.receiver
+        : message.sender) as any;
+
+      return {
+        message: formatMessage(message, userId.toString()),
+        conversation: group
+          ? { type: 'group', group: { _id: group._id.toString(), name: group.name } }
+          : {
+              type: 'direct',
+              participant: otherUser
+                ? {
+                    _id: otherUser._id.toString(),
+                    firstName: otherUser.firstName,
+                    lastName: otherUser.lastName,
+                    profilePicture: otherUser.profilePictureUrl
+                  }
+                : null
+            },
+        snippet: buildSnippet(message.content, terms),
+        context: {
+          before: hit.before.map(contextMessage => formatMessage(contextMessage, userId.toString())),
+          after: hit.after.map(contextMessage => formatMessage(contextMessage, userId.toString()))
+        }
+      };
+    });
+
+    res.json({
+      success: true,
+      message: 'Search completed successfully',
+      data: {
+        results,
+        pagination: {
+          nextCursor: result.nextCursor,
+          hasMore: result.nextCursor !== null
+        }
+      }
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message === 'You are not a member of this group') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+
+    next(error);
+  }
+};
+
 /**
  * Get recent conversations
  * GET /api/messages/conversations
@@ -321,8 +602,10 @@ export const getRecentConversations = async (req: Request, res: Response, next:
   try {
     const { limit = '20' } = req.query;
     const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
 
     const conversations = await messageService.getRecentConversations(
+      workspaceId,
       userId,
       parseInt(limit as string)
     );
@@ -346,6 +629,7 @@ export const getRecentConversations = async (req: Request, res: Response, next:
             profilePicture: populatedSender.profilePictureUrl
           },
           timestamp: conv.lastMessage.createdAt.toISOString(),
+          editedAt: conv.lastMessage.editedAt ? conv.lastMessage.editedAt.toISOString() : null,
           isOwn: populatedSender._id.toString() === userId.toString()
         },
         unreadCount: conv.unreadCount
@@ -365,6 +649,206 @@ export const getRecentConversations = async (req: Request, res: Response, next:
   }
 };
 
+/**
+ * Edit a message - Enhanced with real-time support
+ * PATCH /api/messages/:messageId
+ */
+export const editMessage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { messageId } = messageIdSchema.parse(req.params);
+    const { content } = editMessageSchema.parse(req.body);
+    const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
+
+    const message = await messageService.editMessage(
+      workspaceId,
+      new mongoose.Types.ObjectId(messageId),
+      userId,
+      content,
+      socketService?.getOnlineUsers()
+    );
+
+    const formattedMessage = formatMessage(message, userId.toString());
+
+    // Emit real-time edit if socket service is available
+    if (socketService && message.editedAt) {
+      socketService.emitMessageEdited(formattedMessage, message.receiver?.toString(), message.group?.toString());
+    }
+
+    // Users newly mentioned by the edit are notified
+    if (message.editedAt) {
+      const notifications = await messageService.notifyMentions(workspaceId, message);
+      socketService?.emitNotifications(notifications);
+    }
+
+    res.json({
+      success: true,
+      message: 'Message edited successfully',
+      data: { message: formattedMessage }
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Message not found') {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+      if (error.message === 'You can only edit your own messages' ||
+          error.message === 'Message can no longer be edited') {
+        res.status(403).json({ message: error.message });
+        return;
+      }
+    }
+
+    next(error);
+  }
+};
+
+/**
+ * Get the edit history of a message (admins only)
+ * GET /api/messages/:messageId/history
+ */
+export const getMessageHistory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { messageId } = messageIdSchema.parse(req.params);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
+
+    const message = await messageService.getMessageHistory(workspaceId, new mongoose.Types.ObjectId(messageId));
+    if (!message) {
+      res.status(404).json({ message: 'Message not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Message history retrieved successfully',
+      data: {
+        messageId: message._id.toString(),
+        sender: message.sender,
+        content: message.content,
+        createdAt: message.createdAt,
+        editedAt: message.editedAt || null,
+        revisions: message.editHistory || []
+      }
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    next(error);
+  }
+};
+
+/**
+ * Map reaction service errors to HTTP responses
+ * @returns True if a response was sent
+ */
+const handleReactionError = (error: unknown, res: Response): boolean => {
+  if (error instanceof ZodError) {
+    res.status(400).json({
+      message: 'Validation error',
+      errors: error.errors.map(err => ({
+        path: err.path.join('.'),
+        message: err.message
+      }))
+    });
+    return true;
+  }
+
+  if (error instanceof Error) {
+    if (error.message === 'Message not found' || error.message === 'Reaction not found') {
+      res.status(404).json({ message: error.message });
+      return true;
+    }
+    if (error.message === 'Reaction limit reached for this message') {
+      res.status(400).json({ message: error.message });
+      return true;
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Add a reaction to a message - Enhanced with real-time support
+ * POST /api/messages/:messageId/reactions
+ */
+export const addReaction = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { messageId } = messageIdSchema.parse(req.params);
+    const { emoji } = reactionSchema.parse(req.body);
+    const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
+
+    const message = await messageService.addReaction(workspaceId, new mongoose.Types.ObjectId(messageId), userId, emoji);
+
+    if (socketService) {
+      socketService.emitReactionUpdated(message);
+    }
+
+    res.json({
+      success: true,
+      message: 'Reaction added successfully',
+      data: {
+        messageId,
+        reactions: summarizeReactions(message.reactions, userId.toString())
+      }
+    });
+  } catch (error) {
+    if (handleReactionError(error, res)) return;
+    next(error);
+  }
+};
+
+/**
+ * Remove the current user's reaction from a message - Enhanced with real-time support
+ * DELETE /api/messages/:messageId/reactions/:emoji
+ */
+export const removeReaction = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { messageId } = messageIdSchema.parse(req.params);
+    const { emoji } = reactionSchema.parse(req.params);
+    const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
+
+    const message = await messageService.removeReaction(workspaceId, new mongoose.Types.ObjectId(messageId), userId, emoji);
+
+    if (socketService) {
+      socketService.emitReactionUpdated(message);
+    }
+
+    res.json({
+      success: true,
+      message: 'Reaction removed successfully',
+      data: {
+        messageId,
+        reactions: summarizeReactions(message.reactions, userId.toString())
+      }
+    });
+  } catch (error) {
+    if (handleReactionError(error, res)) return;
+    next(error);
+  }
+};
+
 /**
  * Delete a message - Enhanced with real-time support
  * DELETE /api/messages/:messageId
@@ -380,9 +864,10 @@ export const deleteMessage = async (req: Request, res: Response, next: NextFunct
     }
 
     const userId = new mongoose.Types.ObjectId(req.user._id);
+    const workspaceId = new mongoose.Types.ObjectId(req.workspaceId);
     
     // Get message details before deletion for real-time notification
-    const messageToDelete = await messageService.getMessageById(new mongoose.Types.ObjectId(messageId));
+    const messageToDelete = await messageService.getMessageById(workspaceId, new mongoose.Types.ObjectId(messageId));
     
     if (!messageToDelete) {
       res.status(404).json({ message: 'Message not found' });
@@ -395,7 +880,7 @@ export const deleteMessage = async (req: Request, res: Response, next: NextFunct
       return;
     }
 
-    await messageService.deleteMessage(new mongoose.Types.ObjectId(messageId), userId);
+    await messageService.deleteMessage(workspaceId, new mongoose.Types.ObjectId(messageId), userId);
 
     // Emit real-time message deletion if socket service is available
     if (socketService) {
@@ -446,7 +931,11 @@ export const getOnlineUsers = async (req: Request, res: Response, next: NextFunc
       return;
     }
 
-    const onlineUsers = socketService.getOnlineUsers();
+    // Only report people the caller can see in the current workspace
+    const memberIds = new Set(
+      (await workspaceService.getMemberIds(req.workspaceId!)).map(id => id.toString())
+    );
+    const onlineUsers = socketService.getOnlineUsers().filter(id => memberIds.has(id));
     
     res.json({
       success: true,
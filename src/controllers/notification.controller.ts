@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { ZodError } from 'zod';
 import { NotificationRepository } from '../repositories/notification.repository';
+import { workspaceService } from '../services/workspace.service';
 import { 
   getNotificationsQuerySchema, 
   markAsReadSchema, 
@@ -11,6 +12,14 @@ import mongoose from 'mongoose';
 
 const notificationRepository = new NotificationRepository();
 
+/**
+ * Get the notification repository scoped to the workspace of the request
+ * @param req - Authenticated request
+ * @returns Workspace-scoped repository
+ */
+const scopedRepository = (req: Request): NotificationRepository =>
+  notificationRepository.forWorkspace(req.workspaceId!);
+
 /**
  * Get notifications for current user
  * @route GET /notifications
@@ -26,13 +35,13 @@ export const getNotifications = async (req: Request, res: Response, next: NextFu
     const validatedQuery = getNotificationsQuerySchema.parse(req.query);
 
     // Get notifications with pagination
-    const result = await notificationRepository.getNotificationsByUser(
+    const result = await scopedRepository(req).getNotificationsByUser(
       req.user._id,
       validatedQuery
     );
 
     // Get notification statistics
-    const stats = await notificationRepository.getNotificationStats(req.user._id);
+    const stats = await scopedRepository(req).getNotificationStats(req.user._id);
 
     res.json({
       success: true,
@@ -70,7 +79,7 @@ export const getNotificationStats = async (req: Request, res: Response, next: Ne
       return;
     }
 
-    const stats = await notificationRepository.getNotificationStats(req.user._id);
+    const stats = await scopedRepository(req).getNotificationStats(req.user._id);
 
     res.json({
       success: true,
@@ -93,7 +102,7 @@ export const getUnreadCount = async (req: Request, res: Response, next: NextFunc
       return;
     }
 
-    const count = await notificationRepository.getUnreadCount(req.user._id);
+    const count = await scopedRepository(req).getUnreadCount(req.user._id);
 
     res.json({
       success: true,
@@ -123,15 +132,15 @@ export const markAsRead = async (req: Request, res: Response, next: NextFunction
 
     if (validatedData.markAll) {
       // Mark all notifications as read
-      result = await notificationRepository.markAllAsRead(req.user._id, validatedData.type);
+      result = await scopedRepository(req).markAllAsRead(req.user._id, validatedData.type);
     } else if (validatedData.type) {
       // Mark all notifications of specific type as read
-      result = await notificationRepository.markAllAsRead(req.user._id, validatedData.type);
+      result = await scopedRepository(req).markAllAsRead(req.user._id, validatedData.type);
     } else if (validatedData.notificationIds) {
       // Mark specific notifications as read
       let modifiedCount = 0;
       for (const notificationId of validatedData.notificationIds) {
-        const notification = await notificationRepository.markAsRead(
+        const notification = await scopedRepository(req).markAsRead(
           new mongoose.Types.ObjectId(notificationId),
           req.user._id
         );
@@ -177,12 +186,12 @@ export const markAllAsRead = async (req: Request, res: Response, next: NextFunct
     const notificationType = type as string | undefined;
 
     // Validate type if provided
-    if (notificationType && !['friend_request', 'friend_accepted', 'friend_rejected', 'message', 'group_invite', 'system'].includes(notificationType)) {
+    if (notificationType && !['friend_request', 'friend_accepted', 'friend_rejected', 'message', 'mention', 'group_invite', 'system'].includes(notificationType)) {
       res.status(400).json({ message: 'Invalid notification type' });
       return;
     }
 
-    const result = await notificationRepository.markAllAsRead(req.user._id, notificationType);
+    const result = await scopedRepository(req).markAllAsRead(req.user._id, notificationType);
 
     res.json({
       success: true,
@@ -213,15 +222,15 @@ export const deleteNotifications = async (req: Request, res: Response, next: Nex
 
     if (validatedData.deleteAll) {
       // Delete all notifications
-      result = await notificationRepository.deleteAllNotifications(req.user._id, validatedData.type);
+      result = await scopedRepository(req).deleteAllNotifications(req.user._id, validatedData.type);
     } else if (validatedData.type) {
       // Delete all notifications of specific type
-      result = await notificationRepository.deleteAllNotifications(req.user._id, validatedData.type);
+      result = await scopedRepository(req).deleteAllNotifications(req.user._id, validatedData.type);
     } else if (validatedData.notificationIds) {
       // Delete specific notifications
       let deletedCount = 0;
       for (const notificationId of validatedData.notificationIds) {
-        const deleted = await notificationRepository.deleteNotification(
+        const deleted = await scopedRepository(req).deleteNotification(
           new mongoose.Types.ObjectId(notificationId),
           req.user._id
         );
@@ -271,7 +280,7 @@ export const getNotificationById = async (req: Request, res: Response, next: Nex
       return;
     }
 
-    const notification = await notificationRepository.findOne({
+    const notification = await scopedRepository(req).findOne({
       _id: new mongoose.Types.ObjectId(id),
       recipient: req.user._id
     });
@@ -305,7 +314,13 @@ export const createNotification = async (req: Request, res: Response, next: Next
     // Validate request body
     const validatedData = createNotificationSchema.parse(req.body);
 
-    const notification = await notificationRepository.create({
+    // Notifications can only target people in the same workspace
+    if (!(await workspaceService.isMember(req.workspaceId!, validatedData.recipientId))) {
+      res.status(404).json({ message: 'Recipient not found' });
+      return;
+    }
+
+    const notification = await scopedRepository(req).create({
       recipient: new mongoose.Types.ObjectId(validatedData.recipientId),
       sender: req.user._id,
       type: validatedData.type,
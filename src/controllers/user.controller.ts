@@ -1,10 +1,32 @@
 import { Request, Response, NextFunction } from 'express';
 import { ZodError } from 'zod';
+import mongoose from 'mongoose';
 import { UserRepository } from '../repositories/user.repository';
 import { IUser } from '../models/user.model';
-import { updateUserProfileSchema, changePasswordSchema, getUsersQuerySchema } from '../validations/user.validation';
-import { deleteFile, generateFileUrl } from '../utils/fileUpload.util';
+import {
+  updateUserProfileSchema,
+  changePasswordSchema,
+  getUsersQuerySchema,
+  twoFactorCodeSchema,
+  disableTwoFactorSchema,
+  userIdParamSchema,
+  updateUserRoleSchema,
+  createApiKeySchema,
+  apiKeyIdParamSchema,
+  blockUserSchema,
+  blockedUserIdParamSchema
+} from '../validations/user.validation';
+import { discardUploadedFile, generateFileUrl } from '../utils/fileUpload.util';
+import { processUploadedImage } from '../utils/imageProcessing.util';
 import bcrypt from 'bcrypt';
+import { emailVerificationService } from '../services/emailVerification.service';
+import { twoFactorService } from '../services/twoFactor.service';
+import { workspaceService } from '../services/workspace.service';
+import { apiKeyService } from '../services/apiKey.service';
+import { IApiKey } from '../models/apiKey.model';
+import { blockService } from '../services/block.service';
+import { fileService } from '../services/file.service';
+import { IFile } from '../models/file.model';
 
 const userRepository = new UserRepository();
 
@@ -24,6 +46,9 @@ export const getCurrentUser = async (req: Request, res: Response, next: NextFunc
       firstName: req.user.firstName,
       lastName: req.user.lastName,
       email: req.user.email,
+      role: req.user.role,
+      emailVerified: req.user.emailVerified,
+      twoFactorEnabled: !!req.user.twoFactor?.enabled,
       profilePicture: req.user.profilePicture,
       createdAt: req.user.createdAt,
       updatedAt: req.user.updatedAt,
@@ -44,7 +69,8 @@ export const getUserById = async (req: Request, res: Response, next: NextFunctio
     
     const user = await userRepository.findById(id) as IUser | null;
     
-    if (!user) {
+    // People outside the current workspace are not visible
+    if (!user || !(await workspaceService.isMember(req.workspaceId!, user._id.toString()))) {
       res.status(404).json({ message: 'User not found' });
       return;
     }
@@ -55,6 +81,7 @@ export const getUserById = async (req: Request, res: Response, next: NextFunctio
       firstName: user.firstName,
       lastName: user.lastName,
       email: user.email,
+      role: user.role,
       profilePicture: user.profilePicture,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
@@ -78,10 +105,14 @@ export const getUsers = async (req: Request, res: Response, next: NextFunction):
     // Calculate skip value for pagination
     const skip = (page - 1) * limit;
     
+    // Only list members of the current workspace
+    const memberIds = await workspaceService.getMemberIds(req.workspaceId!);
+    
     // Build search filter
-    let filter: any = {};
+    let filter: any = { _id: { $in: memberIds } };
     if (search) {
       filter = {
+        ...filter,
         $or: [
           { firstName: { $regex: search, $options: 'i' } },
           { lastName: { $regex: search, $options: 'i' } },
@@ -91,7 +122,7 @@ export const getUsers = async (req: Request, res: Response, next: NextFunction):
     }
     
     // Get users with pagination
-    const users = await userRepository.find(filter, '-password', {
+    const users = await userRepository.find(filter, '-password -twoFactor', {
       skip,
       limit,
       sort: { createdAt: -1 } // Sort by newest first
@@ -147,22 +178,30 @@ export const updateCurrentUser = async (req: Request, res: Response, next: NextF
     const validatedData = updateUserProfileSchema.parse(req.body);
     
     // Check if email is being updated and if it's already in use
-    if (validatedData.email && validatedData.email !== req.user.email) {
-      const existingUser = await userRepository.findByEmail(validatedData.email);
+    const isEmailChanged = !!validatedData.email && validatedData.email !== req.user.email;
+    if (isEmailChanged) {
+      const existingUser = await userRepository.findByEmail(validatedData.email!);
       if (existingUser) {
         res.status(400).json({ message: 'Email already in use' });
         return;
       }
     }
     
-    // Update user profile
-    const updatedUser = await userRepository.updateProfile(req.user._id, validatedData) as IUser;
+    // Update user profile (a new email address has to be verified again)
+    const updatedUser = await userRepository.updateProfile(
+      req.user._id,
+      isEmailChanged ? { ...validatedData, emailVerified: false } : validatedData
+    ) as IUser;
     
     if (!updatedUser) {
       res.status(404).json({ message: 'User not found' });
       return;
     }
     
+    if (isEmailChanged) {
+      await emailVerificationService.sendVerification(updatedUser);
+    }
+    
     // Return updated user data (excluding password)
     res.json({
       message: 'Profile updated successfully',
@@ -171,6 +210,8 @@ export const updateCurrentUser = async (req: Request, res: Response, next: NextF
         firstName: updatedUser.firstName,
         lastName: updatedUser.lastName,
         email: updatedUser.email,
+        role: updatedUser.role,
+        emailVerified: updatedUser.emailVerified,
         profilePicture: updatedUser.profilePicture,
         createdAt: updatedUser.createdAt,
         updatedAt: updatedUser.updatedAt,
@@ -266,6 +307,11 @@ export const deleteCurrentUser = async (req: Request, res: Response, next: NextF
       res.status(404).json({ message: 'User not found' });
       return;
     }
+
+    // Free the storage of the profile picture
+    if (req.user.profilePictureMetadata?.filename) {
+      await fileService.releaseFile(req.user.profilePictureMetadata.filename);
+    }
     
     res.json({ 
       message: 'Account deleted successfully' 
@@ -293,20 +339,44 @@ export const uploadProfilePicture = async (req: Request, res: Response, next: Ne
     }
 
     const file = req.file;
-    const baseUrl = `${req.protocol}://${req.get('host')}`;
-    const profilePictureUrl = generateFileUrl(file.filename, baseUrl);
 
-    // Delete old profile picture if exists
-    if (req.user.profilePictureMetadata?.filename) {
-      await deleteFile(req.user.profilePictureMetadata.filename);
+    // Strip EXIF/GPS metadata and generate the resized variants
+    let variants: string[];
+    try {
+      ({ variants } = await processUploadedImage(file.path));
+    } catch (error) {
+      await discardUploadedFile(file);
+      res.status(400).json({ message: 'Invalid image file' });
+      return;
     }
 
+    // A picture identical to one already stored by the user reuses that file
+    let storedFile: IFile;
+    try {
+      storedFile = await fileService.storeUploadedFile(new mongoose.Types.ObjectId(req.user._id), undefined, file, variants);
+    } catch (error) {
+      await discardUploadedFile(file);
+      if (error instanceof Error && error.message.startsWith('Storage quota exceeded')) {
+        res.status(413).json({ message: error.message });
+        return;
+      }
+      if (error instanceof Error && error.message === 'File content does not match its type') {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const profilePictureUrl = generateFileUrl(storedFile.filename, baseUrl);
+    const previousFilename = req.user.profilePictureMetadata?.filename;
+
     // Prepare profile picture metadata
     const profilePictureMetadata = {
-      filename: file.filename,
+      filename: storedFile.filename,
       originalName: file.originalname,
-      size: file.size,
-      mimeType: file.mimetype,
+      size: storedFile.size,
+      mimeType: storedFile.mimeType,
       uploadedAt: new Date()
     };
 
@@ -318,26 +388,31 @@ export const uploadProfilePicture = async (req: Request, res: Response, next: Ne
 
     if (!updatedUser) {
       // Clean up uploaded file if user update fails
-      await deleteFile(file.filename);
+      await fileService.releaseFile(storedFile.filename);
       res.status(404).json({ message: 'User not found' });
       return;
     }
 
+    // Release the old profile picture once the new one is in place
+    if (previousFilename) {
+      await fileService.releaseFile(previousFilename);
+    }
+
     res.json({
       message: 'Profile picture uploaded successfully',
       profilePicture: profilePictureUrl,
       metadata: {
-        filename: file.filename,
+        filename: storedFile.filename,
         originalName: file.originalname,
-        size: file.size,
-        mimeType: file.mimetype,
+        size: storedFile.size,
+        mimeType: storedFile.mimeType,
         uploadedAt: profilePictureMetadata.uploadedAt
       }
     });
   } catch (error) {
     // Clean up uploaded file if there's an error
     if (req.file) {
-      await deleteFile(req.file.filename);
+      await discardUploadedFile(req.file);
     }
     
     console.error('Upload profile picture error:', error);
@@ -362,7 +437,7 @@ export const deleteProfilePicture = async (req: Request, res: Response, next: Ne
     }
 
     // Delete the file from storage
-    const fileDeleted = await deleteFile(req.user.profilePictureMetadata.filename);
+    const fileDeleted = await fileService.releaseFile(req.user.profilePictureMetadata.filename);
     
     // Update user to remove profile picture data
     const updatedUser = await userRepository.updateProfile(req.user._id, {
@@ -384,3 +459,466 @@ export const deleteProfilePicture = async (req: Request, res: Response, next: Ne
     res.status(500).json({ message: 'Server error while deleting profile picture' });
   }
 };
+
+/**
+ * Map two-factor service errors to HTTP responses
+ * @returns True if the error was handled
+ */
+const handleTwoFactorError = (error: unknown, res: Response): boolean => {
+  if (error instanceof ZodError) {
+    res.status(400).json({ 
+      message: 'Validation error', 
+      errors: error.errors.map(err => ({
+        path: err.path.join('.'),
+        message: err.message
+      }))
+    });
+    return true;
+  }
+  
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'Two-factor authentication is already enabled':
+      case 'Two-factor authentication is not enabled':
+      case 'Two-factor setup has not been started':
+      case 'Invalid two-factor code':
+      case 'Password is incorrect':
+        res.status(400).json({ message: error.message });
+        return true;
+      case 'User not found':
+        res.status(404).json({ message: error.message });
+        return true;
+    }
+  }
+  
+  return false;
+};
+
+/**
+ * Get two-factor authentication status
+ * @route GET /users/me/2fa
+ */
+export const getTwoFactorStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    const status = await twoFactorService.getStatus(req.user._id);
+    
+    res.json(status);
+  } catch (error) {
+    if (handleTwoFactorError(error, res)) return;
+    
+    console.error('Get two-factor status error:', error);
+    res.status(500).json({ message: 'Server error while fetching two-factor status' });
+  }
+};
+
+/**
+ * Start two-factor enrolment and return the provisioning URI
+ * @route POST /users/me/2fa/setup
+ */
+export const setupTwoFactor = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    const setup = await twoFactorService.beginSetup(req.user._id);
+    
+    res.json({
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      secret: setup.secret,
+      otpauthUrl: setup.otpauthUrl
+    });
+  } catch (error) {
+    if (handleTwoFactorError(error, res)) return;
+    
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({ message: 'Server error while setting up two-factor authentication' });
+  }
+};
+
+/**
+ * Confirm two-factor enrolment with an authenticator code
+ * @route POST /users/me/2fa/confirm
+ */
+export const confirmTwoFactor = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    
+    const recoveryCodes = await twoFactorService.confirmSetup(req.user._id, code);
+    
+    res.json({
+      message: 'Two-factor authentication enabled. Store these recovery codes somewhere safe, they will not be shown again',
+      recoveryCodes
+    });
+  } catch (error) {
+    if (handleTwoFactorError(error, res)) return;
+    
+    console.error('Two-factor confirm error:', error);
+    res.status(500).json({ message: 'Server error while enabling two-factor authentication' });
+  }
+};
+
+/**
+ * Disable two-factor authentication
+ * @route POST /users/me/2fa/disable
+ */
+export const disableTwoFactor = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    const { password, code } = disableTwoFactorSchema.parse(req.body);
+    
+    await twoFactorService.disable(req.user._id, password, code);
+    
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    if (handleTwoFactorError(error, res)) return;
+    
+    console.error('Two-factor disable error:', error);
+    res.status(500).json({ message: 'Server error while disabling two-factor authentication' });
+  }
+};
+
+/**
+ * Regenerate recovery codes (invalidates the previous ones)
+ * @route POST /users/me/2fa/recovery-codes
+ */
+export const regenerateRecoveryCodes = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user._id, code);
+    
+    res.json({
+      message: 'Recovery codes regenerated. Previous codes no longer work',
+      recoveryCodes
+    });
+  } catch (error) {
+    if (handleTwoFactorError(error, res)) return;
+    
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({ message: 'Server error while regenerating recovery codes' });
+  }
+};
+
+/**
+ * Change the global role of a user
+ * Only owners can grant or take away the owner role, and nobody can change their own role
+ * @route PUT /users/:id/role
+ */
+export const updateUserRole = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    const { id } = userIdParamSchema.parse(req.params);
+    const { role } = updateUserRoleSchema.parse(req.body);
+    
+    if (id === req.user._id.toString()) {
+      res.status(400).json({ message: 'You cannot change your own role' });
+      return;
+    }
+    
+    const user = await userRepository.findById(id) as IUser | null;
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+    
+    if ((user.role === 'owner' || role === 'owner') && req.user.role !== 'owner') {
+      res.status(403).json({ message: 'Only owners can grant or revoke the owner role' });
+      return;
+    }
+    
+    const updatedUser = await userRepository.updateById(id, { role }) as IUser | null;
+    if (!updatedUser) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+    
+    res.json({
+      message: 'User role updated successfully',
+      user: {
+        _id: updatedUser._id,
+        firstName: updatedUser.firstName,
+        lastName: updatedUser.lastName,
+        email: updatedUser.email,
+        role: updatedUser.role,
+      }
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+    
+    console.error('Update user role error:', error);
+    res.status(500).json({ message: 'Server error while updating user role' });
+  }
+};
+
+/**
+ * Shape an API key for responses (the hash is never returned)
+ * @param apiKey - API key document
+ */
+const formatApiKey = (apiKey: IApiKey) => ({
+  _id: apiKey._id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  workspace: apiKey.workspace,
+  lastUsedAt: apiKey.lastUsedAt,
+  lastUsedIp: apiKey.lastUsedIp,
+  expiresAt: apiKey.expiresAt,
+  createdAt: apiKey.createdAt,
+});
+
+/**
+ * List personal API keys of the current user
+ * @route GET /users/me/api-keys
+ */
+export const getApiKeys = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    const apiKeys = await apiKeyService.listKeys(req.user._id);
+    
+    res.json({
+      apiKeys: apiKeys.map(formatApiKey),
+      count: apiKeys.length,
+    });
+  } catch (error) {
+    console.error('Get API keys error:', error);
+    res.status(500).json({ message: 'Server error while fetching API keys' });
+  }
+};
+
+/**
+ * Create a personal API key in the current workspace
+ * The raw key is only returned in this response
+ * @route POST /users/me/api-keys
+ */
+export const createApiKey = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    const { name, scopes, expiresInDays } = createApiKeySchema.parse(req.body);
+    
+    const { apiKey, key } = await apiKeyService.createKey(
+      req.user._id.toString(),
+      req.workspaceId!,
+      name,
+      scopes,
+      expiresInDays
+    );
+    
+    res.status(201).json({
+      message: 'API key created. Copy it now, it will not be shown again',
+      key,
+      apiKey: formatApiKey(apiKey),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+    
+    if (error instanceof Error && error.message === 'API key limit reached') {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    
+    console.error('Create API key error:', error);
+    res.status(500).json({ message: 'Server error while creating API key' });
+  }
+};
+
+/**
+ * Revoke a personal API key
+ * @route DELETE /users/me/api-keys/:keyId
+ */
+export const revokeApiKey = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    const { keyId } = apiKeyIdParamSchema.parse(req.params);
+    
+    const revoked = await apiKeyService.revokeKey(req.user._id, keyId);
+    if (!revoked) {
+      res.status(404).json({ message: 'API key not found' });
+      return;
+    }
+    
+    res.json({ message: 'API key revoked successfully' });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+    
+    console.error('Revoke API key error:', error);
+    res.status(500).json({ message: 'Server error while revoking API key' });
+  }
+};
+
+/**
+ * List the users blocked by the current user
+ * @route GET /users/me/blocks
+ */
+export const getBlockedUsers = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    const blocks = await blockService.listBlocks(req.user._id.toString());
+    
+    res.json({
+      blocks: blocks.map(block => ({
+        user: block.blocked,
+        blockedAt: block.createdAt
+      })),
+      count: blocks.length,
+    });
+  } catch (error) {
+    console.error('Get blocked users error:', error);
+    res.status(500).json({ message: 'Server error while fetching blocked users' });
+  }
+};
+
+/**
+ * Block a user of the current workspace
+ * Pending friend requests between the two users are cancelled
+ * @route POST /users/me/blocks
+ */
+export const blockUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    const { userId } = blockUserSchema.parse(req.body);
+    
+    const block = await blockService.blockUser(req.workspaceId!, req.user._id.toString(), userId);
+    
+    res.status(201).json({
+      message: 'User blocked successfully',
+      block: {
+        user: block.blocked,
+        blockedAt: block.createdAt
+      }
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+    
+    if (error instanceof Error) {
+      if (error.message === 'User not found') {
+        res.status(404).json({ message: error.message });
+        return;
+      }
+      if (error.message === 'You cannot block yourself' || error.message === 'User is already blocked') {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+    }
+    
+    console.error('Block user error:', error);
+    res.status(500).json({ message: 'Server error while blocking user' });
+  }
+};
+
+/**
+ * Unblock a user
+ * @route DELETE /users/me/blocks/:userId
+ */
+export const unblockUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+    
+    const { userId } = blockedUserIdParamSchema.parse(req.params);
+    
+    const unblocked = await blockService.unblockUser(req.user._id.toString(), userId);
+    if (!unblocked) {
+      res.status(404).json({ message: 'User is not blocked' });
+      return;
+    }
+    
+    res.json({ message: 'User unblocked successfully' });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+    
+    console.error('Unblock user error:', error);
+    res.status(500).json({ message: 'Server error while unblocking user' });
+  }
+};
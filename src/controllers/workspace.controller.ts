@@ -0,0 +1,249 @@
+import { Request, Response, NextFunction } from 'express';
+import { ZodError } from 'zod';
+import { IWorkspace } from '../models/workspace.model';
+import { workspaceService } from '../services/workspace.service';
+import { sessionService } from '../services/session.service';
+import {
+  createWorkspaceSchema,
+  updateWorkspaceSchema,
+  addWorkspaceMemberSchema,
+  workspaceIdParamSchema,
+  workspaceMemberParamsSchema
+} from '../validations/workspace.validation';
+
+/**
+ * Shape a workspace for API responses
+ * @param workspace - Workspace document
+ * @param userId - Current user, used to report their workspace role
+ */
+const formatWorkspace = (workspace: IWorkspace, userId: string) => ({
+  _id: workspace._id,
+  name: workspace.name,
+  slug: workspace.slug,
+  allowedDomains: workspace.allowedDomains,
+  isPersonal: workspace.isPersonal,
+  memberCount: workspace.members.length,
+  role: workspace.members.find(member => member.user.toString() === userId)?.role,
+  createdAt: workspace.createdAt
+});
+
+/**
+ * Map workspace service errors to HTTP responses
+ * @returns True if a response was sent
+ */
+const handleWorkspaceError = (error: unknown, res: Response): boolean => {
+  if (error instanceof ZodError) {
+    res.status(400).json({
+      message: 'Validation error',
+      errors: error.errors.map(err => ({
+        path: err.path.join('.'),
+        message: err.message
+      }))
+    });
+    return true;
+  }
+
+  if (error instanceof Error) {
+    if (error.message === 'Workspace not found' || error.message === 'User not found') {
+      res.status(404).json({ message: error.message });
+      return true;
+    }
+    if (error.message.startsWith('Only workspace admins') ||
+        error.message === 'You can only allow the domain of your own verified email address') {
+      res.status(403).json({ message: error.message });
+      return true;
+    }
+    if (error.message === 'User is already a member of this workspace' ||
+        error.message === 'User is not a member of this workspace' ||
+        error.message === 'A workspace must keep at least one admin') {
+      res.status(400).json({ message: error.message });
+      return true;
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Create a new workspace with the current user as admin
+ * POST /api/workspaces
+ */
+export const createWorkspace = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { name, allowedDomains } = createWorkspaceSchema.parse(req.body);
+    const userId = req.user._id.toString();
+
+    const workspace = await workspaceService.createWorkspace(userId, name, allowedDomains);
+
+    res.status(201).json({
+      success: true,
+      message: 'Workspace created successfully',
+      data: { workspace: formatWorkspace(workspace, userId) }
+    });
+  } catch (error) {
+    if (handleWorkspaceError(error, res)) return;
+    next(error);
+  }
+};
+
+/**
+ * Get all workspaces of the current user
+ * GET /api/workspaces
+ */
+export const getUserWorkspaces = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user._id.toString();
+    const workspaces = await workspaceService.getUserWorkspaces(userId);
+
+    res.json({
+      success: true,
+      message: 'Workspaces retrieved successfully',
+      data: {
+        workspaces: workspaces.map(workspace => ({
+          ...formatWorkspace(workspace, userId),
+          current: workspace._id.toString() === req.workspaceId
+        })),
+        currentWorkspaceId: req.workspaceId,
+        count: workspaces.length
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the workspace of the current session with its members
+ * GET /api/workspaces/current
+ */
+export const getCurrentWorkspace = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user._id.toString();
+    const workspace = await workspaceService.getWorkspaceForMember(req.workspaceId!, userId);
+    await workspace.populate('members.user', 'firstName lastName email profilePictureUrl');
+
+    res.json({
+      success: true,
+      message: 'Workspace retrieved successfully',
+      data: {
+        workspace: {
+          ...formatWorkspace(workspace, userId),
+          role: workspace.members.find(member => (member.user as any)._id.toString() === userId)?.role,
+          members: workspace.members.map(member => ({
+            user: member.user,
+            role: member.role,
+            joinedAt: member.joinedAt
+          }))
+        }
+      }
+    });
+  } catch (error) {
+    if (handleWorkspaceError(error, res)) return;
+    next(error);
+  }
+};
+
+/**
+ * Switch the current session to another workspace
+ * Issues a new token pair scoped to the target workspace
+ * POST /api/workspaces/:id/switch
+ */
+export const switchWorkspace = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = workspaceIdParamSchema.parse(req.params);
+    const userId = req.user._id.toString();
+
+    const workspace = await workspaceService.getWorkspaceForMember(id, userId);
+    const tokens = await sessionService.switchWorkspace(req.sessionId!, userId, workspace._id);
+    await workspaceService.setDefaultWorkspace(userId, workspace._id);
+
+    res.json({
+      success: true,
+      message: 'Workspace switched successfully',
+      data: {
+        workspace: formatWorkspace(workspace, userId),
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresIn: tokens.accessTokenExpiresIn,
+        refreshTokenExpiresAt: tokens.refreshTokenExpiresAt,
+        sessionId: tokens.session._id,
+        workspaceId: workspace._id
+      }
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Session not found') {
+      res.status(401).json({ message: 'Not authorized, session revoked' });
+      return;
+    }
+    if (handleWorkspaceError(error, res)) return;
+    next(error);
+  }
+};
+
+/**
+ * Update workspace name or allowed email domains (workspace admins only)
+ * PUT /api/workspaces/:id
+ */
+export const updateWorkspace = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = workspaceIdParamSchema.parse(req.params);
+    const updates = updateWorkspaceSchema.parse(req.body);
+    const userId = req.user._id.toString();
+
+    const workspace = await workspaceService.updateWorkspace(id, userId, updates);
+
+    res.json({
+      success: true,
+      message: 'Workspace updated successfully',
+      data: { workspace: formatWorkspace(workspace, userId) }
+    });
+  } catch (error) {
+    if (handleWorkspaceError(error, res)) return;
+    next(error);
+  }
+};
+
+/**
+ * Add an existing user to a workspace by email (workspace admins only)
+ * POST /api/workspaces/:id/members
+ */
+export const addWorkspaceMember = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = workspaceIdParamSchema.parse(req.params);
+    const { email, role } = addWorkspaceMemberSchema.parse(req.body);
+    const userId = req.user._id.toString();
+
+    const workspace = await workspaceService.addMemberByEmail(id, userId, email, role);
+
+    res.status(201).json({
+      success: true,
+      message: 'Member added successfully',
+      data: { workspace: formatWorkspace(workspace, userId) }
+    });
+  } catch (error) {
+    if (handleWorkspaceError(error, res)) return;
+    next(error);
+  }
+};
+
+/**
+ * Remove a member from a workspace (admins, or members leaving themselves)
+ * DELETE /api/workspaces/:id/members/:userId
+ */
+export const removeWorkspaceMember = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id, userId: memberId } = workspaceMemberParamsSchema.parse(req.params);
+    const userId = req.user._id.toString();
+
+    const workspace = await workspaceService.removeMember(id, userId, memberId);
+
+    res.json({
+      success: true,
+      message: userId === memberId ? 'You left the workspace' : 'Member removed successfully',
+      data: { workspace: formatWorkspace(workspace, userId) }
+    });
+  } catch (error) {
+    if (handleWorkspaceError(error, res)) return;
+    next(error);
+  }
+};
@@ -1,22 +1,28 @@
 import express, { Request, Response } from 'express';
 import http from 'http';
 import cors from 'cors';
-import fs from 'fs';
 import path from 'path';
 import dotenv from 'dotenv';
 import connectDB from './config/database';
 import SocketService from './services/socket.service';
+import { getStorage } from './services/storage.service';
+import { uploadService } from './services/upload.service';
+import { fileGcService } from './services/fileGc.service';
 import { requestLogger, errorLogger, securityLogger } from './middlewares/logger.middleware';
 import { setSocketService } from './controllers/message.controller';
+import { setSocketService as setAuthSocketService } from './controllers/auth.controller';
 // import errorHandler from './middlewares/error.middleware';
 
 // Routes
 import authRoutes from './routes/auth.routes';
 import userRoutes from './routes/user.routes';
 import fileRoutes from './routes/file.routes';
+import fileApiRoutes from './routes/fileApi.routes';
 import notificationRoutes from './routes/notification.routes';
 import friendRequestRoutes from './routes/friendRequest.routes';
+import friendRoutes from './routes/friend.routes';
 import groupRoutes from './routes/group.routes';
+import workspaceRoutes from './routes/workspace.routes';
 import messageRoutes from './routes/message.routes';
 import mockRoutes from './routes/mock.routes';
 
@@ -33,8 +39,9 @@ const server = http.createServer(app);
 // Initialize Socket.io service
 const socketService = new SocketService(server);
 
-// Inject socket service into message controller
+// Inject socket service into message and auth controllers
 setSocketService(socketService);
+setAuthSocketService(socketService);
 
 // Logging middleware (should be first)
 app.use(requestLogger);
@@ -47,12 +54,12 @@ app.use(cors());
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Ensure files directory exists
-const filesDir = path.join(process.cwd(), 'files');
-if (!fs.existsSync(filesDir)) {
-  fs.mkdirSync(filesDir, { recursive: true });
-  console.log(`📁 Created files directory: ${filesDir}`);
-}
+// Set up file storage early so a bad storage configuration fails at startup
+console.log(`📁 File storage: ${getStorage().name}`);
+
+// Remove resumable uploads that were abandoned, and files nothing references
+uploadService.startExpiryTimer();
+fileGcService.startSweepTimer();
 
 // Serve static files from public directory
 app.use(express.static(path.join(__dirname, '../public')));
@@ -67,7 +74,10 @@ app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/notifications', notificationRoutes);
 app.use('/api/friend-requests', friendRequestRoutes);
+app.use('/api/friends', friendRoutes);
 app.use('/files', fileRoutes);
+app.use('/api/files', fileApiRoutes);
+app.use('/api/workspaces', workspaceRoutes);
 app.use('/api/groups', groupRoutes);
 app.use('/api/messages', messageRoutes);
 app.use('/api/mock', mockRoutes);
@@ -1,40 +1,109 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import User from '../models/user.model';
+import { sessionService } from '../services/session.service';
+import { isEmailVerificationRequired } from '../services/emailVerification.service';
+import { workspaceService } from '../services/workspace.service';
+import { apiKeyService, isApiKey } from '../services/apiKey.service';
+import { Permission, hasPermission } from '../config/roles';
+import { ApiKeyScope } from '../config/apiKeyScopes';
+import { IApiKey } from '../models/apiKey.model';
 
 // Extend Express Request interface to include user property
 declare global {
   namespace Express {
     interface Request {
       user?: any;
+      sessionId?: string;
+      workspaceId?: string;
+      apiKey?: IApiKey;
     }
   }
 }
 
-interface JwtPayload {
-  id: string;
-}
+/**
+ * Authenticate a request made with a personal API key
+ */
+const authenticateApiKey = async (key: string, req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const apiKey = await apiKeyService.authenticate(key, req.ip || req.socket?.remoteAddress || '');
+    if (!apiKey) {
+      res.status(401).json({ message: 'Not authorized, invalid API key' });
+      return;
+    }
+
+    req.user = await User.findById(apiKey.user).select('-password');
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized, user not found' });
+      return;
+    }
+
+    if (!(await workspaceService.isMember(apiKey.workspace, apiKey.user))) {
+      res.status(403).json({ message: 'Not authorized, not a member of this workspace' });
+      return;
+    }
+
+    req.apiKey = apiKey;
+    req.workspaceId = apiKey.workspace.toString();
+
+    next();
+  } catch (error) {
+    console.error('API key authentication error:', error);
+    res.status(401).json({ message: 'Not authorized, API key failed' });
+  }
+};
 
+/**
+ * Authenticate with a Bearer access token or a personal API key
+ * API keys are accepted as a Bearer token or in the X-API-Key header
+ */
 const protect = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   let token;
 
+  const apiKeyHeader = req.headers['x-api-key'];
+  if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+    await authenticateApiKey(apiKeyHeader, req, res, next);
+    return;
+  }
+
   // Check if token exists in headers
   if (
     req.headers.authorization &&
     req.headers.authorization.startsWith('Bearer')
   ) {
-    try {
-      // Get token from header
-      token = req.headers.authorization.split(' ')[1];
+    // Get token from header
+    token = req.headers.authorization.split(' ')[1];
 
+    if (token && isApiKey(token)) {
+      await authenticateApiKey(token, req, res, next);
+      return;
+    }
+
+    try {
       // Verify token
-      const decoded = jwt.verify(
-        token,
-        process.env.JWT_SECRET || 'fallback_secret'
-      ) as JwtPayload;
+      const decoded = sessionService.verifyAccessToken(token);
+
+      // Reject tokens whose session was revoked or has expired
+      const session = await sessionService.getActiveSession(decoded.sid, decoded.id);
+      if (!session) {
+        res.status(401).json({ message: 'Not authorized, session revoked' });
+        return;
+      }
 
       // Get user from the token
       req.user = await User.findById(decoded.id).select('-password');
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authorized, user not found' });
+        return;
+      }
+
+      // Removed members keep a valid token until it expires, so check membership on every request
+      if (!(await workspaceService.isMember(decoded.wid, decoded.id))) {
+        res.status(403).json({ message: 'Not authorized, not a member of this workspace' });
+        return;
+      }
+
+      req.sessionId = decoded.sid;
+      req.workspaceId = decoded.wid;
 
       // If we got here, authentication was successful
       next();
@@ -51,4 +120,86 @@ const protect = async (req: Request, res: Response, next: NextFunction): Promise
   return;
 };
 
-export { protect };
\ No newline at end of file
+/**
+ * Authenticate like protect when credentials are sent, otherwise continue without a user
+ * For routes that are public but show more to authenticated users
+ */
+const optionalProtect = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (req.headers['x-api-key'] || req.headers.authorization) {
+    await protect(req, res, next);
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Block unverified accounts when REQUIRE_EMAIL_VERIFICATION is enabled
+ * Must be used after protect
+ */
+const requireVerifiedEmail = (req: Request, res: Response, next: NextFunction): void => {
+  if (isEmailVerificationRequired() && !req.user?.emailVerified) {
+    res.status(403).json({ message: 'Please verify your email address to use this feature' });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Require the authenticated user's role to grant every listed permission
+ * Must be used after protect
+ */
+const authorize = (...permissions: Permission[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+
+    const isAllowed = permissions.every(permission => hasPermission(req.user.role, permission));
+    if (!isAllowed) {
+      res.status(403).json({ message: 'You do not have permission to perform this action' });
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Require API keys to carry every listed scope
+ * Session logins are not limited by scopes
+ * Must be used after protect
+ */
+const requireScope = (...scopes: ApiKeyScope[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.apiKey) {
+      next();
+      return;
+    }
+
+    const missing = scopes.filter(scope => !req.apiKey!.scopes.includes(scope));
+    if (missing.length > 0) {
+      res.status(403).json({ message: `API key is missing required scope: ${missing.join(', ')}` });
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Reject API keys on account management routes (credentials, sessions, keys)
+ * Must be used after protect
+ */
+const requireSession = (req: Request, res: Response, next: NextFunction): void => {
+  if (req.apiKey) {
+    res.status(403).json({ message: 'This action requires a login session and cannot be performed with an API key' });
+    return;
+  }
+
+  next();
+};
+
+export { protect, optionalProtect, requireVerifiedEmail, authorize, requireScope, requireSession };
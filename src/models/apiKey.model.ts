@@ -0,0 +1,76 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { API_KEY_SCOPE_VALUES, ApiKeyScope } from '../config/apiKeyScopes';
+
+export interface IApiKey extends Document {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    // Keys act inside the workspace they were created in
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: true
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100
+    },
+    // First characters of the key, shown so users can tell keys apart
+    prefix: {
+      type: String,
+      required: true
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false
+    },
+    scopes: [{
+      type: String,
+      enum: API_KEY_SCOPE_VALUES
+    }],
+    lastUsedAt: {
+      type: Date
+    },
+    lastUsedIp: {
+      type: String
+    },
+    expiresAt: {
+      type: Date
+    },
+    revokedAt: {
+      type: Date
+    }
+  },
+  { timestamps: true }
+);
+
+// Compound index for listing a user's active keys
+ApiKeySchema.index({ user: 1, revokedAt: 1, createdAt: -1 });
+
+const ApiKey = mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
+
+export default ApiKey;
@@ -0,0 +1,69 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { AttachmentKind } from '../utils/fileUpload.util';
+
+export interface IAttachment extends Document {
+  _id: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
+  uploader: mongoose.Types.ObjectId;
+  filename: string; // Stored file name, shared by attachments of identical content
+  originalName: string;
+  size: number;
+  mimeType: string;
+  kind: AttachmentKind;
+  width?: number; // Images only
+  height?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Uploaded file that can be attached to messages; access follows the messages that reference it
+const AttachmentSchema = new Schema<IAttachment>(
+  {
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: true
+    },
+    uploader: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    filename: {
+      type: String,
+      required: true,
+      index: true
+    },
+    originalName: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    size: {
+      type: Number,
+      required: true
+    },
+    mimeType: {
+      type: String,
+      required: true
+    },
+    kind: {
+      type: String,
+      enum: ['image', 'video', 'audio', 'document'],
+      required: true
+    },
+    width: {
+      type: Number
+    },
+    height: {
+      type: Number
+    }
+  },
+  { timestamps: true }
+);
+
+// Finding attachments that were never sent
+AttachmentSchema.index({ createdAt: 1 });
+
+export default mongoose.model<IAttachment>('Attachment', AttachmentSchema);
@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type AuthTokenType = 'password_reset' | 'email_verification' | 'account_unlock' | 'oidc_login';
+
+export interface IAuthToken extends Document {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  type: AuthTokenType;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AuthTokenSchema = new Schema<IAuthToken>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    type: {
+      type: String,
+      enum: ['password_reset', 'email_verification', 'account_unlock', 'oidc_login'],
+      required: true
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    usedAt: {
+      type: Date
+    }
+  },
+  { timestamps: true }
+);
+
+// Compound index for invalidating a user's outstanding tokens of a type
+AuthTokenSchema.index({ user: 1, type: 1 });
+
+// Let MongoDB remove tokens once they have expired
+AuthTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const AuthToken = mongoose.model<IAuthToken>('AuthToken', AuthTokenSchema);
+
+export default AuthToken;
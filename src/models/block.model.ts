@@ -0,0 +1,31 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IBlock extends Document {
+  _id: mongoose.Types.ObjectId;
+  blocker: mongoose.Types.ObjectId;
+  blocked: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Blocks belong to the user, so they apply in every workspace
+const BlockSchema = new Schema<IBlock>(
+  {
+    blocker: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    blocked: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    }
+  },
+  { timestamps: true }
+);
+
+BlockSchema.index({ blocker: 1, blocked: 1 }, { unique: true });
+
+export default mongoose.model<IBlock>('Block', BlockSchema);
@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IFile extends Document {
+  _id: mongoose.Types.ObjectId;
+  owner: mongoose.Types.ObjectId;
+  workspace?: mongoose.Types.ObjectId; // Not set for profile pictures
+  filename: string; // Storage key
+  hash: string; // SHA-256 (hex) of the stored content
+  size: number;
+  mimeType: string; // Detected from the content
+  refCount: number; // Attachments and profile pictures using the file
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Stored file, counted against the quotas of its owner and workspace
+ * Identical content uploaded again by the same owner in the same workspace reuses the file
+ */
+const FileSchema = new Schema<IFile>(
+  {
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace'
+    },
+    filename: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    hash: {
+      type: String,
+      required: true
+    },
+    size: {
+      type: Number,
+      required: true
+    },
+    mimeType: {
+      type: String,
+      required: true
+    },
+    refCount: {
+      type: Number,
+      default: 1,
+      min: 0
+    }
+  },
+  { timestamps: true }
+);
+
+// Deduplication lookups; also serves per-owner usage totals
+FileSchema.index({ owner: 1, workspace: 1, hash: 1 }, { unique: true });
+// Per-workspace usage totals
+FileSchema.index({ workspace: 1 });
+
+export default mongoose.model<IFile>('File', FileSchema);
@@ -2,15 +2,24 @@ import mongoose, { Document, Schema } from 'mongoose';
 
 export interface IFriendRequest extends Document {
   _id: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
   sender: mongoose.Types.ObjectId;
   recipient: mongoose.Types.ObjectId;
-  status: 'pending' | 'accepted' | 'rejected';
+  status: 'pending' | 'accepted' | 'rejected' | 'removed';
+  respondedAt?: Date;
+  removedBy?: mongoose.Types.ObjectId;
+  removedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
 const FriendRequestSchema = new Schema<IFriendRequest>(
   {
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      index: true
+    },
     sender: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -25,9 +34,21 @@ const FriendRequestSchema = new Schema<IFriendRequest>(
     },
     status: {
       type: String,
-      enum: ['pending', 'accepted', 'rejected'],
+      enum: ['pending', 'accepted', 'rejected', 'removed'],
       default: 'pending',
       index: true
+    },
+    // When the recipient accepted or rejected the request
+    respondedAt: {
+      type: Date
+    },
+    // Set when an accepted friendship is ended by either side
+    removedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    removedAt: {
+      type: Date
     }
   },
   { 
@@ -38,9 +59,11 @@ const FriendRequestSchema = new Schema<IFriendRequest>(
 );
 
 // Compound indexes for efficient queries
-FriendRequestSchema.index({ sender: 1, recipient: 1 }, { unique: true });
+FriendRequestSchema.index({ workspace: 1, sender: 1, recipient: 1 }, { unique: true });
 FriendRequestSchema.index({ recipient: 1, status: 1, createdAt: -1 });
 FriendRequestSchema.index({ sender: 1, status: 1, createdAt: -1 });
+FriendRequestSchema.index({ workspace: 1, status: 1, sender: 1 });
+FriendRequestSchema.index({ workspace: 1, status: 1, recipient: 1 });
 
 // Virtual populate for sender details
 FriendRequestSchema.virtual('senderDetails', {
@@ -4,6 +4,7 @@ import { IUser } from './user.model';
 export interface IGroup extends Document {
   name: string;
   description?: string;
+  workspace: mongoose.Types.ObjectId;
   creator: mongoose.Types.ObjectId;
   members: mongoose.Types.ObjectId[];
   admins: mongoose.Types.ObjectId[];
@@ -26,6 +27,11 @@ const GroupSchema = new Schema<IGroup>(
       maxlength: 500,
       default: ''
     },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      index: true
+    },
     creator: {
       type: Schema.Types.ObjectId,
       ref: 'User',
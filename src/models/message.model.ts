@@ -1,24 +1,107 @@
 import mongoose, { Document, ObjectId, Schema } from 'mongoose';
 import { IUser } from './user.model';
 import { IGroup } from './group.model';
+import { AttachmentKind } from '../utils/fileUpload.util';
+
+export interface IMessageRevision {
+  content: string;
+  editedAt: Date;
+}
+
+export interface IMessageReaction {
+  emoji: string;
+  users: mongoose.Types.ObjectId[];
+}
+
+// Snapshot of another message, kept even if that message is deleted
+export interface IMessageSnapshot {
+  message: mongoose.Types.ObjectId;
+  sender: mongoose.Types.ObjectId;
+  senderName: string;
+  content?: string;
+  createdAt: Date;
+}
+
+// Metadata of an uploaded attachment, copied so messages load without a lookup
+export interface IMessageAttachment {
+  attachment: mongoose.Types.ObjectId;
+  filename: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  kind: AttachmentKind;
+  width?: number;
+  height?: number;
+}
 
 export interface IMessage extends Document<ObjectId> {
   content: string;
+  workspace: mongoose.Types.ObjectId;
   sender: mongoose.Types.ObjectId | IUser;
   receiver?: mongoose.Types.ObjectId | IUser; // For direct messages
   group?: mongoose.Types.ObjectId | IGroup; // For group messages
   readBy: mongoose.Types.ObjectId[] | IUser[];
+  editedAt?: Date;
+  editHistory: IMessageRevision[];
+  reactions: IMessageReaction[];
+  parentMessage?: mongoose.Types.ObjectId; // Set on thread replies
+  replyCount: number;
+  lastReplyAt?: Date;
+  lastReplyBy?: mongoose.Types.ObjectId | IUser;
+  threadParticipants: mongoose.Types.ObjectId[];
+  quote?: IMessageSnapshot; // Inline "reply to" quote
+  forwardedFrom?: IMessageSnapshot; // Original message of a forward
+  mentions: mongoose.Types.ObjectId[]; // Resolved mentioned users, group messages only
+  broadcastMentions: ('here' | 'channel')[];
+  invalidMentions: string[]; // Mention tokens that matched no group member
+  attachments: IMessageAttachment[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+const MessageSnapshotSchema = new Schema<IMessageSnapshot>(
+  {
+    message: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+      required: true
+    },
+    sender: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    senderName: {
+      type: String,
+      required: true
+    },
+    content: {
+      type: String
+    },
+    createdAt: {
+      type: Date,
+      required: true
+    }
+  },
+  { _id: false }
+);
+
 const MessageSchema = new Schema<IMessage>(
   {
     content: {
       type: String,
-      required: true,
+      // Messages with attachments may have no text
+      required: function(this: IMessage) {
+        return !this.attachments || this.attachments.length === 0;
+      },
+      default: '',
       trim: true
     },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      index: true
+    },
     sender: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -35,11 +118,90 @@ const MessageSchema = new Schema<IMessage>(
     readBy: [{
       type: Schema.Types.ObjectId,
       ref: 'User'
+    }],
+    editedAt: {
+      type: Date
+    },
+    // Prior revisions, oldest first; only loaded for admin audits
+    editHistory: {
+      type: [{
+        _id: false,
+        content: { type: String, required: true },
+        editedAt: { type: Date, required: true }
+      }],
+      select: false
+    },
+    // One entry per distinct emoji with the users who reacted with it
+    reactions: [{
+      _id: false,
+      emoji: { type: String, required: true },
+      users: [{
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+      }]
+    }],
+    // Thread root for replies; roots keep a summary of their thread
+    parentMessage: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message'
+    },
+    replyCount: {
+      type: Number,
+      default: 0
+    },
+    lastReplyAt: {
+      type: Date
+    },
+    lastReplyBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    // Root author and everyone who replied, notified of new replies
+    threadParticipants: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }],
+    quote: {
+      type: MessageSnapshotSchema
+    },
+    forwardedFrom: {
+      type: MessageSnapshotSchema
+    },
+    mentions: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }],
+    broadcastMentions: [{
+      type: String,
+      enum: ['here', 'channel']
+    }],
+    invalidMentions: [{
+      type: String
+    }],
+    attachments: [{
+      _id: false,
+      attachment: { type: Schema.Types.ObjectId, ref: 'Attachment', required: true },
+      filename: { type: String, required: true },
+      name: { type: String, required: true },
+      size: { type: Number, required: true },
+      mimeType: { type: String, required: true },
+      kind: { type: String, enum: ['image', 'video', 'audio', 'document'], required: true },
+      width: { type: Number },
+      height: { type: Number }
     }]
   },
   { timestamps: true }
 );
 
+MessageSchema.index({ parentMessage: 1, createdAt: 1 });
+// Cursor pagination of group and direct conversations
+MessageSchema.index({ group: 1, createdAt: -1, _id: -1 });
+MessageSchema.index({ sender: 1, receiver: 1, createdAt: -1, _id: -1 });
+MessageSchema.index({ workspace: 1, mentions: 1, createdAt: -1 });
+MessageSchema.index({ content: 'text' });
+MessageSchema.index({ 'attachments.attachment': 1 });
+MessageSchema.index({ 'attachments.filename': 1 });
+
 // Validation to ensure either receiver or group is provided
 MessageSchema.pre('save', function(next) {
   if (!this.receiver && !this.group) {
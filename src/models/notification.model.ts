@@ -2,9 +2,10 @@ import mongoose, { Document, Schema } from 'mongoose';
 
 export interface INotification extends Document {
   _id: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
   recipient: mongoose.Types.ObjectId;
   sender: mongoose.Types.ObjectId;
-  type: 'friend_request' | 'friend_accepted' | 'friend_rejected' | 'message' | 'group_invite' | 'system';
+  type: 'friend_request' | 'friend_accepted' | 'friend_rejected' | 'message' | 'mention' | 'group_invite' | 'system';
   title: string;
   message: string;
   data?: {
@@ -20,6 +21,11 @@ export interface INotification extends Document {
 
 const NotificationSchema = new Schema<INotification>(
   {
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      index: true
+    },
     recipient: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -33,7 +39,7 @@ const NotificationSchema = new Schema<INotification>(
     },
     type: {
       type: String,
-      enum: ['friend_request', 'friend_accepted', 'friend_rejected', 'message', 'group_invite', 'system'],
+      enum: ['friend_request', 'friend_accepted', 'friend_rejected', 'message', 'mention', 'group_invite', 'system'],
       required: true,
       index: true
     },
@@ -65,8 +71,8 @@ const NotificationSchema = new Schema<INotification>(
 );
 
 // Compound indexes for efficient queries
-NotificationSchema.index({ recipient: 1, isRead: 1, createdAt: -1 });
-NotificationSchema.index({ recipient: 1, type: 1, createdAt: -1 });
+NotificationSchema.index({ workspace: 1, recipient: 1, isRead: 1, createdAt: -1 });
+NotificationSchema.index({ workspace: 1, recipient: 1, type: 1, createdAt: -1 });
 
 // Virtual populate for sender details
 NotificationSchema.virtual('senderDetails', {
@@ -79,6 +85,7 @@ NotificationSchema.virtual('senderDetails', {
 
 // Static method to create friend request notification
 NotificationSchema.statics.createFriendRequestNotification = async function(
+  workspaceId: mongoose.Types.ObjectId,
   senderId: mongoose.Types.ObjectId, 
   recipientId: mongoose.Types.ObjectId, 
   friendRequestId: mongoose.Types.ObjectId
@@ -86,6 +93,7 @@ NotificationSchema.statics.createFriendRequestNotification = async function(
   const senderUser = await mongoose.model('User').findById(senderId).select('firstName lastName');
   
   return this.create({
+    workspace: workspaceId,
     recipient: recipientId,
     sender: senderId,
     type: 'friend_request',
@@ -99,12 +107,14 @@ NotificationSchema.statics.createFriendRequestNotification = async function(
 
 // Static method to create friend accepted notification
 NotificationSchema.statics.createFriendAcceptedNotification = async function(
+  workspaceId: mongoose.Types.ObjectId,
   senderId: mongoose.Types.ObjectId, 
   recipientId: mongoose.Types.ObjectId
 ) {
   const senderUser = await mongoose.model('User').findById(senderId).select('firstName lastName');
   
   return this.create({
+    workspace: workspaceId,
     recipient: recipientId,
     sender: senderId,
     type: 'friend_accepted',
@@ -116,12 +126,14 @@ NotificationSchema.statics.createFriendAcceptedNotification = async function(
 
 // Static method to create friend rejected notification
 NotificationSchema.statics.createFriendRejectedNotification = async function(
+  workspaceId: mongoose.Types.ObjectId,
   senderId: mongoose.Types.ObjectId, 
   recipientId: mongoose.Types.ObjectId
 ) {
   const senderUser = await mongoose.model('User').findById(senderId).select('firstName lastName');
   
   return this.create({
+    workspace: workspaceId,
     recipient: recipientId,
     sender: senderId,
     type: 'friend_rejected',
@@ -131,6 +143,32 @@ NotificationSchema.statics.createFriendRejectedNotification = async function(
   });
 };
 
+// Static method to create mention notification
+NotificationSchema.statics.createMentionNotification = async function(
+  workspaceId: mongoose.Types.ObjectId,
+  senderId: mongoose.Types.ObjectId,
+  recipientId: mongoose.Types.ObjectId,
+  messageId: mongoose.Types.ObjectId,
+  groupId: mongoose.Types.ObjectId,
+  preview: string
+) {
+  const senderUser = await mongoose.model('User').findById(senderId).select('firstName lastName');
+  const group = await mongoose.model('Group').findById(groupId).select('name');
+  
+  return this.create({
+    workspace: workspaceId,
+    recipient: recipientId,
+    sender: senderId,
+    type: 'mention',
+    title: `Mentioned in ${group?.name ?? 'a group'}`,
+    message: `${senderUser?.firstName} ${senderUser?.lastName}: ${preview}`.slice(0, 500),
+    data: {
+      messageId,
+      groupId
+    }
+  });
+};
+
 // Instance method to mark as read
 NotificationSchema.methods.markAsRead = function() {
   this.isRead = true;
@@ -0,0 +1,44 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IOidcState extends Document {
+  _id: mongoose.Types.ObjectId;
+  stateHash: string;
+  codeVerifier: string;
+  nonce: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Pending OpenID Connect authorization requests (state, PKCE verifier and nonce)
+ */
+const OidcStateSchema = new Schema<IOidcState>(
+  {
+    stateHash: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    codeVerifier: {
+      type: String,
+      required: true
+    },
+    nonce: {
+      type: String,
+      required: true
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    }
+  },
+  { timestamps: true }
+);
+
+// Let MongoDB remove abandoned login attempts
+OidcStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const OidcState = mongoose.model<IOidcState>('OidcState', OidcStateSchema);
+
+export default OidcState;
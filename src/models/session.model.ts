@@ -0,0 +1,69 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISession extends Document {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  workspace?: mongoose.Types.ObjectId;
+  refreshTokenHash: string;
+  userAgent?: string;
+  ipAddress?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema = new Schema<ISession>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    // Workspace the session is currently switched to
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace'
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true
+    },
+    userAgent: {
+      type: String,
+      default: ''
+    },
+    ipAddress: {
+      type: String,
+      default: ''
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    revokedAt: {
+      type: Date
+    },
+    revokedReason: {
+      type: String
+    }
+  },
+  { timestamps: true }
+);
+
+// Compound index for listing a user's active sessions
+SessionSchema.index({ user: 1, revokedAt: 1, lastUsedAt: -1 });
+
+// Let MongoDB remove sessions once their refresh token has expired
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const Session = mongoose.model<ISession>('Session', SessionSchema);
+
+export default Session;
@@ -0,0 +1,80 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { AttachmentKind } from '../utils/fileUpload.util';
+
+export interface IUploadSession extends Document {
+  _id: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
+  uploader: mongoose.Types.ObjectId;
+  filename: string; // Partial file name in the upload directory, kept as the stored name
+  originalName: string;
+  mimeType: string;
+  kind: AttachmentKind;
+  size: number; // Declared total size in bytes
+  checksum: string; // SHA-256 (hex) of the whole file
+  receivedBytes: number;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Resumable attachment upload in progress
+ * Chunks are appended to a partial file until receivedBytes reaches size
+ */
+const UploadSessionSchema = new Schema<IUploadSession>(
+  {
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: true
+    },
+    uploader: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    filename: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    originalName: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    mimeType: {
+      type: String,
+      required: true
+    },
+    kind: {
+      type: String,
+      enum: ['image', 'video', 'audio', 'document'],
+      required: true
+    },
+    size: {
+      type: Number,
+      required: true
+    },
+    checksum: {
+      type: String,
+      required: true,
+      lowercase: true
+    },
+    receivedBytes: {
+      type: Number,
+      default: 0
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    }
+  },
+  { timestamps: true }
+);
+
+// Not a TTL index: the partial file has to be removed along with the session
+UploadSessionSchema.index({ expiresAt: 1 });
+
+export default mongoose.model<IUploadSession>('UploadSession', UploadSessionSchema);
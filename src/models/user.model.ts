@@ -1,11 +1,31 @@
 import mongoose, { Document, ObjectId, Schema } from 'mongoose';
 import bcrypt from 'bcrypt';
+import { ROLES, Role } from '../config/roles';
 
 export interface IUser extends Document<ObjectId> {
   firstName: string;
   lastName: string;
   email: string;
   password: string;
+  role: Role;
+  defaultWorkspace?: mongoose.Types.ObjectId;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
+  identities: Array<{
+    provider: string;
+    subject: string;
+    linkedAt: Date;
+  }>;
+  twoFactor: {
+    enabled: boolean;
+    secret?: string;
+    pendingSecret?: string;
+    recoveryCodes?: string[];
+    lastUsedTimeStep?: number;
+    challengeId?: string; // Hash of the pending login challenge
+    challengeFailures?: number; // Wrong codes entered for it
+    enabledAt?: Date;
+  };
   profilePicture?: string;
   profilePictureMetadata?: {
     filename: string;
@@ -47,6 +67,71 @@ const UserSchema = new Schema<IUser>(
       required: true,
       minlength: 6
     },
+    role: {
+      type: String,
+      enum: ROLES,
+      default: 'member'
+    },
+    // Workspace new sessions start in (the last one switched to)
+    defaultWorkspace: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace'
+    },
+    emailVerified: {
+      type: Boolean,
+      default: false
+    },
+    emailVerifiedAt: {
+      type: Date
+    },
+    // Linked single sign-on accounts (provider is the OIDC issuer, subject the `sub` claim)
+    identities: [{
+      _id: false,
+      provider: {
+        type: String,
+        required: true
+      },
+      subject: {
+        type: String,
+        required: true
+      },
+      linkedAt: {
+        type: Date,
+        default: Date.now
+      }
+    }],
+    // Secrets are AES-GCM encrypted and recovery codes hashed, never selected by default
+    twoFactor: {
+      enabled: {
+        type: Boolean,
+        default: false
+      },
+      secret: {
+        type: String,
+        select: false
+      },
+      pendingSecret: {
+        type: String,
+        select: false
+      },
+      recoveryCodes: {
+        type: [String],
+        select: false
+      },
+      lastUsedTimeStep: {
+        type: Number,
+        select: false
+      },
+      challengeId: {
+        type: String,
+        select: false
+      },
+      challengeFailures: {
+        type: Number,
+        select: false
+      },
+      enabledAt: Date
+    },
     profilePicture: {
       type: String,
       default: ''
@@ -62,6 +147,12 @@ const UserSchema = new Schema<IUser>(
   { timestamps: true }
 );
 
+// Each single sign-on account can only be linked to one user
+UserSchema.index(
+  { 'identities.provider': 1, 'identities.subject': 1 },
+  { unique: true, partialFilterExpression: { 'identities.subject': { $exists: true } } }
+);
+
 // Hash password before saving
 UserSchema.pre('save', async function(next) {
   if (!this.isModified('password')) return next();
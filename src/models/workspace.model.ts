@@ -0,0 +1,85 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type WorkspaceMemberRole = 'admin' | 'member';
+
+export interface IWorkspaceMember {
+  user: mongoose.Types.ObjectId;
+  role: WorkspaceMemberRole;
+  joinedAt: Date;
+}
+
+export interface IWorkspace extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  slug: string;
+  createdBy: mongoose.Types.ObjectId;
+  members: IWorkspaceMember[];
+  allowedDomains: string[];
+  isPersonal: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkspaceMemberSchema = new Schema<IWorkspaceMember>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    role: {
+      type: String,
+      enum: ['admin', 'member'],
+      default: 'member'
+    },
+    joinedAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  { _id: false }
+);
+
+const WorkspaceSchema = new Schema<IWorkspace>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      minlength: 2,
+      maxlength: 50
+    },
+    slug: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    members: [WorkspaceMemberSchema],
+    // Users with a verified email on one of these domains join automatically
+    allowedDomains: [{
+      type: String,
+      lowercase: true,
+      trim: true
+    }],
+    isPersonal: {
+      type: Boolean,
+      default: false
+    }
+  },
+  { timestamps: true }
+);
+
+// Indexes for membership lookups and domain auto-join
+WorkspaceSchema.index({ 'members.user': 1 });
+WorkspaceSchema.index({ allowedDomains: 1 });
+
+const Workspace = mongoose.model<IWorkspace>('Workspace', WorkspaceSchema);
+
+export default Workspace;
@@ -24,6 +24,9 @@ export interface IBaseRepository<T extends Document> {
   // Transaction support
   startSession(): Promise<ClientSession>;
   withTransaction<U>(callback: (session: ClientSession) => Promise<U>): Promise<U>;
+  
+  // Multi-tenancy
+  forWorkspace(workspaceId: string | Types.ObjectId): this;
 }
 
 /**
@@ -32,6 +35,7 @@ export interface IBaseRepository<T extends Document> {
  */
 export class BaseRepository<T extends Document> implements IBaseRepository<T> {
   protected model: Model<T>;
+  protected workspaceId?: Types.ObjectId;
   
   /**
    * Creates a new repository instance
@@ -41,12 +45,40 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
     this.model = model;
   }
   
+  /**
+   * Get a copy of this repository whose queries only see one workspace
+   * Every filter gets the workspace added and created documents are stamped with it
+   * @param workspaceId - Workspace ID
+   * @returns Workspace-scoped repository
+   */
+  forWorkspace(workspaceId: string | Types.ObjectId): this {
+    if (!this.model.schema.path('workspace')) {
+      throw new Error(`${this.model.modelName} documents do not belong to a workspace`);
+    }
+    
+    const scoped = Object.create(this) as this;
+    scoped.workspaceId = new Types.ObjectId(workspaceId.toString());
+    return scoped;
+  }
+  
+  /**
+   * Restrict a filter to the repository's workspace (no-op when unscoped)
+   * @param filter - Filter criteria
+   * @returns Scoped filter
+   */
+  protected scopeFilter(filter: FilterQuery<T>): FilterQuery<T> {
+    return this.workspaceId ? { ...filter, workspace: this.workspaceId } : filter;
+  }
+  
   /**
    * Find document by ID
    * @param id - Document ID
    * @returns Promise resolving to document or null if not found
    */
   async findById(id: string | Types.ObjectId): Promise<T | null> {
+    if (this.workspaceId) {
+      return this.findOne({ _id: id } as FilterQuery<T>);
+    }
     return this.model.findById(id).exec();
   }
   
@@ -58,7 +90,7 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
    * @returns Promise resolving to document or null if not found
    */
   async findOne(filter: FilterQuery<T>, projection?: any, options?: QueryOptions<T>): Promise<T | null> {
-    return this.model.findOne(filter, projection, options).exec();
+    return this.model.findOne(this.scopeFilter(filter), projection, options).exec();
   }
   
   /**
@@ -69,7 +101,7 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
    * @returns Promise resolving to array of documents
    */
   async find(filter: FilterQuery<T>, projection?: any, options?: QueryOptions<T>): Promise<T[]> {
-    return this.model.find(filter, projection, options).exec();
+    return this.model.find(this.scopeFilter(filter), projection, options).exec();
   }
   
   /**
@@ -78,7 +110,7 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
    * @returns Promise resolving to created document
    */
   async create(data: Partial<T>): Promise<T> {
-    return this.model.create(data);
+    return this.model.create(this.workspaceId ? { ...data, workspace: this.workspaceId } : data);
   }
   
   /**
@@ -89,7 +121,7 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
    * @returns Promise resolving to updated document or null if not found
    */
   async updateById(id: string | Types.ObjectId, update: UpdateQuery<T>, options?: QueryOptions<T>): Promise<T | null> {
-    return this.model.findByIdAndUpdate(id, update, { new: true, ...options }).exec();
+    return this.model.findOneAndUpdate(this.scopeFilter({ _id: id } as FilterQuery<T>), update, { new: true, ...options }).exec();
   }
   
   /**
@@ -100,7 +132,7 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
    * @returns Promise resolving to updated document or null if not found
    */
   async updateOne(filter: FilterQuery<T>, update: UpdateQuery<T>, options?: QueryOptions<T>): Promise<T | null> {
-    return this.model.findOneAndUpdate(filter, update, { new: true, ...options }).exec();
+    return this.model.findOneAndUpdate(this.scopeFilter(filter), update, { new: true, ...options }).exec();
   }
   
   /**
@@ -111,7 +143,7 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
    * @returns Promise resolving to number of documents updated
    */
   async updateMany(filter: FilterQuery<T>, update: UpdateQuery<T>, options?: QueryOptions<T>): Promise<number> {
-    const result = await this.model.updateMany(filter, update, options as any).exec();
+    const result = await this.model.updateMany(this.scopeFilter(filter), update, options as any).exec();
     return result.modifiedCount;
   }
   
@@ -121,7 +153,7 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
    * @returns Promise resolving to boolean indicating success
    */
   async deleteById(id: string | Types.ObjectId): Promise<boolean> {
-    const result = await this.model.findByIdAndDelete(id).exec();
+    const result = await this.model.findOneAndDelete(this.scopeFilter({ _id: id } as FilterQuery<T>)).exec();
     return result !== null;
   }
   
@@ -131,7 +163,7 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
    * @returns Promise resolving to boolean indicating success
    */
   async deleteOne(filter: FilterQuery<T>): Promise<boolean> {
-    const result = await this.model.deleteOne(filter).exec();
+    const result = await this.model.deleteOne(this.scopeFilter(filter)).exec();
     return result.deletedCount > 0;
   }
   
@@ -141,7 +173,7 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
    * @returns Promise resolving to number of documents deleted
    */
   async deleteMany(filter: FilterQuery<T>): Promise<number> {
-    const result = await this.model.deleteMany(filter).exec();
+    const result = await this.model.deleteMany(this.scopeFilter(filter)).exec();
     return result.deletedCount;
   }
   
@@ -151,7 +183,7 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
    * @returns Promise resolving to count
    */
   async count(filter: FilterQuery<T>): Promise<number> {
-    return this.model.countDocuments(filter).exec();
+    return this.model.countDocuments(this.scopeFilter(filter)).exec();
   }
   
   /**
@@ -160,7 +192,10 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
    * @returns Promise resolving to aggregation results
    */
   async aggregate(pipeline: PipelineStage[]): Promise<any[]> {
-    return this.model.aggregate(pipeline).exec();
+    const scopedPipeline = this.workspaceId
+      ? [{ $match: { workspace: this.workspaceId } }, ...pipeline]
+      : pipeline;
+    return this.model.aggregate(scopedPipeline).exec();
   }
   
   /**
@@ -1,4 +1,4 @@
-import mongoose, { Types } from 'mongoose';
+import mongoose, { Types, PipelineStage } from 'mongoose';
 import Notification, { INotification } from '../models/notification.model';
 import { BaseRepository } from './base.repository';
 
@@ -17,11 +17,16 @@ export interface NotificationStats {
     friend_accepted: number;
     friend_rejected: number;
     message: number;
+    mention: number;
     group_invite: number;
     system: number;
   };
 }
 
+/**
+ * Notification Repository
+ * Use forWorkspace() so notifications never cross workspaces
+ */
 export class NotificationRepository extends BaseRepository<INotification> {
   constructor() {
     super(Notification);
@@ -52,7 +57,7 @@ export class NotificationRepository extends BaseRepository<INotification> {
 
     // Get notifications with sender details
     const notifications = await this.model
-      .find(filter)
+      .find(this.scopeFilter(filter))
       .populate('senderDetails')
       .sort({ createdAt: -1 })
       .skip(skip)
@@ -60,7 +65,7 @@ export class NotificationRepository extends BaseRepository<INotification> {
       .lean();
 
     // Get total count
-    const total = await this.model.countDocuments(filter);
+    const total = await this.model.countDocuments(this.scopeFilter(filter));
     const pages = Math.ceil(total / limit);
 
     return {
@@ -109,6 +114,11 @@ export class NotificationRepository extends BaseRepository<INotification> {
               $cond: [{ $eq: ['$type', 'message'] }, 1, 0]
             }
           },
+          mention: {
+            $sum: {
+              $cond: [{ $eq: ['$type', 'mention'] }, 1, 0]
+            }
+          },
           group_invite: {
             $sum: {
               $cond: [{ $eq: ['$type', 'group_invite'] }, 1, 0]
@@ -123,7 +133,7 @@ export class NotificationRepository extends BaseRepository<INotification> {
       }
     ];
 
-    const result = await this.model.aggregate(pipeline);
+    const result = await this.aggregate(pipeline as PipelineStage[]);
     
     if (result.length === 0) {
       return {
@@ -134,6 +144,7 @@ export class NotificationRepository extends BaseRepository<INotification> {
           friend_accepted: 0,
           friend_rejected: 0,
           message: 0,
+          mention: 0,
           group_invite: 0,
           system: 0
         }
@@ -149,6 +160,7 @@ export class NotificationRepository extends BaseRepository<INotification> {
         friend_accepted: stats.friend_accepted,
         friend_rejected: stats.friend_rejected,
         message: stats.message,
+        mention: stats.mention,
         group_invite: stats.group_invite,
         system: stats.system
       }
@@ -160,7 +172,7 @@ export class NotificationRepository extends BaseRepository<INotification> {
    */
   async markAsRead(notificationId: Types.ObjectId, userId: Types.ObjectId): Promise<INotification | null> {
     return await this.model.findOneAndUpdate(
-      { _id: notificationId, recipient: userId },
+      this.scopeFilter({ _id: notificationId, recipient: userId }),
       { isRead: true },
       { new: true }
     ).populate('senderDetails');
@@ -173,7 +185,7 @@ export class NotificationRepository extends BaseRepository<INotification> {
     const filter: any = { recipient: userId, isRead: false };
     if (type) filter.type = type;
 
-    const result = await this.model.updateMany(filter, { isRead: true });
+    const result = await this.model.updateMany(this.scopeFilter(filter), { isRead: true });
     return { modifiedCount: result.modifiedCount };
   }
 
@@ -181,10 +193,10 @@ export class NotificationRepository extends BaseRepository<INotification> {
    * Delete a notification
    */
   async deleteNotification(notificationId: Types.ObjectId, userId: Types.ObjectId): Promise<boolean> {
-    const result = await this.model.deleteOne({
+    const result = await this.model.deleteOne(this.scopeFilter({
       _id: notificationId,
       recipient: userId
-    });
+    }));
     return result.deletedCount > 0;
   }
 
@@ -195,7 +207,7 @@ export class NotificationRepository extends BaseRepository<INotification> {
     const filter: any = { recipient: userId };
     if (type) filter.type = type;
 
-    const result = await this.model.deleteMany(filter);
+    const result = await this.model.deleteMany(this.scopeFilter(filter));
     return { deletedCount: result.deletedCount };
   }
 
@@ -203,10 +215,10 @@ export class NotificationRepository extends BaseRepository<INotification> {
    * Get unread notifications count
    */
   async getUnreadCount(userId: Types.ObjectId): Promise<number> {
-    return await this.model.countDocuments({
+    return await this.model.countDocuments(this.scopeFilter({
       recipient: userId,
       isRead: false
-    });
+    }));
   }
 
   /**
@@ -218,6 +230,7 @@ export class NotificationRepository extends BaseRepository<INotification> {
     friendRequestId: Types.ObjectId
   ): Promise<INotification> {
     return await (this.model as any).createFriendRequestNotification(
+      this.workspaceId,
       senderId,
       recipientId,
       friendRequestId
@@ -232,6 +245,7 @@ export class NotificationRepository extends BaseRepository<INotification> {
     recipientId: Types.ObjectId
   ): Promise<INotification> {
     return await (this.model as any).createFriendAcceptedNotification(
+      this.workspaceId,
       senderId,
       recipientId
     );
@@ -245,17 +259,53 @@ export class NotificationRepository extends BaseRepository<INotification> {
     recipientId: Types.ObjectId
   ): Promise<INotification> {
     return await (this.model as any).createFriendRejectedNotification(
+      this.workspaceId,
       senderId,
       recipientId
     );
   }
 
+  /**
+   * Create mention notifications for the users mentioned in a group message
+   * Users who were already notified about the message are skipped, so edits only notify new mentions
+   */
+  async createMentionNotifications(
+    senderId: Types.ObjectId,
+    recipientIds: Types.ObjectId[],
+    messageId: Types.ObjectId,
+    groupId: Types.ObjectId,
+    preview: string
+  ): Promise<INotification[]> {
+    const alreadyNotified = await this.model.find(this.scopeFilter({
+      type: 'mention',
+      'data.messageId': messageId,
+      recipient: { $in: recipientIds }
+    })).select('recipient');
+    const notifiedIds = new Set(alreadyNotified.map(notification => notification.recipient.toString()));
+
+    const notifications: INotification[] = [];
+    for (const recipientId of recipientIds) {
+      if (notifiedIds.has(recipientId.toString())) continue;
+
+      notifications.push(await (this.model as any).createMentionNotification(
+        this.workspaceId,
+        senderId,
+        recipientId,
+        messageId,
+        groupId,
+        preview
+      ));
+    }
+
+    return notifications;
+  }
+
   /**
    * Delete notifications related to a friend request
    */
   async deleteFriendRequestNotifications(friendRequestId: Types.ObjectId): Promise<void> {
-    await this.model.deleteMany({
+    await this.model.deleteMany(this.scopeFilter({
       'data.friendRequestId': friendRequestId
-    });
+    }));
   }
 }
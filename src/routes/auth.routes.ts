@@ -1,6 +1,26 @@
 import express, { Request, Response } from 'express';
-import { register, login, getProfile } from '../controllers/auth.controller';
-import { protect } from '../middlewares/auth.middleware';
+import {
+  register,
+  login,
+  loginWithTwoFactor,
+  getProfile,
+  refresh,
+  logout,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+  forgotPassword,
+  resetPassword,
+  unlockAccount,
+  verifyEmail,
+  resendVerificationEmail,
+  getOidcStatus,
+  oidcLogin,
+  oidcCallback,
+  oidcExchange
+} from '../controllers/auth.controller';
+import { protect, requireScope, requireSession } from '../middlewares/auth.middleware';
+import { API_KEY_SCOPES } from '../config/apiKeyScopes';
 
 const router = express.Router();
 
@@ -33,8 +53,128 @@ router.get('/routes', (req: Request, res: Response) => {
       description: 'Authenticate user & get token',
       access: 'Public',
       parameters: 'email, password',
+      response: 'User data and JWT token, or a two-factor challenge token if 2FA is enabled (429 with Retry-After after repeated failures)'
+    },
+    {
+      method: 'POST',
+      path: '/api/auth/login/2fa',
+      description: 'Complete login with an authenticator code or a one-time recovery code',
+      access: 'Public',
+      parameters: 'challengeToken, code',
       response: 'User data and JWT token'
     },
+    {
+      method: 'GET',
+      path: '/api/auth/oidc',
+      description: 'Get single sign-on status (enabled, provider name, whether password login is allowed)',
+      access: 'Public',
+      parameters: 'None',
+      response: 'Single sign-on configuration'
+    },
+    {
+      method: 'GET',
+      path: '/api/auth/oidc/login',
+      description: 'Start single sign-on (redirects to the identity provider using authorization code + PKCE)',
+      access: 'Public',
+      parameters: 'None',
+      response: '302 redirect to the identity provider'
+    },
+    {
+      method: 'GET',
+      path: '/api/auth/oidc/callback',
+      description: 'Identity provider redirect target, sends the browser to the frontend with a one-time login code',
+      access: 'Public',
+      parameters: 'code, state (query, set by the identity provider)',
+      response: '302 redirect to OIDC_FRONTEND_CALLBACK_URL with ?code= or ?error='
+    },
+    {
+      method: 'POST',
+      path: '/api/auth/oidc/exchange',
+      description: 'Exchange the one-time login code for a session',
+      access: 'Public',
+      parameters: 'code',
+      response: 'User data and JWT token, or a two-factor challenge token if 2FA is enabled'
+    },
+    {
+      method: 'POST',
+      path: '/api/auth/refresh',
+      description: 'Exchange a refresh token for a new access token (refresh token is rotated)',
+      access: 'Public',
+      parameters: 'refreshToken',
+      response: 'New access token and refresh token'
+    },
+    {
+      method: 'POST',
+      path: '/api/auth/verify-email',
+      description: 'Verify email address with the token sent on signup',
+      access: 'Public',
+      parameters: 'token',
+      response: 'Verification status'
+    },
+    {
+      method: 'POST',
+      path: '/api/auth/resend-verification',
+      description: 'Resend the email verification link',
+      access: 'Private (Bearer Token Required)',
+      parameters: 'None (Authorization header required)',
+      response: 'Success message'
+    },
+    {
+      method: 'POST',
+      path: '/api/auth/forgot-password',
+      description: 'Request a password reset link by email',
+      access: 'Public',
+      parameters: 'email',
+      response: 'Generic success message (does not reveal whether the email exists)'
+    },
+    {
+      method: 'POST',
+      path: '/api/auth/reset-password',
+      description: 'Reset password with a single-use token and sign out all devices',
+      access: 'Public',
+      parameters: 'token, password, confirmPassword',
+      response: 'Success message'
+    },
+    {
+      method: 'POST',
+      path: '/api/auth/unlock',
+      description: 'Lift a login lockout with the token from the unlock email',
+      access: 'Public',
+      parameters: 'token',
+      response: 'Success message'
+    },
+    {
+      method: 'POST',
+      path: '/api/auth/logout',
+      description: 'Log out and revoke the current session',
+      access: 'Private (Bearer Token Required)',
+      parameters: 'None (Authorization header required)',
+      response: 'Success message'
+    },
+    {
+      method: 'GET',
+      path: '/api/auth/sessions',
+      description: 'List active sessions (devices) of the current user',
+      access: 'Private (Bearer Token Required)',
+      parameters: 'None (Authorization header required)',
+      response: 'List of active sessions'
+    },
+    {
+      method: 'DELETE',
+      path: '/api/auth/sessions/:sessionId',
+      description: 'Revoke a session and disconnect its live sockets',
+      access: 'Private (Bearer Token Required)',
+      parameters: 'sessionId (URL parameter)',
+      response: 'Success message'
+    },
+    {
+      method: 'DELETE',
+      path: '/api/auth/sessions',
+      description: 'Revoke all sessions except the current one',
+      access: 'Private (Bearer Token Required)',
+      parameters: 'None (Authorization header required)',
+      response: 'Number of revoked sessions'
+    },
     {
       method: 'GET',
       path: '/api/auth/profile',
@@ -99,7 +239,7 @@ router.get('/routes', (req: Request, res: Response) => {
     baseUrl: `${req.protocol}://${req.get('host')}`,
     routes: routes,
     documentation: {
-      authentication: 'Use Bearer token in Authorization header for private routes',
+      authentication: 'Use Bearer token in Authorization header for private routes. Access tokens are short-lived, use /api/auth/refresh to get a new one',
       contentType: 'application/json',
       example: {
         signup: {
@@ -121,6 +261,21 @@ router.get('/routes', (req: Request, res: Response) => {
             password: 'securepassword123'
           }
         },
+        loginWithTwoFactor: {
+          url: `${req.protocol}://${req.get('host')}/api/auth/login/2fa`,
+          method: 'POST',
+          body: {
+            challengeToken: 'CHALLENGE_TOKEN_FROM_LOGIN',
+            code: '123456'
+          }
+        },
+        refresh: {
+          url: `${req.protocol}://${req.get('host')}/api/auth/refresh`,
+          method: 'POST',
+          body: {
+            refreshToken: 'YOUR_REFRESH_TOKEN_HERE'
+          }
+        },
         profile: {
           url: `${req.protocol}://${req.get('host')}/api/auth/profile`,
           method: 'GET',
@@ -148,11 +303,116 @@ router.post('/signup', register);
  */
 router.post('/login', login);
 
+/**
+ * @route POST /auth/login/2fa
+ * @desc Complete login with a two-factor code
+ * @access Public
+ */
+router.post('/login/2fa', loginWithTwoFactor);
+
 /**
  * @route GET /auth/profile
  * @desc Get user profile
  * @access Private
  */
-router.get('/profile', protect, getProfile);
+router.get('/profile', protect, requireScope(API_KEY_SCOPES.USERS_READ), getProfile);
+
+/**
+ * @route GET /auth/oidc
+ * @desc Get single sign-on status
+ * @access Public
+ */
+router.get('/oidc', getOidcStatus);
+
+/**
+ * @route GET /auth/oidc/login
+ * @desc Start single sign-on with the identity provider
+ * @access Public
+ */
+router.get('/oidc/login', oidcLogin);
+
+/**
+ * @route GET /auth/oidc/callback
+ * @desc Handle the identity provider redirect
+ * @access Public
+ */
+router.get('/oidc/callback', oidcCallback);
+
+/**
+ * @route POST /auth/oidc/exchange
+ * @desc Exchange a one-time login code for a session
+ * @access Public
+ */
+router.post('/oidc/exchange', oidcExchange);
+
+/**
+ * @route POST /auth/refresh
+ * @desc Rotate refresh token and issue a new access token
+ * @access Public
+ */
+router.post('/refresh', refresh);
+
+/**
+ * @route POST /auth/verify-email
+ * @desc Verify email address
+ * @access Public
+ */
+router.post('/verify-email', verifyEmail);
+
+/**
+ * @route POST /auth/resend-verification
+ * @desc Resend email verification link
+ * @access Private
+ */
+router.post('/resend-verification', protect, requireSession, resendVerificationEmail);
+
+/**
+ * @route POST /auth/forgot-password
+ * @desc Send a password reset link
+ * @access Public
+ */
+router.post('/forgot-password', forgotPassword);
+
+/**
+ * @route POST /auth/reset-password
+ * @desc Reset password using a reset token
+ * @access Public
+ */
+router.post('/reset-password', resetPassword);
+
+/**
+ * @route POST /auth/unlock
+ * @desc Lift a login lockout
+ * @access Public
+ */
+router.post('/unlock', unlockAccount);
+
+/**
+ * @route POST /auth/logout
+ * @desc Revoke the current session
+ * @access Private
+ */
+router.post('/logout', protect, requireSession, logout);
+
+/**
+ * @route GET /auth/sessions
+ * @desc List active sessions
+ * @access Private
+ */
+router.get('/sessions', protect, requireSession, getSessions);
+
+/**
+ * @route DELETE /auth/sessions
+ * @desc Revoke all sessions except the current one
+ * @access Private
+ */
+router.delete('/sessions', protect, requireSession, revokeOtherSessions);
+
+/**
+ * @route DELETE /auth/sessions/:sessionId
+ * @desc Revoke a specific session
+ * @access Private
+ */
+router.delete('/sessions/:sessionId', protect, requireSession, revokeSession);
 
 export default router;
\ No newline at end of file
@@ -1,20 +1,25 @@
 import express from 'express';
 import { serveFile, getFileMetadata } from '../controllers/file.controller';
+import { optionalProtect } from '../middlewares/auth.middleware';
 
 const router = express.Router();
 
 /**
  * @route GET /files/:filename
  * @desc Serve uploaded file
- * @access Public
+ * @access Public (message attachments: participants of the conversation only)
+ * @query size?: 64 | 256 | 1024 (images only, longest side in px)
+ *        format?: webp (images only; also chosen when the Accept header allows image/webp)
+ *        download?: true (send as an attachment; files other than images, audio and video always are)
+ * @headers Range, If-Range - A single byte range is answered with 206 Partial Content
  */
-router.get('/:filename', serveFile);
+router.get('/:filename', optionalProtect, serveFile);
 
 /**
  * @route GET /files/:filename/info
  * @desc Get file metadata
- * @access Public
+ * @access Public (message attachments: participants of the conversation only)
  */
-router.get('/:filename/info', getFileMetadata);
+router.get('/:filename/info', optionalProtect, getFileMetadata);
 
 export default router;
@@ -0,0 +1,26 @@
+import express from 'express';
+import { getStorageUsage, runFileGc } from '../controllers/file.controller';
+import { protect, requireScope, requireSession, authorize } from '../middlewares/auth.middleware';
+import { API_KEY_SCOPES } from '../config/apiKeyScopes';
+import { PERMISSIONS } from '../config/roles';
+
+const router = express.Router();
+
+router.use(protect);
+
+/**
+ * @route GET /api/files/usage
+ * @desc Get the storage used by the current user and workspace, with their quotas (bytes; null quota means unlimited)
+ * @access Private
+ */
+router.get('/usage', requireScope(API_KEY_SCOPES.USERS_READ), getStorageUsage);
+
+/**
+ * @route POST /api/files/gc
+ * @desc Quarantine unreferenced files, delete those past the grace period and report what was done
+ * @access Private (admin, login session only)
+ * @body dryRun?: boolean - Only report what would be done
+ */
+router.post('/gc', requireSession, authorize(PERMISSIONS.FILES_MANAGE), runFileGc);
+
+export default router;
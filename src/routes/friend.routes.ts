@@ -0,0 +1,97 @@
+import { Router } from 'express';
+import { protect, requireScope } from '../middlewares/auth.middleware';
+import { API_KEY_SCOPES } from '../config/apiKeyScopes';
+import { getFriends, removeFriend, getRelationshipStatus } from '../controllers/friend.controller';
+
+const router = Router();
+
+/**
+ * @route   GET /api/friends
+ * @desc    Get the current user's friends in the current workspace
+ * @access  Private
+ * @query   page?: number (default: 1)
+ *          limit?: number (default: 20, max: 100)
+ *          search?: string (matches first name, last name or email)
+ * @example GET /api/friends?search=jane&page=1&limit=10
+ *          Authorization: Bearer <token>
+ */
+router.get('/', protect, requireScope(API_KEY_SCOPES.FRIENDS_READ), getFriends);
+
+/**
+ * @route   GET /api/friends/routes
+ * @desc    Get API documentation for friends
+ * @access  Public
+ */
+router.get('/routes', (req, res) => {
+  res.json({
+    title: 'Friends API Documentation',
+    version: '1.0.0',
+    description: 'List friends, remove friends and look up relationship status',
+    endpoints: {
+      'GET /api/friends': {
+        description: 'Get friends with pagination and search',
+        auth: 'Required',
+        query: {
+          page: 'number (default: 1)',
+          limit: 'number (default: 20, max: 100)',
+          search: 'string (optional, matches name or email)'
+        },
+        responses: {
+          200: 'List of friends with pagination'
+        }
+      },
+      'GET /api/friends/status/:userId': {
+        description: 'Get the relationship with another user',
+        auth: 'Required',
+        params: { userId: 'User ObjectId' },
+        responses: {
+          200: 'Relationship status: none | pending-out | pending-in | friends | blocked, with canRequestAt while a re-request cooldown applies',
+          404: 'User not found in this workspace'
+        }
+      },
+      'DELETE /api/friends/:userId': {
+        description: 'Remove a friend',
+        auth: 'Required',
+        params: { userId: 'User ObjectId' },
+        responses: {
+          200: 'Friend removed',
+          404: 'Friend not found'
+        }
+      }
+    },
+    examples: {
+      getFriends: {
+        method: 'GET',
+        url: '/api/friends?search=jane&page=1&limit=10',
+        headers: { 'Authorization': 'Bearer <token>' }
+      },
+      getRelationshipStatus: {
+        method: 'GET',
+        url: '/api/friends/status/64a1b2c3d4e5f6789012345a',
+        headers: { 'Authorization': 'Bearer <token>' }
+      }
+    }
+  });
+});
+
+/**
+ * @route   GET /api/friends/status/:userId
+ * @desc    Get the relationship between the current user and another user
+ * @access  Private
+ * @param   userId - User ID
+ * @example GET /api/friends/status/64a1b2c3d4e5f6789012345a
+ *          Authorization: Bearer <token>
+ */
+router.get('/status/:userId', protect, requireScope(API_KEY_SCOPES.FRIENDS_READ), getRelationshipStatus);
+
+/**
+ * @route   DELETE /api/friends/:userId
+ * @desc    Remove a friend
+ * @access  Private
+ * @param   userId - ID of the friend to remove
+ * @example DELETE /api/friends/64a1b2c3d4e5f6789012345a
+ *          Authorization: Bearer <token>
+ */
+router.delete('/:userId', protect, requireScope(API_KEY_SCOPES.FRIENDS_WRITE), removeFriend);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
-import { protect } from '../middlewares/auth.middleware';
+import { protect, requireVerifiedEmail, requireScope } from '../middlewares/auth.middleware';
+import { API_KEY_SCOPES } from '../config/apiKeyScopes';
 import {
   sendFriendRequest,
   acceptFriendRequest,
@@ -23,7 +24,7 @@ const router = Router();
  *            "emails": ["user1@example.com", "user2@example.com", "user3@example.com"]
  *          }
  */
-router.post('/', protect, sendFriendRequest);
+router.post('/', protect, requireScope(API_KEY_SCOPES.FRIENDS_WRITE), requireVerifiedEmail, sendFriendRequest);
 
 /**
  * @route   GET /api/friend-requests
@@ -36,7 +37,7 @@ router.post('/', protect, sendFriendRequest);
  * @example GET /api/friend-requests?type=received&status=pending&page=1&limit=10
  *          Authorization: Bearer <token>
  */
-router.get('/', protect, getFriendRequests);
+router.get('/', protect, requireScope(API_KEY_SCOPES.FRIENDS_READ), getFriendRequests);
 
 /**
  * @route   GET /api/friend-requests/routes
@@ -135,7 +136,7 @@ router.get('/routes', (req, res) => {
  * @example GET /api/friend-requests/64a1b2c3d4e5f6789012345a
  *          Authorization: Bearer <token>
  */
-router.get('/:id', protect, getFriendRequestById);
+router.get('/:id', protect, requireScope(API_KEY_SCOPES.FRIENDS_READ), getFriendRequestById);
 
 /**
  * @route   PUT /api/friend-requests/:id/accept
@@ -145,7 +146,7 @@ router.get('/:id', protect, getFriendRequestById);
  * @example PUT /api/friend-requests/64a1b2c3d4e5f6789012345a/accept
  *          Authorization: Bearer <token>
  */
-router.put('/:id/accept', protect, acceptFriendRequest);
+router.put('/:id/accept', protect, requireScope(API_KEY_SCOPES.FRIENDS_WRITE), acceptFriendRequest);
 
 /**
  * @route   PUT /api/friend-requests/:id/reject
@@ -155,7 +156,7 @@ router.put('/:id/accept', protect, acceptFriendRequest);
  * @example PUT /api/friend-requests/64a1b2c3d4e5f6789012345a/reject
  *          Authorization: Bearer <token>
  */
-router.put('/:id/reject', protect, rejectFriendRequest);
+router.put('/:id/reject', protect, requireScope(API_KEY_SCOPES.FRIENDS_WRITE), rejectFriendRequest);
 
 /**
  * @route   DELETE /api/friend-requests/:id
@@ -165,6 +166,6 @@ router.put('/:id/reject', protect, rejectFriendRequest);
  * @example DELETE /api/friend-requests/64a1b2c3d4e5f6789012345a
  *          Authorization: Bearer <token>
  */
-router.delete('/:id', protect, cancelFriendRequest);
+router.delete('/:id', protect, requireScope(API_KEY_SCOPES.FRIENDS_WRITE), cancelFriendRequest);
 
 export default router;
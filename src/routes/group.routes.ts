@@ -1,5 +1,7 @@
 import express from 'express';
-import { protect } from '../middlewares/auth.middleware';
+import { protect, authorize, requireScope } from '../middlewares/auth.middleware';
+import { PERMISSIONS } from '../config/roles';
+import { API_KEY_SCOPES } from '../config/apiKeyScopes';
 import {
   createGroup,
   getUserGroups,
@@ -38,7 +40,8 @@ router.get('/routes', (req, res) => {
           201: 'Group created successfully with all members',
           207: 'Group created with partial member success',
           400: 'Validation error or no members added',
-          401: 'Authentication required'
+          401: 'Authentication required',
+          403: 'Guests cannot create groups'
         },
         example: {
           request: {
@@ -219,18 +222,18 @@ router.get('/routes', (req, res) => {
 router.use(protect);
 
 // Group CRUD operations
-router.post('/', createGroup);
-router.get('/', getUserGroups);
-router.get('/:id', getGroupById);
-router.put('/:id', updateGroup);
-router.delete('/:id', deleteGroup);
+router.post('/', requireScope(API_KEY_SCOPES.GROUPS_WRITE), authorize(PERMISSIONS.GROUPS_CREATE), createGroup);
+router.get('/', requireScope(API_KEY_SCOPES.GROUPS_READ), getUserGroups);
+router.get('/:id', requireScope(API_KEY_SCOPES.GROUPS_READ), getGroupById);
+router.put('/:id', requireScope(API_KEY_SCOPES.GROUPS_WRITE), updateGroup);
+router.delete('/:id', requireScope(API_KEY_SCOPES.GROUPS_WRITE), deleteGroup);
 
 // Member management
-router.post('/:id/members', addMembersByEmail);
-router.delete('/:id/members/:userId', removeMember);
+router.post('/:id/members', requireScope(API_KEY_SCOPES.GROUPS_WRITE), addMembersByEmail);
+router.delete('/:id/members/:userId', requireScope(API_KEY_SCOPES.GROUPS_WRITE), removeMember);
 
 // Admin management
-router.put('/:id/admins/:userId', makeAdmin);
-router.delete('/:id/admins/:userId', removeAdmin);
+router.put('/:id/admins/:userId', requireScope(API_KEY_SCOPES.GROUPS_WRITE), makeAdmin);
+router.delete('/:id/admins/:userId', requireScope(API_KEY_SCOPES.GROUPS_WRITE), removeAdmin);
 
 export default router;
\ No newline at end of file
@@ -1,17 +1,36 @@
 import { Router } from 'express';
-import { protect } from '../middlewares/auth.middleware';
+import { protect, requireVerifiedEmail, requireScope, authorize } from '../middlewares/auth.middleware';
+import { API_KEY_SCOPES } from '../config/apiKeyScopes';
+import { PERMISSIONS } from '../config/roles';
 import {
   sendMessage,
   getDirectMessages,
   getGroupMessages,
+  getThreadMessages,
   markMessagesAsRead,
   getUnreadDirectMessageCount,
   getUnreadGroupMessageCount,
+  getUnreadThreadMessageCount,
   getRecentConversations,
+  getMentions,
+  searchMessages,
+  editMessage,
+  getMessageHistory,
+  addReaction,
+  removeReaction,
   deleteMessage,
   getOnlineUsers,
   getUserStatus
 } from '../controllers/message.controller';
+import {
+  uploadAttachments,
+  createUpload,
+  getUpload,
+  appendUploadChunk,
+  completeUpload,
+  abortUpload
+} from '../controllers/attachment.controller';
+import { uploadAttachments as uploadAttachmentsMiddleware, readUploadChunk } from '../utils/fileUpload.util';
 
 const router = Router();
 
@@ -33,11 +52,73 @@ router.get('/routes', (req, res) => {
       description: 'Send a message (direct or group)',
       authentication: 'Required',
       body: {
-        content: 'string (required) - Message content',
+        content: 'string (required unless forwarding) - Message content',
         receiver: 'string (optional) - Receiver user ID for direct messages',
-        group: 'string (optional) - Group ID for group messages'
+        group: 'string (optional) - Group ID for group messages',
+        parentMessage: 'string (optional) - Message ID to reply to in its thread',
+        quotedMessage: 'string (optional) - Message ID of the same conversation to quote',
+        forwardedMessage: 'string (optional) - Message ID to forward (no content allowed)',
+        attachments: 'string[] (optional) - Up to 10 attachment IDs from POST /api/messages/attachments; content is optional with attachments'
+      },
+      note: 'Either receiver or group must be provided, but not both. Replies may omit both. ' +
+        'Group messages may mention @<userId>, @<email>, @here (online members) and @channel (all members); ' +
+        'mentions of non-members are returned in invalidMentions and not notified'
+    },
+    {
+      method: 'POST',
+      path: '/api/messages/attachments',
+      description: 'Upload files to attach to a message',
+      authentication: 'Required',
+      body: {
+        files: 'file[] (required, multipart/form-data) - Up to 10 images, videos, audio files or documents'
+      },
+      note: 'Size limits per type: images 10 MB, video 100 MB, audio 25 MB, documents 25 MB by default. ' +
+        'Returns attachment IDs with name, size, MIME type and image dimensions'
+    },
+    {
+      method: 'POST',
+      path: '/api/messages/attachments/uploads',
+      description: 'Start a resumable upload of a large attachment',
+      authentication: 'Required',
+      body: {
+        filename: 'string (required) - Original file name',
+        mimeType: 'string (required) - MIME type of the file',
+        size: 'number (required) - Total size in bytes',
+        checksum: 'string (required) - Hex SHA-256 of the whole file'
+      },
+      note: 'Type and size limits are the same as POST /api/messages/attachments. ' +
+        'Unfinished uploads expire 24 hours after their last chunk by default'
+    },
+    {
+      method: 'GET',
+      path: '/api/messages/attachments/uploads/:uploadId',
+      description: 'Get a resumable upload and the offset to resume from',
+      authentication: 'Required'
+    },
+    {
+      method: 'PATCH',
+      path: '/api/messages/attachments/uploads/:uploadId',
+      description: 'Append a chunk to a resumable upload',
+      authentication: 'Required',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Upload-Offset': 'number (required) - Byte offset of the chunk, must equal the current offset',
+        'Upload-Checksum': 'string (optional) - Hex SHA-256 of the chunk'
       },
-      note: 'Either receiver or group must be provided, but not both'
+      note: 'Chunks are limited to 8 MB by default. A wrong offset is answered with 409 and the current offset'
+    },
+    {
+      method: 'POST',
+      path: '/api/messages/attachments/uploads/:uploadId/complete',
+      description: 'Finish a resumable upload once all bytes are sent and get the attachment ID',
+      authentication: 'Required',
+      note: 'The file must match the checksum given at the start, otherwise the upload is discarded'
+    },
+    {
+      method: 'DELETE',
+      path: '/api/messages/attachments/uploads/:uploadId',
+      description: 'Cancel a resumable upload',
+      authentication: 'Required'
     },
     {
       method: 'GET',
@@ -48,9 +129,13 @@ router.get('/routes', (req, res) => {
         userId: 'string (required) - Other user ID'
       },
       query: {
-        page: 'number (optional) - Page number (default: 1)',
-        limit: 'number (optional) - Messages per page (default: 50)'
-      }
+        limit: 'number (optional) - Messages per page (default: 50, max: 100)',
+        before: 'string (optional) - prevCursor of a page, loads older messages',
+        after: 'string (optional) - nextCursor of a page, loads newer messages',
+        around: 'string (optional) - Message ID to center the page on (thread replies jump to their root)',
+        page: 'number (optional, deprecated) - Page number, use the cursors instead'
+      },
+      note: 'Without a cursor the latest messages are returned. Use only one of before, after, around and page'
     },
     {
       method: 'GET',
@@ -60,9 +145,26 @@ router.get('/routes', (req, res) => {
       params: {
         groupId: 'string (required) - Group ID'
       },
+      query: {
+        limit: 'number (optional) - Messages per page (default: 50, max: 100)',
+        before: 'string (optional) - prevCursor of a page, loads older messages',
+        after: 'string (optional) - nextCursor of a page, loads newer messages',
+        around: 'string (optional) - Message ID to center the page on (thread replies jump to their root)',
+        page: 'number (optional, deprecated) - Page number, use the cursors instead'
+      },
+      note: 'Without a cursor the latest messages are returned. Use only one of before, after, around and page'
+    },
+    {
+      method: 'GET',
+      path: '/api/messages/:messageId/thread',
+      description: 'Get a thread: its root message, replies (oldest first) and unread count',
+      authentication: 'Required',
+      params: {
+        messageId: 'string (required) - Thread root or reply ID'
+      },
       query: {
         page: 'number (optional) - Page number (default: 1)',
-        limit: 'number (optional) - Messages per page (default: 50)'
+        limit: 'number (optional) - Replies per page (default: 50, max: 100)'
       }
     },
     {
@@ -92,6 +194,46 @@ router.get('/routes', (req, res) => {
         groupId: 'string (required) - Group ID'
       }
     },
+    {
+      method: 'GET',
+      path: '/api/messages/unread/thread/:messageId',
+      description: 'Get unread reply count for a thread',
+      authentication: 'Required',
+      params: {
+        messageId: 'string (required) - Thread root ID'
+      }
+    },
+    {
+      method: 'GET',
+      path: '/api/messages/mentions',
+      description: 'Get group messages that mention the current user, newest first',
+      authentication: 'Required',
+      query: {
+        page: 'number (optional) - Page number (default: 1)',
+        limit: 'number (optional) - Messages per page (default: 50, max: 100)',
+        unread: 'boolean (optional) - Only mentions the user has not read'
+      }
+    },
+    {
+      method: 'GET',
+      path: '/api/messages/search',
+      description: 'Search messages in your direct conversations and groups, newest first',
+      authentication: 'Required',
+      query: {
+        q: 'string (required) - Search text; supports "exact phrases" and -excluded words',
+        sender: 'string (optional) - Only messages from this user ID',
+        withUser: 'string (optional) - Only the direct conversation with this user ID',
+        group: 'string (optional) - Only messages of this group ID',
+        from: 'ISO date (optional) - Sent at or after',
+        to: 'ISO date (optional) - Sent at or before',
+        hasAttachment: 'boolean (optional) - Only messages with (true) or without (false) attachments',
+        mentionsMe: 'boolean (optional) - Only messages that mention you',
+        context: 'number (optional) - Messages of context before and after each hit (default: 2, max: 5)',
+        limit: 'number (optional) - Results per page (default: 20, max: 50)',
+        cursor: 'string (optional) - nextCursor from the previous page'
+      },
+      note: 'Each result has the message, its conversation, a snippet with highlight ranges and the surrounding messages'
+    },
     {
       method: 'GET',
       path: '/api/messages/conversations',
@@ -116,6 +258,49 @@ router.get('/routes', (req, res) => {
         userId: 'string (required) - User ID'
       }
     },
+    {
+      method: 'PATCH',
+      path: '/api/messages/:messageId',
+      description: 'Edit a message (only sender, within the edit window)',
+      authentication: 'Required',
+      params: {
+        messageId: 'string (required) - Message ID to edit'
+      },
+      body: {
+        content: 'string (required) - New message content'
+      }
+    },
+    {
+      method: 'GET',
+      path: '/api/messages/:messageId/history',
+      description: 'Get the edit history of a message (admin only)',
+      authentication: 'Required',
+      params: {
+        messageId: 'string (required) - Message ID'
+      }
+    },
+    {
+      method: 'POST',
+      path: '/api/messages/:messageId/reactions',
+      description: 'Add a reaction to a message',
+      authentication: 'Required',
+      params: {
+        messageId: 'string (required) - Message ID'
+      },
+      body: {
+        emoji: 'string (required) - A single emoji or a :shortcode:'
+      }
+    },
+    {
+      method: 'DELETE',
+      path: '/api/messages/:messageId/reactions/:emoji',
+      description: 'Remove your reaction from a message',
+      authentication: 'Required',
+      params: {
+        messageId: 'string (required) - Message ID',
+        emoji: 'string (required) - URL-encoded emoji or :shortcode:'
+      }
+    },
     {
       method: 'DELETE',
       path: '/api/messages/:messageId',
@@ -146,31 +331,61 @@ router.use(protect);
  */
 
 // Send a message (direct or group)
-router.post('/', sendMessage);
+router.post('/', requireScope(API_KEY_SCOPES.MESSAGES_WRITE), requireVerifiedEmail, sendMessage);
+
+// Upload attachments for a message
+router.post('/attachments', requireScope(API_KEY_SCOPES.MESSAGES_WRITE), requireVerifiedEmail, uploadAttachmentsMiddleware, uploadAttachments);
+
+// Resumable uploads for large attachments
+router.post('/attachments/uploads', requireScope(API_KEY_SCOPES.MESSAGES_WRITE), requireVerifiedEmail, createUpload);
+router.get('/attachments/uploads/:uploadId', requireScope(API_KEY_SCOPES.MESSAGES_WRITE), getUpload);
+router.patch('/attachments/uploads/:uploadId', requireScope(API_KEY_SCOPES.MESSAGES_WRITE), readUploadChunk, appendUploadChunk);
+router.post('/attachments/uploads/:uploadId/complete', requireScope(API_KEY_SCOPES.MESSAGES_WRITE), completeUpload);
+router.delete('/attachments/uploads/:uploadId', requireScope(API_KEY_SCOPES.MESSAGES_WRITE), abortUpload);
 
 // Get direct messages between two users
-router.get('/direct/:userId', getDirectMessages);
+router.get('/direct/:userId', requireScope(API_KEY_SCOPES.MESSAGES_READ), getDirectMessages);
 
 // Get group messages
-router.get('/group/:groupId', getGroupMessages);
+router.get('/group/:groupId', requireScope(API_KEY_SCOPES.MESSAGES_READ), getGroupMessages);
+
+// Get a thread with its replies
+router.get('/:messageId/thread', requireScope(API_KEY_SCOPES.MESSAGES_READ), getThreadMessages);
 
 // Mark messages as read
-router.put('/read', markMessagesAsRead);
+router.put('/read', requireScope(API_KEY_SCOPES.MESSAGES_WRITE), markMessagesAsRead);
 
 // Get unread message counts
-router.get('/unread/direct/:userId', getUnreadDirectMessageCount);
-router.get('/unread/group/:groupId', getUnreadGroupMessageCount);
+router.get('/unread/direct/:userId', requireScope(API_KEY_SCOPES.MESSAGES_READ), getUnreadDirectMessageCount);
+router.get('/unread/group/:groupId', requireScope(API_KEY_SCOPES.MESSAGES_READ), getUnreadGroupMessageCount);
+router.get('/unread/thread/:messageId', requireScope(API_KEY_SCOPES.MESSAGES_READ), getUnreadThreadMessageCount);
+
+// Get messages that mention the current user
+router.get('/mentions', requireScope(API_KEY_SCOPES.MESSAGES_READ), getMentions);
+
+// Search messages
+router.get('/search', requireScope(API_KEY_SCOPES.MESSAGES_READ), searchMessages);
 
 // Get recent conversations
-router.get('/conversations', getRecentConversations);
+router.get('/conversations', requireScope(API_KEY_SCOPES.MESSAGES_READ), getRecentConversations);
 
 // Get online users
-router.get('/online-users', getOnlineUsers);
+router.get('/online-users', requireScope(API_KEY_SCOPES.MESSAGES_READ), getOnlineUsers);
 
 // Get user status
-router.get('/user-status/:userId', getUserStatus);
+router.get('/user-status/:userId', requireScope(API_KEY_SCOPES.MESSAGES_READ), getUserStatus);
+
+// Edit a message
+router.patch('/:messageId', requireScope(API_KEY_SCOPES.MESSAGES_WRITE), editMessage);
+
+// Get the edit history of a message
+router.get('/:messageId/history', requireScope(API_KEY_SCOPES.MESSAGES_READ), authorize(PERMISSIONS.MESSAGES_AUDIT), getMessageHistory);
+
+// Add or remove reactions
+router.post('/:messageId/reactions', requireScope(API_KEY_SCOPES.MESSAGES_WRITE), addReaction);
+router.delete('/:messageId/reactions/:emoji', requireScope(API_KEY_SCOPES.MESSAGES_WRITE), removeReaction);
 
 // Delete a message
-router.delete('/:messageId', deleteMessage);
+router.delete('/:messageId', requireScope(API_KEY_SCOPES.MESSAGES_WRITE), deleteMessage);
 
 export default router;
\ No newline at end of file
@@ -5,25 +5,28 @@ import {
   getMockConversations, 
   getDatabaseStats 
 } from '../controllers/mock.controller';
+import { protect, authorize, requireSession } from '../middlewares/auth.middleware';
+import { PERMISSIONS } from '../config/roles';
 
 const router = Router();
 
 /**
  * Mock Data Routes
  * Provides endpoints for frontend development and testing
+ * They expose data of all users, so only admins and owners may call them
  */
 
 // Get mock users
-router.get('/users', getMockUsers);
+router.get('/users', protect, requireSession, authorize(PERMISSIONS.MOCK_READ), getMockUsers);
 
 // Get mock groups
-router.get('/groups', getMockGroups);
+router.get('/groups', protect, requireSession, authorize(PERMISSIONS.MOCK_READ), getMockGroups);
 
 // Get mock conversations
-router.get('/conversations', getMockConversations);
+router.get('/conversations', protect, requireSession, authorize(PERMISSIONS.MOCK_READ), getMockConversations);
 
 // Get database statistics
-router.get('/stats', getDatabaseStats);
+router.get('/stats', protect, requireSession, authorize(PERMISSIONS.STATS_READ), getDatabaseStats);
 
 // API documentation
 router.get('/routes', (req, res) => {
@@ -48,6 +51,7 @@ router.get('/routes', (req, res) => {
         response: 'Object with counts of users, groups, and messages'
       }
     },
+    authentication: 'Bearer token of a user with the admin or owner role',
     note: 'These endpoints are for development and testing purposes'
   });
 });
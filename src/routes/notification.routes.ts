@@ -9,7 +9,9 @@ import {
   getNotificationById,
   createNotification
 } from '../controllers/notification.controller';
-import { protect } from '../middlewares/auth.middleware';
+import { protect, authorize, requireScope } from '../middlewares/auth.middleware';
+import { PERMISSIONS } from '../config/roles';
+import { API_KEY_SCOPES } from '../config/apiKeyScopes';
 
 const router = express.Router();
 
@@ -80,7 +82,7 @@ router.get('/routes', (req: Request, res: Response) => {
       method: 'POST',
       path: '/api/notifications',
       description: 'Create a notification (admin/system use)',
-      access: 'Private (Bearer Token Required)',
+      access: 'Private (Admin or Owner role required)',
       parameters: 'recipientId, type, title, message, data? (request body)',
       response: 'Created notification'
     }
@@ -154,6 +156,7 @@ router.get('/routes', (req: Request, res: Response) => {
       'friend_accepted', 
       'friend_rejected',
       'message',
+      'mention',
       'group_invite',
       'system'
     ],
@@ -171,55 +174,55 @@ router.get('/routes', (req: Request, res: Response) => {
  * @desc Get notifications with pagination and filtering
  * @access Private
  */
-router.get('/', protect, getNotifications);
+router.get('/', protect, requireScope(API_KEY_SCOPES.NOTIFICATIONS_READ), getNotifications);
 
 /**
  * @route GET /notifications/stats
  * @desc Get notification statistics
  * @access Private
  */
-router.get('/stats', protect, getNotificationStats);
+router.get('/stats', protect, requireScope(API_KEY_SCOPES.NOTIFICATIONS_READ), getNotificationStats);
 
 /**
  * @route GET /notifications/unread-count
  * @desc Get unread notifications count
  * @access Private
  */
-router.get('/unread-count', protect, getUnreadCount);
+router.get('/unread-count', protect, requireScope(API_KEY_SCOPES.NOTIFICATIONS_READ), getUnreadCount);
 
 /**
  * @route PUT /notifications/read
  * @desc Mark specific notifications as read
  * @access Private
  */
-router.put('/read', protect, markAsRead);
+router.put('/read', protect, requireScope(API_KEY_SCOPES.NOTIFICATIONS_WRITE), markAsRead);
 
 /**
  * @route PUT /notifications/read-all
  * @desc Mark all notifications as read
  * @access Private
  */
-router.put('/read-all', protect, markAllAsRead);
+router.put('/read-all', protect, requireScope(API_KEY_SCOPES.NOTIFICATIONS_WRITE), markAllAsRead);
 
 /**
  * @route DELETE /notifications
  * @desc Delete notifications
  * @access Private
  */
-router.delete('/', protect, deleteNotifications);
+router.delete('/', protect, requireScope(API_KEY_SCOPES.NOTIFICATIONS_WRITE), deleteNotifications);
 
 /**
  * @route GET /notifications/:id
  * @desc Get specific notification by ID
  * @access Private
  */
-router.get('/:id', protect, getNotificationById);
+router.get('/:id', protect, requireScope(API_KEY_SCOPES.NOTIFICATIONS_READ), getNotificationById);
 
 /**
  * @route POST /notifications
  * @desc Create a notification (admin/system use)
- * @access Private
+ * @access Private (Admin)
  */
-router.post('/', protect, createNotification);
+router.post('/', protect, requireScope(API_KEY_SCOPES.NOTIFICATIONS_WRITE), authorize(PERMISSIONS.NOTIFICATIONS_CREATE), createNotification);
 
 export default router;
@@ -7,9 +7,23 @@ import {
   changePassword, 
   deleteCurrentUser,
   uploadProfilePicture,
-  deleteProfilePicture
+  deleteProfilePicture,
+  getTwoFactorStatus,
+  setupTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  updateUserRole,
+  getApiKeys,
+  createApiKey,
+  revokeApiKey,
+  getBlockedUsers,
+  blockUser,
+  unblockUser
 } from '../controllers/user.controller';
-import { protect } from '../middlewares/auth.middleware';
+import { protect, authorize, requireScope, requireSession } from '../middlewares/auth.middleware';
+import { PERMISSIONS } from '../config/roles';
+import { API_KEY_SCOPES, API_KEY_SCOPE_VALUES } from '../config/apiKeyScopes';
 import { uploadProfilePicture as uploadMiddleware } from '../utils/fileUpload.util';
 
 const router = express.Router();
@@ -77,6 +91,94 @@ router.get('/routes', (req: Request, res: Response) => {
       parameters: 'None (Authorization header required)',
       response: 'Success message'
     },
+    {
+      method: 'GET',
+      path: '/api/users/me/2fa',
+      description: 'Get two-factor authentication status',
+      access: 'Private (Bearer Token Required)',
+      parameters: 'None (Authorization header required)',
+      response: 'Enabled flag and remaining recovery codes'
+    },
+    {
+      method: 'POST',
+      path: '/api/users/me/2fa/setup',
+      description: 'Start two-factor enrolment',
+      access: 'Private (Bearer Token Required)',
+      parameters: 'None (Authorization header required)',
+      response: 'TOTP secret and otpauth:// provisioning URI'
+    },
+    {
+      method: 'POST',
+      path: '/api/users/me/2fa/confirm',
+      description: 'Confirm two-factor enrolment with an authenticator code',
+      access: 'Private (Bearer Token Required)',
+      parameters: 'code',
+      response: 'One-time recovery codes'
+    },
+    {
+      method: 'POST',
+      path: '/api/users/me/2fa/disable',
+      description: 'Disable two-factor authentication',
+      access: 'Private (Bearer Token Required)',
+      parameters: 'password, code (authenticator or recovery code)',
+      response: 'Success message'
+    },
+    {
+      method: 'POST',
+      path: '/api/users/me/2fa/recovery-codes',
+      description: 'Regenerate recovery codes',
+      access: 'Private (Bearer Token Required)',
+      parameters: 'code',
+      response: 'New one-time recovery codes'
+    },
+    {
+      method: 'GET',
+      path: '/api/users/me/api-keys',
+      description: 'List personal API keys',
+      access: 'Private (Bearer Token Required, login session only)',
+      parameters: 'None',
+      response: 'API keys with prefix, scopes and last use (never the key itself)'
+    },
+    {
+      method: 'POST',
+      path: '/api/users/me/api-keys',
+      description: 'Create a personal API key for the current workspace',
+      access: 'Private (Bearer Token Required, login session only)',
+      parameters: `name, scopes (${API_KEY_SCOPE_VALUES.join(', ')}), expiresInDays?`,
+      response: 'The raw key (shown only once) and its metadata'
+    },
+    {
+      method: 'DELETE',
+      path: '/api/users/me/api-keys/:keyId',
+      description: 'Revoke a personal API key',
+      access: 'Private (Bearer Token Required, login session only)',
+      parameters: 'keyId (URL parameter)',
+      response: 'Success message'
+    },
+    {
+      method: 'GET',
+      path: '/api/users/me/blocks',
+      description: 'List blocked users',
+      access: 'Private (Bearer Token Required)',
+      parameters: 'None',
+      response: 'Blocked users with the time they were blocked'
+    },
+    {
+      method: 'POST',
+      path: '/api/users/me/blocks',
+      description: 'Block a user (cancels pending friend requests, stops direct messages, typing and presence)',
+      access: 'Private (Bearer Token Required, login session only)',
+      parameters: 'userId',
+      response: 'The created block'
+    },
+    {
+      method: 'DELETE',
+      path: '/api/users/me/blocks/:userId',
+      description: 'Unblock a user',
+      access: 'Private (Bearer Token Required, login session only)',
+      parameters: 'userId (URL parameter)',
+      response: 'Success message'
+    },
     {
       method: 'GET',
       path: '/api/users',
@@ -92,6 +194,14 @@ router.get('/routes', (req: Request, res: Response) => {
       access: 'Private (Bearer Token Required)',
       parameters: 'id (URL parameter)',
       response: 'User profile data'
+    },
+    {
+      method: 'PUT',
+      path: '/api/users/:id/role',
+      description: 'Change the global role of a user (owner, admin, member, guest)',
+      access: 'Private (Admin or Owner role required)',
+      parameters: 'id (URL parameter), role',
+      response: 'Updated user with role'
     }
   ];
 
@@ -169,55 +279,139 @@ router.use(protect);
  * @desc Get current user profile
  * @access Private
  */
-router.get('/me', getCurrentUser);
+router.get('/me', requireScope(API_KEY_SCOPES.USERS_READ), getCurrentUser);
 
 /**
  * @route PUT /users/me
  * @desc Update current user profile
  * @access Private
  */
-router.put('/me', updateCurrentUser);
+router.put('/me', requireSession, updateCurrentUser);
 
 /**
  * @route PUT /users/me/password
  * @desc Change current user password
  * @access Private
  */
-router.put('/me/password', changePassword);
+router.put('/me/password', requireSession, changePassword);
 
 /**
  * @route DELETE /users/me
  * @desc Delete current user account
  * @access Private
  */
-router.delete('/me', deleteCurrentUser);
+router.delete('/me', requireSession, deleteCurrentUser);
 
 /**
  * @route POST /users/me/profile-picture
  * @desc Upload profile picture
  * @access Private
  */
-router.post('/me/profile-picture', uploadMiddleware.single('profilePicture'), uploadProfilePicture);
+router.post('/me/profile-picture', requireSession, uploadMiddleware.single('profilePicture'), uploadProfilePicture);
 
 /**
  * @route DELETE /users/me/profile-picture
  * @desc Delete profile picture
  * @access Private
  */
-router.delete('/me/profile-picture', deleteProfilePicture);
+router.delete('/me/profile-picture', requireSession, deleteProfilePicture);
+
+/**
+ * @route GET /users/me/2fa
+ * @desc Get two-factor authentication status
+ * @access Private
+ */
+router.get('/me/2fa', requireSession, getTwoFactorStatus);
+
+/**
+ * @route POST /users/me/2fa/setup
+ * @desc Start two-factor enrolment
+ * @access Private
+ */
+router.post('/me/2fa/setup', requireSession, setupTwoFactor);
+
+/**
+ * @route POST /users/me/2fa/confirm
+ * @desc Confirm two-factor enrolment
+ * @access Private
+ */
+router.post('/me/2fa/confirm', requireSession, confirmTwoFactor);
+
+/**
+ * @route POST /users/me/2fa/disable
+ * @desc Disable two-factor authentication
+ * @access Private
+ */
+router.post('/me/2fa/disable', requireSession, disableTwoFactor);
+
+/**
+ * @route POST /users/me/2fa/recovery-codes
+ * @desc Regenerate recovery codes
+ * @access Private
+ */
+router.post('/me/2fa/recovery-codes', requireSession, regenerateRecoveryCodes);
+
+/**
+ * @route GET /users/me/api-keys
+ * @desc List personal API keys
+ * @access Private (login session only)
+ */
+router.get('/me/api-keys', requireSession, getApiKeys);
+
+/**
+ * @route POST /users/me/api-keys
+ * @desc Create a personal API key for the current workspace
+ * @access Private (login session only)
+ */
+router.post('/me/api-keys', requireSession, createApiKey);
+
+/**
+ * @route DELETE /users/me/api-keys/:keyId
+ * @desc Revoke a personal API key
+ * @access Private (login session only)
+ */
+router.delete('/me/api-keys/:keyId', requireSession, revokeApiKey);
+
+/**
+ * @route GET /users/me/blocks
+ * @desc List blocked users
+ * @access Private
+ */
+router.get('/me/blocks', requireScope(API_KEY_SCOPES.USERS_READ), getBlockedUsers);
+
+/**
+ * @route POST /users/me/blocks
+ * @desc Block a user
+ * @access Private (login session only)
+ */
+router.post('/me/blocks', requireSession, blockUser);
+
+/**
+ * @route DELETE /users/me/blocks/:userId
+ * @desc Unblock a user
+ * @access Private (login session only)
+ */
+router.delete('/me/blocks/:userId', requireSession, unblockUser);
 
 /**
  * @route GET /users
  * @desc Get all users with pagination and search
  * @access Private
  */
-router.get('/', getUsers);
+router.get('/', requireScope(API_KEY_SCOPES.USERS_READ), getUsers);
 
 /**
  * @route GET /users/:id
  * @desc Get user by ID
  * @access Private
  */
-router.get('/:id', getUserById);
+router.get('/:id', requireScope(API_KEY_SCOPES.USERS_READ), getUserById);
+
+/**
+ * @route PUT /users/:id/role
+ * @desc Change the global role of a user
+ * @access Private (Admin)
+ */
+router.put('/:id/role', requireSession, authorize(PERMISSIONS.USERS_MANAGE_ROLES), updateUserRole);
 
 export default router;
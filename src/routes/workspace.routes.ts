@@ -0,0 +1,161 @@
+import express from 'express';
+import { protect, authorize, requireScope, requireSession } from '../middlewares/auth.middleware';
+import { PERMISSIONS } from '../config/roles';
+import { API_KEY_SCOPES } from '../config/apiKeyScopes';
+import {
+  createWorkspace,
+  getUserWorkspaces,
+  getCurrentWorkspace,
+  switchWorkspace,
+  updateWorkspace,
+  addWorkspaceMember,
+  removeWorkspaceMember
+} from '../controllers/workspace.controller';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/workspaces/routes
+ * @desc    Get API documentation for workspace routes
+ * @access  Public
+ */
+router.get('/routes', (req, res) => {
+  res.json({
+    message: 'Workspace API Routes Documentation',
+    version: '1.0.0',
+    endpoints: [
+      {
+        method: 'POST',
+        path: '/api/workspaces',
+        description: 'Create a new workspace with the current user as admin',
+        authentication: 'Required (JWT)',
+        requestBody: {
+          name: 'string (required) - Workspace name (2-50 characters)',
+          allowedDomains: 'string[] (optional) - Email domains that join automatically after email verification (max 10)'
+        },
+        responses: {
+          201: 'Workspace created successfully',
+          400: 'Validation error',
+          401: 'Authentication required',
+          403: 'Guests cannot create workspaces, or domain is not your own verified email domain'
+        }
+      },
+      {
+        method: 'GET',
+        path: '/api/workspaces',
+        description: 'Get all workspaces of the current user',
+        authentication: 'Required (JWT)',
+        responses: {
+          200: 'Workspaces retrieved successfully',
+          401: 'Authentication required'
+        }
+      },
+      {
+        method: 'GET',
+        path: '/api/workspaces/current',
+        description: 'Get the workspace of the current session with its members',
+        authentication: 'Required (JWT)',
+        responses: {
+          200: 'Workspace retrieved successfully',
+          401: 'Authentication required'
+        }
+      },
+      {
+        method: 'POST',
+        path: '/api/workspaces/:id/switch',
+        description: 'Switch the current session to another workspace (returns a new token pair)',
+        authentication: 'Required (JWT)',
+        parameters: {
+          id: 'string (required) - Workspace ID'
+        },
+        responses: {
+          200: 'Workspace switched successfully',
+          400: 'Invalid workspace ID format',
+          401: 'Authentication required',
+          404: 'Workspace not found'
+        }
+      },
+      {
+        method: 'PUT',
+        path: '/api/workspaces/:id',
+        description: 'Update workspace name or allowed domains (workspace admins only)',
+        authentication: 'Required (JWT)',
+        parameters: {
+          id: 'string (required) - Workspace ID'
+        },
+        requestBody: {
+          name: 'string (optional) - Workspace name (2-50 characters)',
+          allowedDomains: 'string[] (optional) - Replaces the allowed email domains'
+        },
+        responses: {
+          200: 'Workspace updated successfully',
+          400: 'Validation error',
+          401: 'Authentication required',
+          403: 'Access denied - workspace admin required',
+          404: 'Workspace not found'
+        }
+      },
+      {
+        method: 'POST',
+        path: '/api/workspaces/:id/members',
+        description: 'Add an existing user by email (workspace admins only)',
+        authentication: 'Required (JWT)',
+        parameters: {
+          id: 'string (required) - Workspace ID'
+        },
+        requestBody: {
+          email: 'string (required) - Email of the user to add',
+          role: 'string (optional) - admin or member (default member)'
+        },
+        responses: {
+          201: 'Member added successfully',
+          400: 'Validation error or user already a member',
+          401: 'Authentication required',
+          403: 'Access denied - workspace admin required',
+          404: 'Workspace or user not found'
+        }
+      },
+      {
+        method: 'DELETE',
+        path: '/api/workspaces/:id/members/:userId',
+        description: 'Remove a member (workspace admins) or leave the workspace (yourself)',
+        authentication: 'Required (JWT)',
+        parameters: {
+          id: 'string (required) - Workspace ID',
+          userId: 'string (required) - User ID to remove'
+        },
+        responses: {
+          200: 'Member removed successfully',
+          400: 'Invalid ID format or last admin',
+          401: 'Authentication required',
+          403: 'Access denied - workspace admin required',
+          404: 'Workspace not found'
+        }
+      }
+    ],
+    notes: [
+      'All endpoints except /routes require JWT authentication',
+      'Access tokens are scoped to one workspace; messages, groups, friend requests, notifications and user listings only cover that workspace',
+      'Every user gets a personal workspace on first login if no other workspace applies',
+      'Users with a verified email on an allowed domain join the workspace automatically',
+      'Only your own verified email domain can be allowed (global admins may allow any domain)',
+      'A workspace must keep at least one admin'
+    ]
+  });
+});
+
+// Apply authentication middleware to all routes except documentation
+router.use(protect);
+
+// Workspace operations
+router.post('/', requireSession, authorize(PERMISSIONS.WORKSPACES_CREATE), createWorkspace);
+router.get('/', requireScope(API_KEY_SCOPES.WORKSPACES_READ), getUserWorkspaces);
+router.get('/current', requireScope(API_KEY_SCOPES.WORKSPACES_READ), getCurrentWorkspace);
+router.post('/:id/switch', requireSession, switchWorkspace);
+router.put('/:id', requireSession, updateWorkspace);
+
+// Member management
+router.post('/:id/members', requireSession, addWorkspaceMember);
+router.delete('/:id/members/:userId', requireSession, removeWorkspaceMember);
+
+export default router;
@@ -0,0 +1,95 @@
+import mongoose from 'mongoose';
+import ApiKey, { IApiKey } from '../models/apiKey.model';
+import { ApiKeyScope } from '../config/apiKeyScopes';
+import { generateSecureToken, hashToken } from '../utils/crypto.util';
+
+// Prefix that makes keys recognisable (e.g. by secret scanners)
+export const API_KEY_PREFIX = 'wc_';
+
+const PREFIX_DISPLAY_LENGTH = API_KEY_PREFIX.length + 8;
+const getMaxKeysPerUser = (): number => parseInt(process.env.API_KEYS_MAX_PER_USER || '25', 10);
+
+export interface CreatedApiKey {
+  apiKey: IApiKey;
+  /** Raw key, only returned once at creation time */
+  key: string;
+}
+
+/**
+ * Check whether a bearer credential looks like an API key rather than a JWT
+ */
+export const isApiKey = (token: string): boolean => token.startsWith(API_KEY_PREFIX);
+
+export class ApiKeyService {
+  /**
+   * Create an API key for a user in a workspace
+   */
+  async createKey(
+    userId: mongoose.Types.ObjectId | string,
+    workspaceId: mongoose.Types.ObjectId | string,
+    name: string,
+    scopes: ApiKeyScope[],
+    expiresInDays?: number
+  ): Promise<CreatedApiKey> {
+    const activeCount = await ApiKey.countDocuments({ user: userId, revokedAt: { $exists: false } });
+    if (activeCount >= getMaxKeysPerUser()) {
+      throw new Error('API key limit reached');
+    }
+
+    const key = `${API_KEY_PREFIX}${generateSecureToken(32)}`;
+
+    const apiKey = await ApiKey.create({
+      user: userId,
+      workspace: workspaceId,
+      name,
+      prefix: key.slice(0, PREFIX_DISPLAY_LENGTH),
+      keyHash: hashToken(key),
+      scopes: [...new Set(scopes)],
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : undefined
+    });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * List the active keys of a user, newest first
+   */
+  async listKeys(userId: mongoose.Types.ObjectId | string): Promise<IApiKey[]> {
+    return await ApiKey.find({ user: userId, revokedAt: { $exists: false } }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Revoke a key belonging to a user
+   * @returns True if an active key was revoked
+   */
+  async revokeKey(userId: mongoose.Types.ObjectId | string, keyId: string): Promise<boolean> {
+    const result = await ApiKey.updateOne(
+      { _id: keyId, user: userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Resolve a raw key to an active API key and record its usage
+   * @returns The key, or null if it is unknown, revoked or expired
+   */
+  async authenticate(key: string, ipAddress: string): Promise<IApiKey | null> {
+    const apiKey = await ApiKey.findOne({ keyHash: hashToken(key) });
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+      return null;
+    }
+
+    apiKey.lastUsedAt = new Date();
+    apiKey.lastUsedIp = ipAddress;
+    await ApiKey.updateOne(
+      { _id: apiKey._id },
+      { $set: { lastUsedAt: apiKey.lastUsedAt, lastUsedIp: ipAddress } }
+    );
+
+    return apiKey;
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,164 @@
+import mongoose from 'mongoose';
+import Attachment, { IAttachment } from '../models/attachment.model';
+import Message, { IMessageAttachment } from '../models/message.model';
+import Group from '../models/group.model';
+import { discardUploadedFile, getAttachmentKind, getAttachmentSizeLimit, UploadedFile } from '../utils/fileUpload.util';
+import { processUploadedImage } from '../utils/imageProcessing.util';
+import { fileService } from './file.service';
+
+export class AttachmentService {
+  /**
+   * Record uploaded files as attachments of the uploader
+   * All files are deleted if one of them is refused, so an upload is all or nothing
+   * Files are checked and cleaned in the upload directory before they reach storage
+   * Attachments of identical content share one stored file
+   */
+  async createAttachments(
+    workspaceId: mongoose.Types.ObjectId,
+    uploaderId: mongoose.Types.ObjectId,
+    files: UploadedFile[]
+  ): Promise<IAttachment[]> {
+    const stored: string[] = [];
+
+    try {
+      const prepared = [];
+
+      for (const file of files) {
+        const kind = getAttachmentKind(file.mimetype, file.originalname);
+        if (!kind) {
+          throw new Error('Invalid file type');
+        }
+
+        const sizeLimit = getAttachmentSizeLimit(kind);
+        if (file.size > sizeLimit) {
+          throw new Error(`${file.originalname} exceeds the ${sizeLimit / (1024 * 1024)} MB limit for ${kind} files`);
+        }
+
+        // Images lose their EXIF/GPS metadata, which changes their size
+        let imageInfo: { width?: number; height?: number; variants?: string[] } = {};
+        if (kind === 'image') {
+          imageInfo = await processUploadedImage(file.path).catch(() => {
+            throw new Error('Invalid image file');
+          });
+        }
+
+        prepared.push({ file, kind, imageInfo });
+      }
+
+      const attachments = [];
+      for (const { file, kind, imageInfo } of prepared) {
+        const storedFile = await fileService.storeUploadedFile(uploaderId, workspaceId, file, imageInfo.variants);
+        stored.push(storedFile.filename);
+
+        attachments.push({
+          workspace: workspaceId,
+          uploader: uploaderId,
+          filename: storedFile.filename,
+          originalName: file.originalname,
+          size: storedFile.size,
+          mimeType: storedFile.mimeType,
+          kind,
+          width: imageInfo.width,
+          height: imageInfo.height
+        });
+      }
+
+      return await Attachment.insertMany(attachments);
+    } catch (error) {
+      await Promise.all(files.map(file => discardUploadedFile(file)));
+      for (const filename of stored) {
+        await fileService.releaseFile(filename);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load attachments the user uploaded so they can be attached to a message
+   * @returns Message attachment metadata in the order of the given IDs
+   */
+  async getAttachmentsForMessage(
+    workspaceId: mongoose.Types.ObjectId,
+    uploaderId: mongoose.Types.ObjectId,
+    attachmentIds: mongoose.Types.ObjectId[]
+  ): Promise<IMessageAttachment[]> {
+    const attachments = await Attachment.find({
+      _id: { $in: attachmentIds },
+      workspace: workspaceId,
+      uploader: uploaderId
+    });
+
+    return attachmentIds.map(attachmentId => {
+      const attachment = attachments.find(candidate => candidate._id.equals(attachmentId));
+      if (!attachment) {
+        throw new Error('Attachment not found');
+      }
+
+      return {
+        attachment: attachment._id,
+        filename: attachment.filename,
+        name: attachment.originalName,
+        size: attachment.size,
+        mimeType: attachment.mimeType,
+        kind: attachment.kind,
+        width: attachment.width,
+        height: attachment.height
+      };
+    });
+  }
+
+  /**
+   * Delete attachments that no message carries any more and release their stored files
+   * Forwards share the attachments of the original, so an attachment is kept while any message still uses it
+   * @param attachmentIds - Attachments of messages that were deleted
+   */
+  async releaseUnusedAttachments(attachmentIds: mongoose.Types.ObjectId[]): Promise<void> {
+    const uniqueIds = [...new Map(attachmentIds.map(attachmentId => [attachmentId.toString(), attachmentId])).values()];
+
+    for (const attachmentId of uniqueIds) {
+      if (await Message.exists({ 'attachments.attachment': attachmentId })) {
+        continue;
+      }
+
+      // Deleting first makes sure a file reference is only released once
+      const attachment = await Attachment.findOneAndDelete({ _id: attachmentId });
+      if (attachment) {
+        await fileService.releaseFile(attachment.filename);
+      }
+    }
+  }
+
+  /**
+   * Find the attachment stored under a file name
+   */
+  async getByFilename(filename: string): Promise<IAttachment | null> {
+    return await Attachment.findOne({ filename });
+  }
+
+  /**
+   * Check whether a user may download an attachment
+   * The uploader always can; others must take part in a conversation with a message that carries it
+   */
+  async canAccess(attachment: IAttachment, userId: mongoose.Types.ObjectId | string): Promise<boolean> {
+    if (attachment.uploader.toString() === userId.toString()) {
+      return true;
+    }
+
+    // Attachments of identical content share a file, so any message carrying the file grants access
+    const messages = await Message.find({ 'attachments.filename': attachment.filename }).select('sender receiver group');
+
+    for (const message of messages) {
+      if (message.group) {
+        if (await Group.exists({ _id: message.group, members: userId })) {
+          return true;
+        }
+      } else if (message.sender.toString() === userId.toString() || message.receiver?.toString() === userId.toString()) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
+
+export const attachmentService = new AttachmentService();
@@ -0,0 +1,47 @@
+import mongoose from 'mongoose';
+import AuthToken, { IAuthToken, AuthTokenType } from '../models/authToken.model';
+import { generateSecureToken, hashToken } from '../utils/crypto.util';
+
+export class AuthTokenService {
+  /**
+   * Issue a new single-use token, invalidating any outstanding token of the same type
+   * @returns The raw token - only its hash is stored
+   */
+  async issueToken(
+    userId: mongoose.Types.ObjectId | string,
+    type: AuthTokenType,
+    expiresInMinutes: number
+  ): Promise<string> {
+    await AuthToken.deleteMany({ user: userId, type });
+
+    const token = generateSecureToken();
+
+    await AuthToken.create({
+      user: userId,
+      type,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000)
+    });
+
+    return token;
+  }
+
+  /**
+   * Atomically mark a token as used
+   * @returns The consumed token or null if it is unknown, expired or already used
+   */
+  async consumeToken(token: string, type: AuthTokenType): Promise<IAuthToken | null> {
+    return await AuthToken.findOneAndUpdate(
+      {
+        tokenHash: hashToken(token),
+        type,
+        usedAt: { $exists: false },
+        expiresAt: { $gt: new Date() }
+      },
+      { $set: { usedAt: new Date() } },
+      { new: true }
+    );
+  }
+}
+
+export const authTokenService = new AuthTokenService();
@@ -0,0 +1,117 @@
+import mongoose from 'mongoose';
+import Block, { IBlock } from '../models/block.model';
+import FriendRequest from '../models/friendRequest.model';
+import User from '../models/user.model';
+import { NotificationRepository } from '../repositories/notification.repository';
+import { workspaceService } from './workspace.service';
+
+export class BlockService {
+  private notificationRepository: NotificationRepository;
+
+  constructor() {
+    this.notificationRepository = new NotificationRepository();
+  }
+
+  /**
+   * Block a user and cancel pending friend requests between the two users
+   * The user must be a member of the blocker's current workspace
+   */
+  async blockUser(
+    workspaceId: mongoose.Types.ObjectId | string,
+    blockerId: mongoose.Types.ObjectId | string,
+    blockedId: mongoose.Types.ObjectId | string
+  ): Promise<IBlock> {
+    if (blockerId.toString() === blockedId.toString()) {
+      throw new Error('You cannot block yourself');
+    }
+
+    const blockedUser = await User.findById(blockedId);
+    if (!blockedUser || !(await workspaceService.isMember(workspaceId, blockedId))) {
+      throw new Error('User not found');
+    }
+
+    const existingBlock = await Block.findOne({ blocker: blockerId, blocked: blockedId });
+    if (existingBlock) {
+      throw new Error('User is already blocked');
+    }
+
+    const block = await Block.create({ blocker: blockerId, blocked: blockedId });
+
+    // Cancel pending requests in either direction, in every workspace
+    const pendingRequests = await FriendRequest.find({
+      status: 'pending',
+      $or: [
+        { sender: blockerId, recipient: blockedId },
+        { sender: blockedId, recipient: blockerId }
+      ]
+    });
+
+    for (const friendRequest of pendingRequests) {
+      await FriendRequest.deleteOne({ _id: friendRequest._id });
+      await this.notificationRepository
+        .forWorkspace(friendRequest.workspace)
+        .deleteFriendRequestNotifications(friendRequest._id);
+    }
+
+    return block;
+  }
+
+  /**
+   * Unblock a user
+   * @returns True if the user was blocked
+   */
+  async unblockUser(
+    blockerId: mongoose.Types.ObjectId | string,
+    blockedId: mongoose.Types.ObjectId | string
+  ): Promise<boolean> {
+    const result = await Block.deleteOne({ blocker: blockerId, blocked: blockedId });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * List the users blocked by a user, newest first
+   */
+  async listBlocks(blockerId: mongoose.Types.ObjectId | string): Promise<IBlock[]> {
+    return await Block.find({ blocker: blockerId })
+      .populate('blocked', 'firstName lastName email profilePicture')
+      .sort({ createdAt: -1 });
+  }
+
+  /**
+   * Check whether a user has blocked another user
+   */
+  async hasBlocked(
+    blockerId: mongoose.Types.ObjectId | string,
+    blockedId: mongoose.Types.ObjectId | string
+  ): Promise<boolean> {
+    return !!(await Block.exists({ blocker: blockerId, blocked: blockedId }));
+  }
+
+  /**
+   * Check whether either of two users has blocked the other
+   */
+  async isBlockedBetween(
+    userId: mongoose.Types.ObjectId | string,
+    otherUserId: mongoose.Types.ObjectId | string
+  ): Promise<boolean> {
+    const block = await Block.exists({
+      $or: [
+        { blocker: userId, blocked: otherUserId },
+        { blocker: otherUserId, blocked: userId }
+      ]
+    });
+
+    return !!block;
+  }
+
+  /**
+   * Get the IDs of the users who have blocked a user
+   * Used to hide the user's live activity from them
+   */
+  async getBlockerIds(userId: mongoose.Types.ObjectId | string): Promise<string[]> {
+    const blocks = await Block.find({ blocked: userId }).select('blocker').lean();
+    return blocks.map(block => block.blocker.toString());
+  }
+}
+
+export const blockService = new BlockService();
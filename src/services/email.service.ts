@@ -26,6 +26,28 @@ export interface InvitationEmailData {
   recipientEmail: string;
 }
 
+export interface PasswordResetEmailData {
+  recipientName: string;
+  recipientEmail: string;
+  resetUrl: string;
+  expiresInMinutes: number;
+}
+
+export interface EmailVerificationEmailData {
+  recipientName: string;
+  recipientEmail: string;
+  verificationUrl: string;
+  expiresInMinutes: number;
+}
+
+export interface AccountUnlockEmailData {
+  recipientName: string;
+  recipientEmail: string;
+  unlockUrl: string;
+  lockoutMinutes: number;
+  expiresInMinutes: number;
+}
+
 export class EmailService {
   private transporter: nodemailer.Transporter | null = null;
   private isConfigured: boolean = false;
@@ -134,6 +156,102 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send password reset link
+   */
+  async sendPasswordResetEmail(data: PasswordResetEmailData): Promise<boolean> {
+    if (!this.isConfigured) {
+      console.log(`📧 Email not configured - would send password reset email to ${data.recipientEmail}`);
+      return false;
+    }
+
+    try {
+      const mailOptions = {
+        from: `"Workplace Connect" <${process.env.EMAIL_USER}>`,
+        to: data.recipientEmail,
+        subject: 'Reset your Workplace Connect password',
+        html: this.generatePasswordResetEmailTemplate(data),
+        text: this.generatePasswordResetEmailText(data)
+      };
+
+      if (!this.transporter) {
+        console.error('❌ Transporter is not initialized');
+        return false;
+      }
+
+      const info = await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Password reset email sent to ${data.recipientEmail}:`, info.messageId);
+      return true;
+    } catch (error) {
+      console.error(`❌ Failed to send password reset email to ${data.recipientEmail}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Send email address verification link
+   */
+  async sendEmailVerificationEmail(data: EmailVerificationEmailData): Promise<boolean> {
+    if (!this.isConfigured) {
+      console.log(`📧 Email not configured - would send verification email to ${data.recipientEmail}`);
+      return false;
+    }
+
+    try {
+      const mailOptions = {
+        from: `"Workplace Connect" <${process.env.EMAIL_USER}>`,
+        to: data.recipientEmail,
+        subject: 'Verify your Workplace Connect email address',
+        html: this.generateEmailVerificationTemplate(data),
+        text: this.generateEmailVerificationText(data)
+      };
+
+      if (!this.transporter) {
+        console.error('❌ Transporter is not initialized');
+        return false;
+      }
+
+      const info = await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Verification email sent to ${data.recipientEmail}:`, info.messageId);
+      return true;
+    } catch (error) {
+      console.error(`❌ Failed to send verification email to ${data.recipientEmail}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Send account unlock link after too many failed login attempts
+   */
+  async sendAccountUnlockEmail(data: AccountUnlockEmailData): Promise<boolean> {
+    if (!this.isConfigured) {
+      console.log(`📧 Email not configured - would send account unlock email to ${data.recipientEmail}`);
+      return false;
+    }
+
+    try {
+      const mailOptions = {
+        from: `"Workplace Connect" <${process.env.EMAIL_USER}>`,
+        to: data.recipientEmail,
+        subject: 'Your Workplace Connect account has been locked',
+        html: this.generateAccountUnlockEmailTemplate(data),
+        text: this.generateAccountUnlockEmailText(data)
+      };
+
+      if (!this.transporter) {
+        console.error('❌ Transporter is not initialized');
+        return false;
+      }
+
+      const info = await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Account unlock email sent to ${data.recipientEmail}:`, info.messageId);
+      return true;
+    } catch (error) {
+      console.error(`❌ Failed to send account unlock email to ${data.recipientEmail}:`, error);
+      return false;
+    }
+  }
+
   /**
    * Generate HTML email template for friend request
    */
@@ -280,6 +398,224 @@ ${process.env.FRONTEND_URL || 'http://localhost:3000'}
 
 If you have any questions or need help, feel free to reply to this email or contact our support team.
 
+---
+This email was sent by Workplace Connect. If you didn't expect this email, you can safely ignore it.
+© ${new Date().getFullYear()} Workplace Connect. All rights reserved.
+    `;
+  }
+
+  /**
+   * Generate HTML email template for password reset
+   */
+  private generatePasswordResetEmailTemplate(data: PasswordResetEmailData): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Reset Your Password</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+          .button { display: inline-block; padding: 12px 24px; margin: 10px 5px; text-decoration: none; border-radius: 5px; font-weight: bold; text-align: center; }
+          .reset-btn { background-color: #667eea; color: white; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>🔑 Reset Your Password</h1>
+        </div>
+        <div class="content">
+          <p>Hi <strong>${data.recipientName}</strong>,</p>
+          
+          <p>We received a request to reset the password of your <strong>Workplace Connect</strong> account.</p>
+          
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${data.resetUrl}" class="button reset-btn">
+              Reset Password
+            </a>
+          </div>
+          
+          <p>This link expires in ${data.expiresInMinutes} minutes and can only be used once. Resetting your password signs you out of all devices.</p>
+          
+          <p>If you didn't request a password reset, you can safely ignore this email. Your password will not change.</p>
+        </div>
+        <div class="footer">
+          <p>This email was sent by Workplace Connect. If you didn't expect this email, you can safely ignore it.</p>
+          <p>© ${new Date().getFullYear()} Workplace Connect. All rights reserved.</p>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Generate plain text email for password reset
+   */
+  private generatePasswordResetEmailText(data: PasswordResetEmailData): string {
+    return `
+Reset Your Password - Workplace Connect
+
+Hi ${data.recipientName},
+
+We received a request to reset the password of your Workplace Connect account.
+
+Reset your password here:
+${data.resetUrl}
+
+This link expires in ${data.expiresInMinutes} minutes and can only be used once. Resetting your password signs you out of all devices.
+
+If you didn't request a password reset, you can safely ignore this email. Your password will not change.
+
+---
+This email was sent by Workplace Connect. If you didn't expect this email, you can safely ignore it.
+© ${new Date().getFullYear()} Workplace Connect. All rights reserved.
+    `;
+  }
+
+  /**
+   * Generate HTML email template for email verification
+   */
+  private generateEmailVerificationTemplate(data: EmailVerificationEmailData): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Verify Your Email Address</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+          .button { display: inline-block; padding: 12px 24px; margin: 10px 5px; text-decoration: none; border-radius: 5px; font-weight: bold; text-align: center; }
+          .verify-btn { background-color: #28a745; color: white; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>✉️ Verify Your Email Address</h1>
+        </div>
+        <div class="content">
+          <p>Hi <strong>${data.recipientName}</strong>,</p>
+          
+          <p>Please confirm that <strong>${data.recipientEmail}</strong> is your email address to finish setting up your <strong>Workplace Connect</strong> account.</p>
+          
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${data.verificationUrl}" class="button verify-btn">
+              Verify Email Address
+            </a>
+          </div>
+          
+          <p>This link expires in ${data.expiresInMinutes} minutes. You can request a new link from your account at any time.</p>
+          
+          <p>If you didn't create a Workplace Connect account, you can safely ignore this email.</p>
+        </div>
+        <div class="footer">
+          <p>This email was sent by Workplace Connect. If you didn't expect this email, you can safely ignore it.</p>
+          <p>© ${new Date().getFullYear()} Workplace Connect. All rights reserved.</p>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Generate plain text email for email verification
+   */
+  private generateEmailVerificationText(data: EmailVerificationEmailData): string {
+    return `
+Verify Your Email Address - Workplace Connect
+
+Hi ${data.recipientName},
+
+Please confirm that ${data.recipientEmail} is your email address to finish setting up your Workplace Connect account.
+
+Verify your email address here:
+${data.verificationUrl}
+
+This link expires in ${data.expiresInMinutes} minutes. You can request a new link from your account at any time.
+
+If you didn't create a Workplace Connect account, you can safely ignore this email.
+
+---
+This email was sent by Workplace Connect. If you didn't expect this email, you can safely ignore it.
+© ${new Date().getFullYear()} Workplace Connect. All rights reserved.
+    `;
+  }
+
+  /**
+   * Generate HTML email template for account unlock
+   */
+  private generateAccountUnlockEmailTemplate(data: AccountUnlockEmailData): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Account Locked</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+          .button { display: inline-block; padding: 12px 24px; margin: 10px 5px; text-decoration: none; border-radius: 5px; font-weight: bold; text-align: center; }
+          .unlock-btn { background-color: #007bff; color: white; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>🔒 Account Locked</h1>
+        </div>
+        <div class="content">
+          <p>Hi <strong>${data.recipientName}</strong>,</p>
+          
+          <p>We noticed several failed sign-in attempts on your <strong>Workplace Connect</strong> account, so we have locked it for ${data.lockoutMinutes} minutes.</p>
+          
+          <p>If this was you, you can unlock your account right away:</p>
+          
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${data.unlockUrl}" class="button unlock-btn">
+              Unlock My Account
+            </a>
+          </div>
+          
+          <p>This link expires in ${data.expiresInMinutes} minutes.</p>
+          
+          <p>If this wasn't you, someone may be trying to guess your password. We recommend resetting your password and enabling two-factor authentication.</p>
+        </div>
+        <div class="footer">
+          <p>This email was sent by Workplace Connect. If you didn't expect this email, you can safely ignore it.</p>
+          <p>© ${new Date().getFullYear()} Workplace Connect. All rights reserved.</p>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Generate plain text email for account unlock
+   */
+  private generateAccountUnlockEmailText(data: AccountUnlockEmailData): string {
+    return `
+Account Locked - Workplace Connect
+
+Hi ${data.recipientName},
+
+We noticed several failed sign-in attempts on your Workplace Connect account, so we have locked it for ${data.lockoutMinutes} minutes.
+
+If this was you, you can unlock your account right away:
+${data.unlockUrl}
+
+This link expires in ${data.expiresInMinutes} minutes.
+
+If this wasn't you, someone may be trying to guess your password. We recommend resetting your password and enabling two-factor authentication.
+
 ---
 This email was sent by Workplace Connect. If you didn't expect this email, you can safely ignore it.
 © ${new Date().getFullYear()} Workplace Connect. All rights reserved.
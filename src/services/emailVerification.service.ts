@@ -0,0 +1,52 @@
+import User, { IUser } from '../models/user.model';
+import { authTokenService } from './authToken.service';
+import { emailService } from './email.service';
+
+/**
+ * Whether unverified accounts are blocked from messaging and friend requests
+ */
+export const isEmailVerificationRequired = (): boolean => {
+  return process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+};
+
+export class EmailVerificationService {
+  /**
+   * Issue a verification token and email the link to the user
+   */
+  async sendVerification(user: IUser): Promise<boolean> {
+    const expiresInMinutes = parseInt(process.env.EMAIL_VERIFICATION_TOKEN_EXPIRES_MINUTES || '1440', 10);
+    const token = await authTokenService.issueToken(user._id.toString(), 'email_verification', expiresInMinutes);
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+    return await emailService.sendEmailVerificationEmail({
+      recipientName: `${user.firstName} ${user.lastName}`,
+      recipientEmail: user.email,
+      verificationUrl: `${frontendUrl}/verify-email?token=${encodeURIComponent(token)}`,
+      expiresInMinutes
+    });
+  }
+
+  /**
+   * Verify the email address bound to a verification token
+   */
+  async verifyEmail(token: string): Promise<IUser> {
+    const verificationToken = await authTokenService.consumeToken(token, 'email_verification');
+    if (!verificationToken) {
+      throw new Error('Invalid or expired verification token');
+    }
+
+    const user = await User.findByIdAndUpdate(
+      verificationToken.user,
+      { $set: { emailVerified: true, emailVerifiedAt: new Date() } },
+      { new: true }
+    ).select('-password');
+
+    if (!user) {
+      throw new Error('Invalid or expired verification token');
+    }
+
+    return user;
+  }
+}
+
+export const emailVerificationService = new EmailVerificationService();
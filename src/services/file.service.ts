@@ -0,0 +1,182 @@
+import fs from 'fs';
+import mongoose from 'mongoose';
+import File, { IFile } from '../models/file.model';
+import {
+  deleteFile,
+  discardUploadedFile,
+  hashFile,
+  readFileHeader,
+  saveUploadedFile,
+  UploadedFile
+} from '../utils/fileUpload.util';
+import { MIME_SNIFF_BYTES, sniffMimeType } from '../utils/mimeSniff.util';
+
+export interface StorageUsage {
+  used: number;
+  /** Null when unlimited */
+  quota: number | null;
+  remaining: number | null;
+  fileCount: number;
+}
+
+/**
+ * Stored files: content hashing, deduplication, reference counting and storage quotas
+ */
+export class FileService {
+  /** Per-user quota in bytes, 0 for unlimited */
+  private get userQuotaBytes(): number {
+    return parseInt(process.env.STORAGE_QUOTA_USER_MB || '1024', 10) * 1024 * 1024;
+  }
+
+  /** Per-workspace quota in bytes, 0 for unlimited */
+  private get workspaceQuotaBytes(): number {
+    return parseInt(process.env.STORAGE_QUOTA_WORKSPACE_MB || '10240', 10) * 1024 * 1024;
+  }
+
+  private async getUsedBytes(match: Record<string, unknown>): Promise<{ used: number; fileCount: number }> {
+    const [totals] = await File.aggregate<{ used: number; fileCount: number }>([
+      { $match: match },
+      { $group: { _id: null, used: { $sum: '$size' }, fileCount: { $sum: 1 } } }
+    ]);
+
+    return { used: totals?.used ?? 0, fileCount: totals?.fileCount ?? 0 };
+  }
+
+  private toUsage(used: number, fileCount: number, quota: number): StorageUsage {
+    return {
+      used,
+      quota: quota > 0 ? quota : null,
+      remaining: quota > 0 ? Math.max(quota - used, 0) : null,
+      fileCount
+    };
+  }
+
+  /**
+   * Check that storing more bytes keeps the owner and workspace within their quotas
+   * @throws Error('Storage quota exceeded ...') otherwise
+   */
+  async checkQuota(
+    ownerId: mongoose.Types.ObjectId,
+    workspaceId: mongoose.Types.ObjectId | undefined,
+    size: number
+  ): Promise<void> {
+    const userQuota = this.userQuotaBytes;
+    if (userQuota > 0 && (await this.getUsedBytes({ owner: ownerId })).used + size > userQuota) {
+      throw new Error('Storage quota exceeded for your account');
+    }
+
+    const workspaceQuota = this.workspaceQuotaBytes;
+    if (workspaceId && workspaceQuota > 0 && (await this.getUsedBytes({ workspace: workspaceId })).used + size > workspaceQuota) {
+      throw new Error('Storage quota exceeded for this workspace');
+    }
+  }
+
+  /**
+   * Store an uploaded file for its owner
+   * The MIME type is detected from the content; content the owner already stored in the workspace
+   * is not stored again, the existing file gains a reference instead
+   * @param workspaceId - Workspace charged for the file, none for profile pictures
+   * @param variants - Image variants generated next to the upload
+   * @returns The stored file, whose name may differ from the upload's when it was deduplicated
+   */
+  async storeUploadedFile(
+    ownerId: mongoose.Types.ObjectId,
+    workspaceId: mongoose.Types.ObjectId | undefined,
+    file: UploadedFile,
+    variants: string[] = []
+  ): Promise<IFile> {
+    // Images were re-encoded while processing, so measure what is actually stored
+    const { size } = await fs.promises.stat(file.path);
+    const header = await readFileHeader(file.path, MIME_SNIFF_BYTES);
+
+    const mimeType = sniffMimeType(header, file.mimetype, size <= MIME_SNIFF_BYTES);
+    if (!mimeType) {
+      throw new Error('File content does not match its type');
+    }
+
+    const hash = await hashFile(file.path);
+    const scope = { owner: ownerId, workspace: workspaceId ?? null, hash };
+
+    const existing = await File.findOneAndUpdate(scope, { $inc: { refCount: 1 } }, { new: true });
+    if (existing) {
+      await discardUploadedFile(file);
+      return existing;
+    }
+
+    await this.checkQuota(ownerId, workspaceId, size);
+    await saveUploadedFile(file, variants, mimeType);
+
+    try {
+      return await File.create({
+        owner: ownerId,
+        workspace: workspaceId,
+        filename: file.filename,
+        hash,
+        size,
+        mimeType
+      });
+    } catch (error) {
+      // The same content was stored concurrently; keep that copy
+      if ((error as { code?: number }).code === 11000) {
+        await deleteFile(file.filename);
+        const stored = await File.findOneAndUpdate(scope, { $inc: { refCount: 1 } }, { new: true });
+        if (stored) {
+          return stored;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Drop a reference to a stored file, deleting it once nothing uses it
+   * Files stored before they were tracked are deleted directly
+   * @returns True if the file was deleted
+   */
+  async releaseFile(filename: string): Promise<boolean> {
+    const file = await File.findOneAndUpdate({ filename }, { $inc: { refCount: -1 } }, { new: true });
+    if (!file) {
+      return await deleteFile(filename);
+    }
+
+    if (file.refCount > 0) {
+      return false;
+    }
+
+    // Only delete if no new reference was added in the meantime
+    const removed = await File.findOneAndDelete({ _id: file._id, refCount: { $lte: 0 } });
+    if (!removed) {
+      return false;
+    }
+
+    await deleteFile(filename);
+    return true;
+  }
+
+  /**
+   * Find the tracked file stored under a name
+   */
+  async getByFilename(filename: string): Promise<IFile | null> {
+    return await File.findOne({ filename });
+  }
+
+  /**
+   * Get the storage used by a user and by their current workspace
+   */
+  async getUsage(
+    userId: mongoose.Types.ObjectId,
+    workspaceId: mongoose.Types.ObjectId
+  ): Promise<{ user: StorageUsage; workspace: StorageUsage }> {
+    const [userTotals, workspaceTotals] = await Promise.all([
+      this.getUsedBytes({ owner: userId }),
+      this.getUsedBytes({ workspace: workspaceId })
+    ]);
+
+    return {
+      user: this.toUsage(userTotals.used, userTotals.fileCount, this.userQuotaBytes),
+      workspace: this.toUsage(workspaceTotals.used, workspaceTotals.fileCount, this.workspaceQuotaBytes)
+    };
+  }
+}
+
+export const fileService = new FileService();
@@ -0,0 +1,276 @@
+import fs from 'fs';
+import path from 'path';
+import File from '../models/file.model';
+import Attachment from '../models/attachment.model';
+import Message from '../models/message.model';
+import User from '../models/user.model';
+import UploadSession from '../models/uploadSession.model';
+import { getStorage } from './storage.service';
+import { attachmentService } from './attachment.service';
+import { ALLOWED_FILE_EXTENSIONS, getUploadTmpDir } from '../utils/fileUpload.util';
+
+const QUARANTINE_PREFIX = 'quarantine/';
+
+export interface FileGcEntry {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface FileGcAttachmentEntry {
+  attachmentId: string;
+  filename: string;
+  size: number;
+  uploadedAt: Date;
+}
+
+export interface FileGcReport {
+  dryRun: boolean;
+  startedAt: Date;
+  finishedAt: Date;
+  /** Files checked in storage, quarantine included */
+  scanned: number;
+  /** Unreferenced files moved to quarantine */
+  quarantined: FileGcEntry[];
+  /** Quarantined files that are referenced again and were moved back */
+  restored: FileGcEntry[];
+  /** Quarantined files deleted after the grace period */
+  deleted: FileGcEntry[];
+  /** Leftover files of failed uploads removed from the upload directory */
+  tempFilesDeleted: FileGcEntry[];
+  /** Attachments never sent in a message, deleted with their file references */
+  attachmentsCollected: FileGcAttachmentEntry[];
+}
+
+/**
+ * Stored files share the UUID of their original: "<uuid>.<ext>", "<uuid>.webp", "<uuid>_256.png"
+ */
+const getFileStem = (key: string): string => path.basename(key).split('.')[0].replace(/_\d+$/, '');
+
+/**
+ * Garbage collection of stored files that nothing in the database references
+ * Orphans are first moved to quarantine, and only deleted once they stayed unreferenced for the grace period
+ */
+export class FileGcService {
+  private running = false;
+
+  /** Unreferenced files younger than this may belong to an upload in progress */
+  private get minAgeMs(): number {
+    return parseInt(process.env.FILE_GC_MIN_AGE_HOURS || '1', 10) * 60 * 60 * 1000;
+  }
+
+  /** Time an uploaded attachment may wait to be sent in a message */
+  private get unsentAttachmentMaxAgeMs(): number {
+    return parseInt(process.env.FILE_GC_UNSENT_ATTACHMENT_HOURS || '24', 10) * 60 * 60 * 1000;
+  }
+
+  /** Time an orphan stays in quarantine before it is deleted */
+  private get gracePeriodMs(): number {
+    return parseInt(process.env.FILE_GC_GRACE_DAYS || '7', 10) * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Delete attachments that were uploaded but not sent in a message within the allowed time
+   * Their file references are released, so the files are deleted once nothing else uses them
+   */
+  private async collectUnsentAttachments(dryRun: boolean, unsentCutoff: Date): Promise<FileGcAttachmentEntry[]> {
+    const candidates = await Attachment.find({ createdAt: { $lt: unsentCutoff } }).select('filename size createdAt');
+    const sent = new Set((await Message.distinct('attachments.attachment', {
+      'attachments.attachment': { $in: candidates.map(attachment => attachment._id) }
+    })).map(attachmentId => attachmentId.toString()));
+
+    const unsent = candidates.filter(attachment => !sent.has(attachment._id.toString()));
+    if (!dryRun) {
+      await attachmentService.releaseUnusedAttachments(unsent.map(attachment => attachment._id));
+    }
+
+    return unsent.map(attachment => ({
+      attachmentId: attachment._id.toString(),
+      filename: attachment.filename,
+      size: attachment.size,
+      uploadedAt: attachment.createdAt
+    }));
+  }
+
+  /**
+   * Collect the stems of every file referenced by tracked files, sent or recent attachments, and profile pictures
+   * Attachments count through their messages; unsent ones only until they are collected
+   */
+  private async getReferencedStems(unsentCutoff: Date): Promise<Set<string>> {
+    const [files, attachments, messageAttachments, profilePictures] = await Promise.all([
+      File.distinct('filename', { refCount: { $gt: 0 } }),
+      Attachment.distinct('filename', { createdAt: { $gte: unsentCutoff } }),
+      Message.distinct('attachments.filename'),
+      User.distinct('profilePictureMetadata.filename')
+    ]);
+
+    return new Set(
+      [...files, ...attachments, ...messageAttachments, ...profilePictures]
+        .filter((filename): filename is string => typeof filename === 'string' && filename !== '')
+        .map(getFileStem)
+    );
+  }
+
+  /**
+   * Check a single stem again right before acting on it, in case it was referenced since the scan started
+   */
+  private async isStemReferenced(stem: string, unsentCutoff: Date): Promise<boolean> {
+    const filenames = ALLOWED_FILE_EXTENSIONS.map(extension => `${stem}${extension}`);
+
+    const references = await Promise.all([
+      File.exists({ filename: { $in: filenames }, refCount: { $gt: 0 } }),
+      Attachment.exists({ filename: { $in: filenames }, createdAt: { $gte: unsentCutoff } }),
+      Message.exists({ 'attachments.filename': { $in: filenames } }),
+      User.exists({ 'profilePictureMetadata.filename': { $in: filenames } })
+    ]);
+
+    return references.some(Boolean);
+  }
+
+  /**
+   * Remove files left in the upload directory by uploads that failed or were interrupted
+   */
+  private async sweepUploadDirectory(dryRun: boolean, now: number): Promise<FileGcEntry[]> {
+    const uploadDir = getUploadTmpDir();
+    const activeUploads = new Set((await UploadSession.distinct('filename')).map(getFileStem));
+    const removed: FileGcEntry[] = [];
+
+    for (const name of await fs.promises.readdir(uploadDir)) {
+      if (activeUploads.has(getFileStem(name))) {
+        continue;
+      }
+
+      const stats = await fs.promises.stat(path.join(uploadDir, name)).catch(() => null);
+      if (!stats?.isFile() || now - stats.mtime.getTime() < this.minAgeMs) {
+        continue;
+      }
+
+      if (!dryRun) {
+        await fs.promises.rm(path.join(uploadDir, name), { force: true });
+      }
+      removed.push({ key: name, size: stats.size, lastModified: stats.mtime });
+    }
+
+    return removed;
+  }
+
+  /**
+   * Reconcile storage with the database
+   * Attachments never sent are collected, unreferenced files are quarantined, quarantined files past
+   * the grace period are deleted, and quarantined files that are referenced again are restored
+   * @param dryRun - Only report what would be done
+   */
+  async sweep(dryRun: boolean = false): Promise<FileGcReport> {
+    if (this.running) {
+      throw new Error('File garbage collection is already running');
+    }
+
+    this.running = true;
+    const startedAt = new Date();
+    const now = startedAt.getTime();
+    const storage = getStorage();
+    const report: FileGcReport = {
+      dryRun,
+      startedAt,
+      finishedAt: startedAt,
+      scanned: 0,
+      quarantined: [],
+      restored: [],
+      deleted: [],
+      tempFilesDeleted: [],
+      attachmentsCollected: []
+    };
+
+    try {
+      const unsentCutoff = new Date(now - this.unsentAttachmentMaxAgeMs);
+      report.attachmentsCollected = await this.collectUnsentAttachments(dryRun, unsentCutoff);
+
+      const referenced = await this.getReferencedStems(unsentCutoff);
+      const stemChecks = new Map<string, boolean>();
+      const isReferenced = async (stem: string): Promise<boolean> => {
+        if (referenced.has(stem)) {
+          return true;
+        }
+        if (!stemChecks.has(stem)) {
+          stemChecks.set(stem, await this.isStemReferenced(stem, unsentCutoff));
+        }
+        return stemChecks.get(stem)!;
+      };
+
+      const stored = await storage.list();
+      report.scanned += stored.length;
+
+      for (const file of stored) {
+        if (now - file.lastModified.getTime() < this.minAgeMs || await isReferenced(getFileStem(file.key))) {
+          continue;
+        }
+
+        if (!dryRun) {
+          // Tracked files nobody uses any more (refCount 0) are dropped with their content
+          await File.deleteOne({ filename: file.key, refCount: { $lte: 0 } });
+          const moved = await storage.move(file.key, `${QUARANTINE_PREFIX}${file.key}`).then(() => true, (error: Error) => {
+            // Deleted since it was listed
+            if (error.message === 'File not found') {
+              return false;
+            }
+            throw error;
+          });
+          if (!moved) {
+            continue;
+          }
+        }
+        report.quarantined.push(file);
+      }
+
+      const quarantined = await storage.list(QUARANTINE_PREFIX);
+      report.scanned += quarantined.length;
+
+      for (const file of quarantined) {
+        const key = file.key.slice(QUARANTINE_PREFIX.length);
+
+        if (await isReferenced(getFileStem(key))) {
+          if (!dryRun) {
+            await storage.move(file.key, key);
+          }
+          report.restored.push({ ...file, key });
+        } else if (now - file.lastModified.getTime() >= this.gracePeriodMs) {
+          if (!dryRun) {
+            await storage.delete(file.key);
+          }
+          report.deleted.push({ ...file, key });
+        }
+      }
+
+      report.tempFilesDeleted = await this.sweepUploadDirectory(dryRun, now);
+      report.finishedAt = new Date();
+      return report;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Periodically run the sweep; FILE_GC_INTERVAL_HOURS=0 disables it
+   */
+  startSweepTimer(): void {
+    const intervalHours = parseInt(process.env.FILE_GC_INTERVAL_HOURS || '24', 10);
+    if (intervalHours <= 0) {
+      return;
+    }
+
+    setInterval(() => {
+      this.sweep()
+        .then(report => {
+          if (report.quarantined.length || report.deleted.length || report.restored.length ||
+              report.tempFilesDeleted.length || report.attachmentsCollected.length) {
+            console.log(`🧹 File GC | quarantined: ${report.quarantined.length} | deleted: ${report.deleted.length} | ` +
+              `restored: ${report.restored.length} | temp files: ${report.tempFilesDeleted.length} | ` +
+              `unsent attachments: ${report.attachmentsCollected.length}`);
+          }
+        })
+        .catch(error => console.error('Error collecting orphaned files:', error));
+    }, intervalHours * 60 * 60 * 1000).unref();
+  }
+}
+
+export const fileGcService = new FileGcService();
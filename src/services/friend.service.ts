@@ -0,0 +1,180 @@
+import mongoose from 'mongoose';
+import FriendRequest, { IFriendRequest } from '../models/friendRequest.model';
+import User, { IUser } from '../models/user.model';
+import { workspaceService } from './workspace.service';
+import { getRerequestAvailableAt } from './friendRequest.service';
+import { blockService } from './block.service';
+
+export type RelationshipStatus = 'none' | 'pending-out' | 'pending-in' | 'friends' | 'blocked';
+
+export interface Friend {
+  user: IUser;
+  friendRequestId: mongoose.Types.ObjectId;
+  friendsSince: Date;
+}
+
+export interface FriendListResult {
+  friends: Friend[];
+  totalCount: number;
+}
+
+export interface Relationship {
+  status: RelationshipStatus;
+  friendRequestId?: mongoose.Types.ObjectId;
+  /** Whether the current user placed the block, when status is 'blocked' */
+  blockedByMe?: boolean;
+  /** When a new friend request may be sent, if a cooldown applies */
+  canRequestAt?: Date;
+}
+
+const FRIEND_FIELDS = 'firstName lastName email profilePicture';
+
+export class FriendService {
+  /**
+   * Get the accepted friendships of a user in a workspace
+   */
+  private async getFriendships(
+    workspaceId: mongoose.Types.ObjectId | string,
+    userId: mongoose.Types.ObjectId | string
+  ): Promise<IFriendRequest[]> {
+    return await FriendRequest.find({
+      workspace: workspaceId,
+      status: 'accepted',
+      $or: [{ sender: userId }, { recipient: userId }]
+    });
+  }
+
+  /**
+   * List a user's friends, optionally filtered by name or email
+   * @returns One page of friends sorted by first and last name, with the total count
+   */
+  async listFriends(
+    workspaceId: mongoose.Types.ObjectId | string,
+    userId: mongoose.Types.ObjectId | string,
+    page: number = 1,
+    limit: number = 20,
+    search?: string
+  ): Promise<FriendListResult> {
+    const friendships = await this.getFriendships(workspaceId, userId);
+
+    // Map each friend to the friendship that connects them to the user
+    const friendshipByUser = new Map<string, IFriendRequest>();
+    for (const friendship of friendships) {
+      const friendId = friendship.sender.toString() === userId.toString()
+        ? friendship.recipient
+        : friendship.sender;
+      friendshipByUser.set(friendId.toString(), friendship);
+    }
+
+    // Friends who left the workspace are no longer listed
+    const memberIds = new Set((await workspaceService.getMemberIds(workspaceId)).map(id => id.toString()));
+    const friendIds = [...friendshipByUser.keys()].filter(id => memberIds.has(id));
+
+    let filter: any = { _id: { $in: friendIds } };
+    if (search) {
+      filter = {
+        ...filter,
+        $or: [
+          { firstName: { $regex: search, $options: 'i' } },
+          { lastName: { $regex: search, $options: 'i' } },
+          { email: { $regex: search, $options: 'i' } }
+        ]
+      };
+    }
+
+    const [users, totalCount] = await Promise.all([
+      User.find(filter)
+        .select(FRIEND_FIELDS)
+        .sort({ firstName: 1, lastName: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      User.countDocuments(filter)
+    ]);
+
+    const friends = users.map(user => {
+      const friendship = friendshipByUser.get(user._id.toString())!;
+      return {
+        user,
+        friendRequestId: friendship._id,
+        friendsSince: friendship.respondedAt || friendship.updatedAt
+      };
+    });
+
+    return { friends, totalCount };
+  }
+
+  /**
+   * End an accepted friendship
+   * The pair is kept with status 'removed' so the re-request cooldown can apply
+   */
+  async removeFriend(
+    workspaceId: mongoose.Types.ObjectId | string,
+    userId: mongoose.Types.ObjectId | string,
+    friendId: mongoose.Types.ObjectId | string
+  ): Promise<IFriendRequest> {
+    const friendship = await FriendRequest.findOneAndUpdate(
+      {
+        workspace: workspaceId,
+        status: 'accepted',
+        $or: [
+          { sender: userId, recipient: friendId },
+          { sender: friendId, recipient: userId }
+        ]
+      },
+      { $set: { status: 'removed', removedBy: userId, removedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!friendship) {
+      throw new Error('Friend not found');
+    }
+
+    return friendship;
+  }
+
+  /**
+   * Describe the relationship between the current user and another workspace member
+   */
+  async getRelationshipStatus(
+    workspaceId: mongoose.Types.ObjectId | string,
+    userId: mongoose.Types.ObjectId | string,
+    otherUserId: mongoose.Types.ObjectId | string
+  ): Promise<Relationship> {
+    if (!(await workspaceService.isMember(workspaceId, otherUserId))) {
+      throw new Error('User not found');
+    }
+
+    if (await blockService.isBlockedBetween(userId, otherUserId)) {
+      return { status: 'blocked', blockedByMe: await blockService.hasBlocked(userId, otherUserId) };
+    }
+
+    const friendRequest = await FriendRequest.findOne({
+      workspace: workspaceId,
+      $or: [
+        { sender: userId, recipient: otherUserId },
+        { sender: otherUserId, recipient: userId }
+      ]
+    });
+
+    if (!friendRequest) {
+      return { status: 'none' };
+    }
+
+    if (friendRequest.status === 'accepted') {
+      return { status: 'friends', friendRequestId: friendRequest._id };
+    }
+
+    if (friendRequest.status === 'pending') {
+      const isSender = friendRequest.sender.toString() === userId.toString();
+      return { status: isSender ? 'pending-out' : 'pending-in', friendRequestId: friendRequest._id };
+    }
+
+    // Rejected or removed: no relationship, but a cooldown may still apply
+    const availableAt = getRerequestAvailableAt(friendRequest, userId);
+    return availableAt && availableAt > new Date()
+      ? { status: 'none', canRequestAt: availableAt }
+      : { status: 'none' };
+  }
+}
+
+export const friendService = new FriendService();
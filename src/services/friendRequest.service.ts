@@ -3,6 +3,36 @@ import FriendRequest, { IFriendRequest } from '../models/friendRequest.model';
 import User from '../models/user.model';
 import { NotificationRepository } from '../repositories/notification.repository';
 import { emailService } from './email.service';
+import { workspaceService } from './workspace.service';
+import { blockService } from './block.service';
+
+const getRequestCooldownDays = (): number => parseInt(process.env.FRIEND_REQUEST_COOLDOWN_DAYS || '7', 10);
+
+/**
+ * Work out when a user may request friendship again after a rejection or unfriend
+ * Only the side that was rejected or removed has to wait for the cooldown
+ * @param friendRequest - Previous request between the two users
+ * @param userId - User who wants to send a new request
+ * @returns The time the cooldown ends, or null if the user may request right away
+ */
+export const getRerequestAvailableAt = (
+  friendRequest: IFriendRequest,
+  userId: mongoose.Types.ObjectId | string
+): Date | null => {
+  const cooldownMs = getRequestCooldownDays() * 24 * 60 * 60 * 1000;
+
+  if (friendRequest.status === 'rejected' && friendRequest.sender.toString() === userId.toString()) {
+    const rejectedAt = friendRequest.respondedAt || friendRequest.updatedAt;
+    return new Date(rejectedAt.getTime() + cooldownMs);
+  }
+
+  if (friendRequest.status === 'removed' && friendRequest.removedBy?.toString() !== userId.toString()) {
+    const removedAt = friendRequest.removedAt || friendRequest.updatedAt;
+    return new Date(removedAt.getTime() + cooldownMs);
+  }
+
+  return null;
+};
 
 export class FriendRequestService {
   private notificationRepository: NotificationRepository;
@@ -12,42 +42,78 @@ export class FriendRequestService {
   }
 
   /**
-   * Send a friend request
+   * Apply the block and re-request policies before a new request between two users
+   * Blocked, pending and accepted pairs are refused; a rejected or ended pair is cleared
+   * once the cooldown has passed so the new request can take its place
    */
-  async sendFriendRequest(senderId: mongoose.Types.ObjectId, recipientId: mongoose.Types.ObjectId): Promise<IFriendRequest> {
-    // Check if recipient exists
-    const recipient = await User.findById(recipientId);
-    if (!recipient) {
-      throw new Error('Recipient not found');
+  private async clearPreviousRequest(
+    workspaceId: mongoose.Types.ObjectId,
+    senderId: mongoose.Types.ObjectId,
+    recipientId: mongoose.Types.ObjectId
+  ): Promise<void> {
+    if (await blockService.isBlockedBetween(senderId, recipientId)) {
+      throw new Error('You cannot send a friend request to this user');
     }
 
-    // Get sender details for email
-    const sender = await User.findById(senderId);
-    if (!sender) {
-      throw new Error('Sender not found');
-    }
-
-    // Check if friend request already exists
     const existingRequest = await FriendRequest.findOne({
+      workspace: workspaceId,
       $or: [
         { sender: senderId, recipient: recipientId },
         { sender: recipientId, recipient: senderId }
       ]
     });
 
-    if (existingRequest) {
+    if (!existingRequest) {
+      return;
+    }
+
+    if (existingRequest.status === 'pending') {
       throw new Error('Friend request already exists');
     }
+    if (existingRequest.status === 'accepted') {
+      throw new Error('You are already friends with this user');
+    }
+
+    const availableAt = getRerequestAvailableAt(existingRequest, senderId);
+    if (availableAt && availableAt > new Date()) {
+      throw new Error(`You can send another friend request to this user after ${availableAt.toISOString()}`);
+    }
+
+    await FriendRequest.deleteOne({ _id: existingRequest._id });
+  }
+
+  /**
+   * Send a friend request
+   */
+  async sendFriendRequest(
+    workspaceId: mongoose.Types.ObjectId,
+    senderId: mongoose.Types.ObjectId,
+    recipientId: mongoose.Types.ObjectId
+  ): Promise<IFriendRequest> {
+    // Check if recipient exists in the same workspace
+    const recipient = await User.findById(recipientId);
+    if (!recipient || !(await workspaceService.isMember(workspaceId, recipientId))) {
+      throw new Error('Recipient not found');
+    }
+
+    // Get sender details for email
+    const sender = await User.findById(senderId);
+    if (!sender) {
+      throw new Error('Sender not found');
+    }
+
+    await this.clearPreviousRequest(workspaceId, senderId, recipientId);
 
     // Create friend request
     const friendRequest = await FriendRequest.create({
+      workspace: workspaceId,
       sender: senderId,
       recipient: recipientId,
       status: 'pending'
     });
 
     // Create notification for recipient
-    await this.notificationRepository.createFriendRequestNotification(
+    await this.notificationRepository.forWorkspace(workspaceId).createFriendRequestNotification(
       senderId,
       new mongoose.Types.ObjectId(recipientId.toString()),
       new mongoose.Types.ObjectId(friendRequest._id.toString())
@@ -67,9 +133,14 @@ export class FriendRequestService {
   /**
    * Accept a friend request
    */
-  async acceptFriendRequest(friendRequestId: mongoose.Types.ObjectId, userId: mongoose.Types.ObjectId): Promise<IFriendRequest> {
+  async acceptFriendRequest(
+    workspaceId: mongoose.Types.ObjectId,
+    friendRequestId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId
+  ): Promise<IFriendRequest> {
     const friendRequest = await FriendRequest.findOne({
       _id: friendRequestId,
+      workspace: workspaceId,
       recipient: userId,
       status: 'pending'
     });
@@ -80,16 +151,17 @@ export class FriendRequestService {
 
     // Update friend request status
     friendRequest.status = 'accepted';
+    friendRequest.respondedAt = new Date();
     await friendRequest.save();
 
     // Create notification for sender
-    await this.notificationRepository.createFriendAcceptedNotification(
+    await this.notificationRepository.forWorkspace(workspaceId).createFriendAcceptedNotification(
       userId,
       friendRequest.sender
     );
 
     // Delete the original friend request notification
-    await this.notificationRepository.deleteFriendRequestNotifications(friendRequestId);
+    await this.notificationRepository.forWorkspace(workspaceId).deleteFriendRequestNotifications(friendRequestId);
 
     return friendRequest;
   }
@@ -97,9 +169,14 @@ export class FriendRequestService {
   /**
    * Reject a friend request
    */
-  async rejectFriendRequest(friendRequestId: mongoose.Types.ObjectId, userId: mongoose.Types.ObjectId): Promise<IFriendRequest> {
+  async rejectFriendRequest(
+    workspaceId: mongoose.Types.ObjectId,
+    friendRequestId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId
+  ): Promise<IFriendRequest> {
     const friendRequest = await FriendRequest.findOne({
       _id: friendRequestId,
+      workspace: workspaceId,
       recipient: userId,
       status: 'pending'
     });
@@ -110,16 +187,17 @@ export class FriendRequestService {
 
     // Update friend request status
     friendRequest.status = 'rejected';
+    friendRequest.respondedAt = new Date();
     await friendRequest.save();
 
     // Create notification for sender
-    await this.notificationRepository.createFriendRejectedNotification(
+    await this.notificationRepository.forWorkspace(workspaceId).createFriendRejectedNotification(
       userId,
       friendRequest.sender
     );
 
     // Delete the original friend request notification
-    await this.notificationRepository.deleteFriendRequestNotifications(friendRequestId);
+    await this.notificationRepository.forWorkspace(workspaceId).deleteFriendRequestNotifications(friendRequestId);
 
     return friendRequest;
   }
@@ -127,9 +205,14 @@ export class FriendRequestService {
   /**
    * Cancel a friend request (by sender)
    */
-  async cancelFriendRequest(friendRequestId: mongoose.Types.ObjectId, userId: mongoose.Types.ObjectId): Promise<boolean> {
+  async cancelFriendRequest(
+    workspaceId: mongoose.Types.ObjectId,
+    friendRequestId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId
+  ): Promise<boolean> {
     const friendRequest = await FriendRequest.findOne({
       _id: friendRequestId,
+      workspace: workspaceId,
       sender: userId,
       status: 'pending'
     });
@@ -142,7 +225,7 @@ export class FriendRequestService {
     await FriendRequest.deleteOne({ _id: friendRequestId });
 
     // Delete the associated notification
-    await this.notificationRepository.deleteFriendRequestNotifications(friendRequestId);
+    await this.notificationRepository.forWorkspace(workspaceId).deleteFriendRequestNotifications(friendRequestId);
 
     return true;
   }
@@ -151,11 +234,12 @@ export class FriendRequestService {
    * Get friend requests for a user
    */
   async getFriendRequests(
+    workspaceId: mongoose.Types.ObjectId,
     userId: mongoose.Types.ObjectId, 
     type: 'sent' | 'received' = 'received',
-    status: 'pending' | 'accepted' | 'rejected' = 'pending'
+    status: IFriendRequest['status'] = 'pending'
   ): Promise<IFriendRequest[]> {
-    const filter: any = { status };
+    const filter: any = { workspace: workspaceId, status };
 
     if (type === 'sent') {
       filter.sender = userId;
@@ -172,8 +256,11 @@ export class FriendRequestService {
   /**
    * Get friend request by ID
    */
-  async getFriendRequestById(friendRequestId: mongoose.Types.ObjectId): Promise<IFriendRequest | null> {
-    return await FriendRequest.findById(friendRequestId)
+  async getFriendRequestById(
+    workspaceId: mongoose.Types.ObjectId,
+    friendRequestId: mongoose.Types.ObjectId
+  ): Promise<IFriendRequest | null> {
+    return await FriendRequest.findOne({ _id: friendRequestId, workspace: workspaceId })
       .populate('senderDetails')
       .populate('recipientDetails');
   }
@@ -181,7 +268,11 @@ export class FriendRequestService {
   /**
    * Send friend requests to multiple users by email
    */
-  async sendFriendRequestsByEmail(senderId: mongoose.Types.ObjectId, emails: string[]): Promise<{
+  async sendFriendRequestsByEmail(
+    workspaceId: mongoose.Types.ObjectId,
+    senderId: mongoose.Types.ObjectId,
+    emails: string[]
+  ): Promise<{
     successful: Array<{ email: string; friendRequest: IFriendRequest } | { email: string; type: 'invitation'; message: string }>;
     failed: Array<{ email: string; reason: string }>;
   }> {
@@ -220,28 +311,24 @@ export class FriendRequestService {
           continue;
         }
 
-        // Check if friend request already exists
-        const existingRequest = await FriendRequest.findOne({
-          $or: [
-            { sender: senderId, recipient: recipient._id },
-            { sender: recipient._id, recipient: senderId }
-          ]
-        });
-
-        if (existingRequest) {
-          failed.push({ email, reason: 'Friend request already exists' });
+        // Registered users outside the workspace cannot be reached from here
+        if (!(await workspaceService.isMember(workspaceId, recipient._id.toString()))) {
+          failed.push({ email, reason: 'User is not a member of this workspace' });
           continue;
         }
 
+        await this.clearPreviousRequest(workspaceId, senderId, new mongoose.Types.ObjectId(recipient._id.toString()));
+
         // Create friend request
         const friendRequest = await FriendRequest.create({
+          workspace: workspaceId,
           sender: senderId,
           recipient: recipient._id,
           status: 'pending'
         });
 
         // Create notification for recipient
-        await this.notificationRepository.createFriendRequestNotification(
+        await this.notificationRepository.forWorkspace(workspaceId).createFriendRequestNotification(
           senderId,
           new mongoose.Types.ObjectId(recipient._id.toString()),
           new mongoose.Types.ObjectId(friendRequest._id.toString())
@@ -1,12 +1,14 @@
 import mongoose from 'mongoose';
 import Group, { IGroup } from '../models/group.model';
 import User from '../models/user.model';
+import { workspaceService } from './workspace.service';
 
 export class GroupService {
   /**
    * Create a new group with email-based member invitations
    */
   async createGroup(
+    workspaceId: mongoose.Types.ObjectId,
     creatorId: mongoose.Types.ObjectId, 
     name: string | undefined, 
     description: string | undefined, 
@@ -28,6 +30,11 @@ export class GroupService {
     // Generate group name if not provided
     const groupName = name || `Group by ${creator.firstName} ${creator.lastName}`;
 
+    // Only people in the same workspace can be invited
+    const workspaceMemberIds = new Set(
+      (await workspaceService.getMemberIds(workspaceId)).map(id => id.toString())
+    );
+
     // Find users by email
     const memberIds: mongoose.Types.ObjectId[] = [creatorId]; // Always include creator
 
@@ -46,6 +53,11 @@ export class GroupService {
           continue;
         }
 
+        if (!workspaceMemberIds.has(user._id.toString())) {
+          failed.push({ email, reason: 'User is not a member of this workspace' });
+          continue;
+        }
+
         // Check if user is already in the list
         if (memberIds.some(id => id.toString() === user._id.toString())) {
           failed.push({ email, reason: 'User already added to group' });
@@ -61,6 +73,7 @@ export class GroupService {
 
     // Create the group
     const group = await Group.create({
+      workspace: workspaceId,
       name: groupName,
       description: description || '',
       creator: creatorId,
@@ -74,8 +87,8 @@ export class GroupService {
   /**
    * Get group by ID with populated members
    */
-  async getGroupById(groupId: mongoose.Types.ObjectId): Promise<IGroup | null> {
-    return await Group.findById(groupId)
+  async getGroupById(workspaceId: mongoose.Types.ObjectId, groupId: mongoose.Types.ObjectId): Promise<IGroup | null> {
+    return await Group.findOne({ _id: groupId, workspace: workspaceId })
       .populate('creator', 'firstName lastName email profilePictureUrl')
       .populate('members', 'firstName lastName email profilePictureUrl')
       .populate('admins', 'firstName lastName email profilePictureUrl');
@@ -84,8 +97,9 @@ export class GroupService {
   /**
    * Get all groups for a user
    */
-  async getUserGroups(userId: mongoose.Types.ObjectId): Promise<IGroup[]> {
+  async getUserGroups(workspaceId: mongoose.Types.ObjectId, userId: mongoose.Types.ObjectId): Promise<IGroup[]> {
     return await Group.find({
+      workspace: workspaceId,
       members: userId
     })
       .populate('creator', 'firstName lastName email profilePictureUrl')
@@ -97,12 +111,13 @@ export class GroupService {
    * Update group information
    */
   async updateGroup(
+    workspaceId: mongoose.Types.ObjectId,
     groupId: mongoose.Types.ObjectId,
     userId: mongoose.Types.ObjectId,
     updates: { name?: string; description?: string }
   ): Promise<IGroup | null> {
     // Check if user is admin of the group
-    const group = await Group.findById(groupId);
+    const group = await Group.findOne({ _id: groupId, workspace: workspaceId });
     if (!group) {
       throw new Error('Group not found');
     }
@@ -125,6 +140,7 @@ export class GroupService {
    * Add members to group by email
    */
   async addMembersByEmail(
+    workspaceId: mongoose.Types.ObjectId,
     groupId: mongoose.Types.ObjectId,
     userId: mongoose.Types.ObjectId,
     emails: string[]
@@ -136,7 +152,7 @@ export class GroupService {
     const failed: Array<{ email: string; reason: string }> = [];
 
     // Check if user is admin of the group
-    const group = await Group.findById(groupId);
+    const group = await Group.findOne({ _id: groupId, workspace: workspaceId });
     if (!group) {
       throw new Error('Group not found');
     }
@@ -145,6 +161,11 @@ export class GroupService {
       throw new Error('Only group admins can add members');
     }
 
+    // Only people in the same workspace can be added
+    const workspaceMemberIds = new Set(
+      (await workspaceService.getMemberIds(workspaceId)).map(id => id.toString())
+    );
+
     for (const email of emails) {
       try {
         // Find user by email
@@ -154,6 +175,11 @@ export class GroupService {
           continue;
         }
 
+        if (!workspaceMemberIds.has(user._id.toString())) {
+          failed.push({ email, reason: 'User is not a member of this workspace' });
+          continue;
+        }
+
         // Check if user is already a member
         if (group.members.includes(new mongoose.Types.ObjectId(user._id.toString()))) {
           failed.push({ email, reason: 'User is already a member of this group' });
@@ -178,11 +204,12 @@ export class GroupService {
    * Remove member from group
    */
   async removeMember(
+    workspaceId: mongoose.Types.ObjectId,
     groupId: mongoose.Types.ObjectId,
     userId: mongoose.Types.ObjectId,
     memberIdToRemove: mongoose.Types.ObjectId
   ): Promise<IGroup | null> {
-    const group = await Group.findById(groupId);
+    const group = await Group.findOne({ _id: groupId, workspace: workspaceId });
     if (!group) {
       throw new Error('Group not found');
     }
@@ -206,14 +233,18 @@ export class GroupService {
 
     await group.save();
 
-    return await this.getGroupById(groupId);
+    return await this.getGroupById(workspaceId, groupId);
   }
 
   /**
    * Delete group
    */
-  async deleteGroup(groupId: mongoose.Types.ObjectId, userId: mongoose.Types.ObjectId): Promise<void> {
-    const group = await Group.findById(groupId);
+  async deleteGroup(
+    workspaceId: mongoose.Types.ObjectId,
+    groupId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId
+  ): Promise<void> {
+    const group = await Group.findOne({ _id: groupId, workspace: workspaceId });
     if (!group) {
       throw new Error('Group not found');
     }
@@ -230,11 +261,12 @@ export class GroupService {
    * Make user admin
    */
   async makeAdmin(
+    workspaceId: mongoose.Types.ObjectId,
     groupId: mongoose.Types.ObjectId,
     userId: mongoose.Types.ObjectId,
     memberIdToPromote: mongoose.Types.ObjectId
   ): Promise<IGroup | null> {
-    const group = await Group.findById(groupId);
+    const group = await Group.findOne({ _id: groupId, workspace: workspaceId });
     if (!group) {
       throw new Error('Group not found');
     }
@@ -257,18 +289,19 @@ export class GroupService {
     group.admins.push(memberIdToPromote);
     await group.save();
 
-    return await this.getGroupById(groupId);
+    return await this.getGroupById(workspaceId, groupId);
   }
 
   /**
    * Remove admin privileges
    */
   async removeAdmin(
+    workspaceId: mongoose.Types.ObjectId,
     groupId: mongoose.Types.ObjectId,
     userId: mongoose.Types.ObjectId,
     adminIdToRemove: mongoose.Types.ObjectId
   ): Promise<IGroup | null> {
-    const group = await Group.findById(groupId);
+    const group = await Group.findOne({ _id: groupId, workspace: workspaceId });
     if (!group) {
       throw new Error('Group not found');
     }
@@ -286,6 +319,6 @@ export class GroupService {
     group.admins = group.admins.filter(id => id.toString() !== adminIdToRemove.toString());
     await group.save();
 
-    return await this.getGroupById(groupId);
+    return await this.getGroupById(workspaceId, groupId);
   }
 }
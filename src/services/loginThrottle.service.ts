@@ -0,0 +1,179 @@
+export interface LoginAttemptRecord {
+  failures: number;
+  blockedUntil?: number;
+}
+
+/**
+ * Storage for failed login attempt counters
+ * The in-memory store works for a single instance; multi-instance deployments
+ * can plug in a shared implementation (e.g. Redis) via loginThrottleService.setStore
+ */
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptRecord | null>;
+  /**
+   * Increment the failure counter, starting a new window of ttlMs if none exists
+   */
+  increment(key: string, ttlMs: number): Promise<LoginAttemptRecord>;
+  /**
+   * Block a key until the given time (epoch ms), keeping its counter
+   */
+  block(key: string, blockedUntil: number): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+interface MemoryEntry extends LoginAttemptRecord {
+  expiresAt: number;
+}
+
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private entries = new Map<string, MemoryEntry>();
+
+  constructor(cleanupIntervalMs: number = 60 * 1000) {
+    // Drop expired entries so the map does not grow with every attempted email/IP
+    setInterval(() => this.cleanup(), cleanupIntervalMs).unref();
+  }
+
+  async get(key: string): Promise<LoginAttemptRecord | null> {
+    const entry = this.getEntry(key);
+    return entry ? { failures: entry.failures, blockedUntil: entry.blockedUntil } : null;
+  }
+
+  async increment(key: string, ttlMs: number): Promise<LoginAttemptRecord> {
+    const entry = this.getEntry(key) || { failures: 0, expiresAt: Date.now() + ttlMs };
+    entry.failures += 1;
+    this.entries.set(key, entry);
+
+    return { failures: entry.failures, blockedUntil: entry.blockedUntil };
+  }
+
+  async block(key: string, blockedUntil: number): Promise<void> {
+    const entry = this.getEntry(key) || { failures: 0, expiresAt: blockedUntil };
+    entry.blockedUntil = blockedUntil;
+    entry.expiresAt = Math.max(entry.expiresAt, blockedUntil);
+    this.entries.set(key, entry);
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  private getEntry(key: string): MemoryEntry | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+export interface LoginFailureResult {
+  /** True when this failure locked the account (the unlock email should be sent) */
+  accountLocked: boolean;
+}
+
+const getMaxAccountAttempts = (): number => parseInt(process.env.LOGIN_MAX_ATTEMPTS_PER_ACCOUNT || '5', 10);
+const getMaxIpAttempts = (): number => parseInt(process.env.LOGIN_MAX_ATTEMPTS_PER_IP || '20', 10);
+const getAttemptWindowMs = (): number => parseInt(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES || '15', 10) * 60 * 1000;
+const getLockoutMs = (): number => parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10) * 60 * 1000;
+
+// Progressive delay: 1s after the 2nd failure, doubling up to 30s
+const DELAY_AFTER_FAILURES = 2;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30 * 1000;
+
+const accountKey = (email: string): string => `account:${email.trim().toLowerCase()}`;
+const ipKey = (ip: string): string => `ip:${ip}`;
+
+export class LoginThrottleService {
+  private store: LoginAttemptStore;
+
+  constructor(store: LoginAttemptStore = new MemoryLoginAttemptStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Replace the attempt store (e.g. with a shared store for multiple instances)
+   */
+  setStore(store: LoginAttemptStore): void {
+    this.store = store;
+  }
+
+  getLockoutMinutes(): number {
+    return Math.round(getLockoutMs() / 60 / 1000);
+  }
+
+  /**
+   * Get how long the caller has to wait before another attempt is allowed
+   * Accounts are keyed by the submitted email, so unknown emails behave exactly like real ones
+   * @returns Seconds to wait, or 0 if the attempt is allowed
+   */
+  async getRetryAfter(email: string | null, ip: string): Promise<number> {
+    const records = await Promise.all([
+      email ? this.store.get(accountKey(email)) : Promise.resolve(null),
+      this.store.get(ipKey(ip))
+    ]);
+
+    const now = Date.now();
+    const blockedUntil = Math.max(...records.map(record => record?.blockedUntil || 0));
+
+    return blockedUntil > now ? Math.ceil((blockedUntil - now) / 1000) : 0;
+  }
+
+  /**
+   * Record a failed attempt and apply delays or lockouts
+   */
+  async recordFailure(email: string | null, ip: string): Promise<LoginFailureResult> {
+    const windowMs = getAttemptWindowMs();
+    const now = Date.now();
+    let accountLocked = false;
+
+    if (email) {
+      const record = await this.store.increment(accountKey(email), windowMs);
+
+      if (record.failures >= getMaxAccountAttempts()) {
+        await this.store.block(accountKey(email), now + getLockoutMs());
+        accountLocked = record.failures === getMaxAccountAttempts();
+      } else if (record.failures >= DELAY_AFTER_FAILURES) {
+        const delay = Math.min(BASE_DELAY_MS * 2 ** (record.failures - DELAY_AFTER_FAILURES), MAX_DELAY_MS);
+        await this.store.block(accountKey(email), now + delay);
+      }
+    }
+
+    const ipRecord = await this.store.increment(ipKey(ip), windowMs);
+    if (ipRecord.failures >= getMaxIpAttempts()) {
+      await this.store.block(ipKey(ip), now + getLockoutMs());
+    }
+
+    return { accountLocked };
+  }
+
+  /**
+   * Clear the account counter after a successful login
+   * The IP counter is kept so one valid account cannot be used to reset it
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.store.reset(accountKey(email));
+  }
+
+  /**
+   * Lift an account lockout (e.g. from the unlock email)
+   */
+  async unlockAccount(email: string): Promise<void> {
+    await this.store.reset(accountKey(email));
+  }
+}
+
+export const loginThrottleService = new LoginThrottleService();
@@ -1,18 +1,137 @@
 import mongoose from 'mongoose';
-import Message, { IMessage } from '../models/message.model';
+import Message, { IMessage, IMessageAttachment, IMessageSnapshot } from '../models/message.model';
 import User from '../models/user.model';
 import Group from '../models/group.model';
+import { workspaceService } from './workspace.service';
+import { blockService } from './block.service';
+import { attachmentService } from './attachment.service';
+import { NotificationRepository } from '../repositories/notification.repository';
+import { INotification } from '../models/notification.model';
+import { parseMentions } from '../utils/mention.util';
+import { MessageCursor, cursorFilter, encodeCursor } from '../utils/messageCursor.util';
+import { getParticipantId } from '../utils/messageFormat.util';
+
+const getEditWindowMinutes = (): number => parseInt(process.env.MESSAGE_EDIT_WINDOW_MINUTES || '15', 10);
+const getMaxReactionsPerMessage = (): number => parseInt(process.env.MESSAGE_MAX_REACTIONS || '20', 10);
+
+// Quotes keep at most this many characters of the quoted message
+const QUOTE_SNAPSHOT_LENGTH = 500;
+
+export interface SendMessageOptions {
+  /** Thread root (or a reply in it) this message replies to */
+  parentMessageId?: mongoose.Types.ObjectId;
+  /** Message of the same conversation to quote inline */
+  quotedMessageId?: mongoose.Types.ObjectId;
+  /** Message to forward; its content replaces the given content */
+  forwardedMessageId?: mongoose.Types.ObjectId;
+  /** Attachments uploaded by the sender */
+  attachmentIds?: mongoose.Types.ObjectId[];
+  /** Users currently online, used to resolve @here */
+  onlineUserIds?: string[];
+}
+
+export interface HistoryOptions {
+  limit: number;
+  /** Page number for clients that do not use cursors yet */
+  page?: number;
+  /** Messages older than this cursor */
+  before?: MessageCursor;
+  /** Messages newer than this cursor */
+  after?: MessageCursor;
+  /** Message to center the page on */
+  aroundMessageId?: mongoose.Types.ObjectId;
+}
+
+export interface MessageHistoryPage {
+  /** Oldest first */
+  messages: IMessage[];
+  hasOlder: boolean;
+  hasNewer: boolean;
+  /** Pass as before to load older messages */
+  prevCursor: string | null;
+  /** Pass as after to load newer messages */
+  nextCursor: string | null;
+  /** Only counted for page numbers */
+  totalCount?: number;
+}
+
+export interface MessageSearchFilters {
+  query: string;
+  senderId?: mongoose.Types.ObjectId;
+  /** Only the direct conversation with this user */
+  withUserId?: mongoose.Types.ObjectId;
+  groupId?: mongoose.Types.ObjectId;
+  from?: Date;
+  to?: Date;
+  hasAttachment?: boolean;
+  mentionsMe?: boolean;
+  /** Messages of context to load before and after each hit */
+  context: number;
+  limit: number;
+  cursor?: MessageCursor;
+}
+
+export interface MessageSearchHit {
+  message: IMessage;
+  before: IMessage[];
+  after: IMessage[];
+}
+
+type MentionFields = Pick<IMessage, 'mentions' | 'broadcastMentions' | 'invalidMentions'>;
 
 export class MessageService {
+  private notificationRepository: NotificationRepository;
+
+  constructor() {
+    this.notificationRepository = new NotificationRepository();
+  }
+
   /**
-   * Send a message (direct or group)
+   * Send a message (direct or group) inside a workspace
    */
   async sendMessage(
+    workspaceId: mongoose.Types.ObjectId,
     senderId: mongoose.Types.ObjectId,
     content: string,
     receiverId?: mongoose.Types.ObjectId,
-    groupId?: mongoose.Types.ObjectId
+    groupId?: mongoose.Types.ObjectId,
+    options: SendMessageOptions = {}
   ): Promise<IMessage> {
+    // Replies go to the conversation of their thread root
+    let threadRoot: IMessage | undefined;
+    if (options.parentMessageId) {
+      threadRoot = await this.getThreadRoot(workspaceId, options.parentMessageId, senderId);
+      const rootGroupId = threadRoot.group?.toString();
+      const rootOtherUserId = threadRoot.sender.toString() === senderId.toString()
+        ? threadRoot.receiver?.toString()
+        : threadRoot.sender.toString();
+
+      if ((groupId && groupId.toString() !== rootGroupId) ||
+          (receiverId && (rootGroupId || receiverId.toString() !== rootOtherUserId))) {
+        throw new Error('Reply must be sent to the conversation of its thread');
+      }
+
+      groupId = rootGroupId ? new mongoose.Types.ObjectId(rootGroupId) : undefined;
+      receiverId = rootGroupId ? undefined : new mongoose.Types.ObjectId(rootOtherUserId);
+    }
+
+    // Forwards copy the content and keep the original sender's attribution
+    let forwardedFrom: IMessageSnapshot | undefined;
+    let attachments: IMessageAttachment[] = [];
+    if (options.forwardedMessageId) {
+      const source = await this.getAccessibleMessage(workspaceId, options.forwardedMessageId, senderId);
+      if (source.forwardedFrom) {
+        forwardedFrom = source.forwardedFrom;
+      } else {
+        const { content: _content, ...snapshot } = await this.createSnapshot(source);
+        forwardedFrom = snapshot;
+      }
+      content = source.content;
+      attachments = source.attachments;
+    } else if (options.attachmentIds?.length) {
+      attachments = await attachmentService.getAttachmentsForMessage(workspaceId, senderId, options.attachmentIds);
+    }
+
     // Validate that either receiver or group is provided
     if (!receiverId && !groupId) {
       throw new Error('Either receiver or group must be provided');
@@ -22,17 +141,23 @@ export class MessageService {
       throw new Error('Message cannot have both receiver and group');
     }
 
-    // If it's a direct message, validate receiver exists
+    // If it's a direct message, validate receiver exists in the same workspace
     if (receiverId) {
       const receiver = await User.findById(receiverId);
-      if (!receiver) {
+      if (!receiver || !(await workspaceService.isMember(workspaceId, receiverId))) {
         throw new Error('Receiver not found');
       }
+
+      // Direct messages are refused when either side has blocked the other
+      if (await blockService.isBlockedBetween(senderId, receiverId)) {
+        throw new Error('You cannot send messages to this user');
+      }
     }
 
     // If it's a group message, validate group exists and sender is a member
+    let mentionFields: MentionFields | undefined;
     if (groupId) {
-      const group = await Group.findById(groupId);
+      const group = await Group.findOne({ _id: groupId, workspace: workspaceId });
       if (!group) {
         throw new Error('Group not found');
       }
@@ -41,17 +166,61 @@ export class MessageService {
       if (!group.members.includes(senderId)) {
         throw new Error('You are not a member of this group');
       }
+
+      // Forwards do not ping the people mentioned in the original
+      if (!forwardedFrom) {
+        mentionFields = await this.resolveMentions(group.members, senderId, content, options.onlineUserIds);
+      }
+    }
+
+    // Quotes must come from the conversation the message is sent to
+    let quote: IMessageSnapshot | undefined;
+    if (options.quotedMessageId) {
+      const quoted = await this.getAccessibleMessage(workspaceId, options.quotedMessageId, senderId);
+      const quotedOtherUserId = quoted.sender.toString() === senderId.toString()
+        ? quoted.receiver?.toString()
+        : quoted.sender.toString();
+      const sameConversation = groupId
+        ? quoted.group?.toString() === groupId.toString()
+        : !quoted.group && quotedOtherUserId === receiverId!.toString();
+
+      if (!sameConversation) {
+        throw new Error('Quoted message must be in the same conversation');
+      }
+
+      quote = await this.createSnapshot(quoted);
+      if (quote.content && quote.content.length > QUOTE_SNAPSHOT_LENGTH) {
+        quote.content = `${quote.content.slice(0, QUOTE_SNAPSHOT_LENGTH)}…`;
+      }
     }
 
     // Create the message
     const message = await Message.create({
       content,
+      workspace: workspaceId,
       sender: senderId,
       receiver: receiverId,
       group: groupId,
+      parentMessage: threadRoot?._id,
+      quote,
+      forwardedFrom,
+      ...mentionFields,
+      attachments,
       readBy: [senderId] // Sender has read the message by default
     });
 
+    // Keep the thread summary on the root up to date
+    if (threadRoot) {
+      await Message.updateOne(
+        { _id: threadRoot._id },
+        {
+          $inc: { replyCount: 1 },
+          $set: { lastReplyAt: message.createdAt, lastReplyBy: senderId },
+          $addToSet: { threadParticipants: { $each: [threadRoot.sender, senderId] } }
+        }
+      );
+    }
+
     // Populate sender information
     await message.populate('sender', 'firstName lastName profilePictureUrl');
     
@@ -62,65 +231,37 @@ export class MessageService {
    * Get messages for a direct conversation
    */
   async getDirectMessages(
+    workspaceId: mongoose.Types.ObjectId,
     userId: mongoose.Types.ObjectId,
     otherUserId: mongoose.Types.ObjectId,
-    page: number = 1,
-    limit: number = 50
-  ): Promise<{
-    messages: IMessage[];
-    totalCount: number;
-    hasMore: boolean;
-  }> {
-    // Validate that the other user exists
+    options: HistoryOptions
+  ): Promise<MessageHistoryPage> {
+    // Validate that the other user exists in the same workspace
     const otherUser = await User.findById(otherUserId);
-    if (!otherUser) {
+    if (!otherUser || !(await workspaceService.isMember(workspaceId, otherUserId))) {
       throw new Error('User not found');
     }
 
-    const skip = (page - 1) * limit;
-
     // Get messages between the two users
-    const messages = await Message.find({
+    return await this.getConversationPage(workspaceId, {
       $or: [
         { sender: userId, receiver: otherUserId },
         { sender: otherUserId, receiver: userId }
       ]
-    })
-      .populate('sender', 'firstName lastName profilePictureUrl')
-      .sort({ createdAt: -1 })
-      .skip(skip)
-      .limit(limit);
-
-    // Get total count for pagination
-    const totalCount = await Message.countDocuments({
-      $or: [
-        { sender: userId, receiver: otherUserId },
-        { sender: otherUserId, receiver: userId }
-      ]
-    });
-
-    return {
-      messages: messages.reverse(), // Reverse to show oldest first
-      totalCount,
-      hasMore: skip + messages.length < totalCount
-    };
+    }, options);
   }
 
   /**
    * Get messages for a group
    */
   async getGroupMessages(
+    workspaceId: mongoose.Types.ObjectId,
     userId: mongoose.Types.ObjectId,
     groupId: mongoose.Types.ObjectId,
-    page: number = 1,
-    limit: number = 50
-  ): Promise<{
-    messages: IMessage[];
-    totalCount: number;
-    hasMore: boolean;
-  }> {
+    options: HistoryOptions
+  ): Promise<MessageHistoryPage> {
     // Validate that the group exists and user is a member
-    const group = await Group.findById(groupId);
+    const group = await Group.findOne({ _id: groupId, workspace: workspaceId });
     if (!group) {
       throw new Error('Group not found');
     }
@@ -129,22 +270,102 @@ export class MessageService {
       throw new Error('You are not a member of this group');
     }
 
-    const skip = (page - 1) * limit;
-
     // Get group messages
-    const messages = await Message.find({ group: groupId })
-      .populate('sender', 'firstName lastName profilePictureUrl')
-      .sort({ createdAt: -1 })
-      .skip(skip)
-      .limit(limit);
+    return await this.getConversationPage(workspaceId, { group: groupId }, options);
+  }
 
-    // Get total count for pagination
-    const totalCount = await Message.countDocuments({ group: groupId });
+  /**
+   * Load one page of the main stream of a conversation (thread replies excluded)
+   * Pages are keyed on createdAt and _id so they do not shift when new messages arrive
+   */
+  private async getConversationPage(
+    workspaceId: mongoose.Types.ObjectId,
+    conversation: Record<string, unknown>,
+    options: HistoryOptions
+  ): Promise<MessageHistoryPage> {
+    const filter = { ...conversation, workspace: workspaceId, parentMessage: { $exists: false } };
+    const { limit } = options;
+
+    const findMessages = (position: Record<string, unknown>, direction: 1 | -1, count: number) =>
+      Message.find({ ...filter, $and: [position] })
+        .populate('sender', 'firstName lastName profilePictureUrl')
+        .populate('lastReplyBy', 'firstName lastName profilePictureUrl')
+        .sort({ createdAt: direction, _id: direction })
+        .limit(count);
+
+    let older: IMessage[] = [];
+    let newer: IMessage[] = [];
+    let anchor: IMessage | undefined;
+    let hasOlder = false;
+    let hasNewer = false;
+
+    if (options.aroundMessageId) {
+      // Jump to a message; replies are shown through their thread root
+      let target = await Message.findOne({ ...conversation, workspace: workspaceId, _id: options.aroundMessageId });
+      if (target?.parentMessage) {
+        target = await Message.findOne({ ...filter, _id: target.parentMessage });
+      }
+      if (!target) {
+        throw new Error('Message not found');
+      }
+
+      await target.populate('sender', 'firstName lastName profilePictureUrl');
+      await target.populate('lastReplyBy', 'firstName lastName profilePictureUrl');
+      anchor = target;
+
+      const position: MessageCursor = { createdAt: target.createdAt, id: new mongoose.Types.ObjectId(target._id.toString()) };
+      const olderCount = Math.floor((limit - 1) / 2);
+      const newerCount = limit - 1 - olderCount;
+
+      older = await findMessages(cursorFilter(position, 'before'), -1, olderCount + 1);
+      newer = await findMessages(cursorFilter(position, 'after'), 1, newerCount + 1);
+      hasOlder = older.length > olderCount;
+      hasNewer = newer.length > newerCount;
+      older = older.slice(0, olderCount);
+      newer = newer.slice(0, newerCount);
+    } else if (options.after) {
+      newer = await findMessages(cursorFilter(options.after, 'after'), 1, limit + 1);
+      hasNewer = newer.length > limit;
+      hasOlder = true; // The cursor message itself is older
+      newer = newer.slice(0, limit);
+    } else if (options.page !== undefined) {
+      // Page numbers are kept for older clients
+      const skip = (options.page - 1) * limit;
+      older = await Message.find(filter)
+        .populate('sender', 'firstName lastName profilePictureUrl')
+        .populate('lastReplyBy', 'firstName lastName profilePictureUrl')
+        .sort({ createdAt: -1, _id: -1 })
+        .skip(skip)
+        .limit(limit);
 
+      const totalCount = await Message.countDocuments(filter);
+      hasOlder = skip + older.length < totalCount;
+      hasNewer = skip > 0;
+
+      return { ...this.toHistoryPage(older.reverse(), hasOlder, hasNewer), totalCount };
+    } else {
+      // Latest messages, or the messages before a cursor
+      older = await findMessages(options.before ? cursorFilter(options.before, 'before') : {}, -1, limit + 1);
+      hasOlder = older.length > limit;
+      hasNewer = !!options.before; // The cursor message itself is newer
+      older = older.slice(0, limit);
+    }
+
+    const messages = [...older.reverse(), ...(anchor ? [anchor] : []), ...newer];
+
+    return this.toHistoryPage(messages, hasOlder, hasNewer);
+  }
+
+  /**
+   * Add the cursors of a page of messages (oldest first)
+   */
+  private toHistoryPage(messages: IMessage[], hasOlder: boolean, hasNewer: boolean): MessageHistoryPage {
     return {
-      messages: messages.reverse(), // Reverse to show oldest first
-      totalCount,
-      hasMore: skip + messages.length < totalCount
+      messages,
+      hasOlder,
+      hasNewer,
+      prevCursor: messages.length > 0 ? encodeCursor(messages[0]) : null,
+      nextCursor: messages.length > 0 ? encodeCursor(messages[messages.length - 1]) : null
     };
   }
 
@@ -152,12 +373,14 @@ export class MessageService {
    * Mark messages as read
    */
   async markMessagesAsRead(
+    workspaceId: mongoose.Types.ObjectId,
     userId: mongoose.Types.ObjectId,
     messageIds: mongoose.Types.ObjectId[]
   ): Promise<void> {
     await Message.updateMany(
       {
         _id: { $in: messageIds },
+        workspace: workspaceId,
         readBy: { $ne: userId }
       },
       {
@@ -170,12 +393,15 @@ export class MessageService {
    * Get unread message count for direct conversations
    */
   async getUnreadDirectMessageCount(
+    workspaceId: mongoose.Types.ObjectId,
     userId: mongoose.Types.ObjectId,
     otherUserId: mongoose.Types.ObjectId
   ): Promise<number> {
     return await Message.countDocuments({
+      workspace: workspaceId,
       sender: otherUserId,
       receiver: userId,
+      parentMessage: { $exists: false },
       readBy: { $ne: userId }
     });
   }
@@ -184,11 +410,14 @@ export class MessageService {
    * Get unread message count for a group
    */
   async getUnreadGroupMessageCount(
+    workspaceId: mongoose.Types.ObjectId,
     userId: mongoose.Types.ObjectId,
     groupId: mongoose.Types.ObjectId
   ): Promise<number> {
     return await Message.countDocuments({
+      workspace: workspaceId,
       group: groupId,
+      parentMessage: { $exists: false },
       sender: { $ne: userId },
       readBy: { $ne: userId }
     });
@@ -198,6 +427,7 @@ export class MessageService {
    * Get recent conversations for a user
    */
   async getRecentConversations(
+    workspaceId: mongoose.Types.ObjectId,
     userId: mongoose.Types.ObjectId,
     limit: number = 20
   ): Promise<Array<{
@@ -211,6 +441,8 @@ export class MessageService {
     const recentDirectMessages = await Message.aggregate([
       {
         $match: {
+          workspace: workspaceId,
+          parentMessage: { $exists: false },
           $or: [
             { sender: userId, receiver: { $exists: true } },
             { receiver: userId, sender: { $exists: true } }
@@ -285,7 +517,9 @@ export class MessageService {
     const recentGroupMessages = await Message.aggregate([
       {
         $match: {
-          group: { $exists: true }
+          workspace: workspaceId,
+          group: { $exists: true },
+          parentMessage: { $exists: false }
         }
       },
       {
@@ -380,8 +614,8 @@ export class MessageService {
   /**
    * Get a message by ID
    */
-  async getMessageById(messageId: mongoose.Types.ObjectId): Promise<any> {
-    const message = await Message.findById(messageId)
+  async getMessageById(workspaceId: mongoose.Types.ObjectId, messageId: mongoose.Types.ObjectId): Promise<any> {
+    const message = await Message.findOne({ _id: messageId, workspace: workspaceId })
       .populate('sender', 'firstName lastName profilePictureUrl')
       .populate('receiver', 'firstName lastName profilePictureUrl')
       .populate('group', 'name');
@@ -389,11 +623,510 @@ export class MessageService {
     return message;
   }
 
+  /**
+   * Edit the content of a message (only sender, within the edit window)
+   * The previous content is kept in the edit history and mentions are resolved again
+   */
+  async editMessage(
+    workspaceId: mongoose.Types.ObjectId,
+    messageId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId,
+    content: string,
+    onlineUserIds?: string[]
+  ): Promise<IMessage> {
+    const message = await Message.findOne({ _id: messageId, workspace: workspaceId });
+    if (!message) {
+      throw new Error('Message not found');
+    }
+
+    if (message.sender.toString() !== userId.toString()) {
+      throw new Error('You can only edit your own messages');
+    }
+
+    // A window of 0 allows edits at any time
+    const editWindowMinutes = getEditWindowMinutes();
+    if (editWindowMinutes > 0 && Date.now() - message.createdAt.getTime() > editWindowMinutes * 60 * 1000) {
+      throw new Error('Message can no longer be edited');
+    }
+
+    if (message.content !== content) {
+      const editedAt = new Date();
+      let mentionFields: MentionFields | undefined;
+      if (message.group && !message.forwardedFrom) {
+        const group = await Group.findById(message.group).select('members');
+        mentionFields = await this.resolveMentions(group?.members || [], userId, content, onlineUserIds);
+      }
+
+      await Message.updateOne(
+        { _id: message._id },
+        {
+          $set: { content, editedAt, ...mentionFields },
+          $push: { editHistory: { content: message.content, editedAt } }
+        }
+      );
+      message.content = content;
+      message.editedAt = editedAt;
+      if (mentionFields) {
+        message.set(mentionFields);
+      }
+    }
+
+    await message.populate('sender', 'firstName lastName profilePictureUrl');
+
+    return message;
+  }
+
+  /**
+   * Resolve the mentions in the content of a group message
+   * Mentions of users outside the group are kept as invalid so clients can flag them
+   */
+  private async resolveMentions(
+    members: mongoose.Types.ObjectId[],
+    senderId: mongoose.Types.ObjectId,
+    content: string,
+    onlineUserIds: string[] = []
+  ): Promise<MentionFields> {
+    const parsed = parseMentions(content);
+    const memberIds = new Set(members.map(member => member.toString()));
+    const mentioned = new Set<string>();
+    const invalidMentions: string[] = [];
+
+    for (const userId of parsed.userIds) {
+      if (memberIds.has(userId)) {
+        mentioned.add(userId);
+      } else {
+        invalidMentions.push(`@${userId}`);
+      }
+    }
+
+    if (parsed.emails.length > 0) {
+      const users = await User.find({ email: { $in: parsed.emails } }).select('email');
+      const userIdsByEmail = new Map(users.map(user => [user.email, user._id.toString()]));
+
+      for (const email of parsed.emails) {
+        const userId = userIdsByEmail.get(email);
+        if (userId && memberIds.has(userId)) {
+          mentioned.add(userId);
+        } else {
+          invalidMentions.push(`@${email}`);
+        }
+      }
+    }
+
+    const broadcastMentions: ('here' | 'channel')[] = [];
+    if (parsed.channel) {
+      broadcastMentions.push('channel');
+      memberIds.forEach(memberId => mentioned.add(memberId));
+    }
+    if (parsed.here) {
+      broadcastMentions.push('here');
+      onlineUserIds.filter(userId => memberIds.has(userId)).forEach(userId => mentioned.add(userId));
+    }
+
+    mentioned.delete(senderId.toString());
+
+    return {
+      mentions: [...mentioned].map(userId => new mongoose.Types.ObjectId(userId)),
+      broadcastMentions,
+      invalidMentions
+    };
+  }
+
+  /**
+   * Create mention notifications for a group message
+   * Users who blocked the sender and users already notified about the message are skipped
+   * @returns The notifications created, to be pushed to their recipients
+   */
+  async notifyMentions(workspaceId: mongoose.Types.ObjectId, message: IMessage): Promise<INotification[]> {
+    if (!message.group || !message.mentions?.length) {
+      return [];
+    }
+
+    const senderId = message.sender._id.toString();
+    const blockerIds = new Set(await blockService.getBlockerIds(senderId));
+    const recipientIds = message.mentions.filter(userId => !blockerIds.has(userId.toString()));
+    if (recipientIds.length === 0) {
+      return [];
+    }
+
+    return await this.notificationRepository.forWorkspace(workspaceId).createMentionNotifications(
+      new mongoose.Types.ObjectId(senderId),
+      recipientIds,
+      new mongoose.Types.ObjectId(message._id.toString()),
+      new mongoose.Types.ObjectId(message.group._id.toString()),
+      message.content
+    );
+  }
+
+  /**
+   * Get the group messages that mention the user, newest first
+   * Only groups the user is still a member of are included
+   */
+  async getMentions(
+    workspaceId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId,
+    page: number = 1,
+    limit: number = 50,
+    unreadOnly: boolean = false
+  ): Promise<{
+    messages: IMessage[];
+    totalCount: number;
+    hasMore: boolean;
+  }> {
+    const groups = await Group.find({ workspace: workspaceId, members: userId }).select('_id');
+    const filter = {
+      workspace: workspaceId,
+      mentions: userId,
+      group: { $in: groups.map(group => group._id) },
+      ...(unreadOnly ? { readBy: { $ne: userId } } : {})
+    };
+
+    const skip = (page - 1) * limit;
+
+    const messages = await Message.find(filter)
+      .populate('sender', 'firstName lastName profilePictureUrl')
+      .populate('lastReplyBy', 'firstName lastName profilePictureUrl')
+      .populate('group', 'name')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const totalCount = await Message.countDocuments(filter);
+
+    return {
+      messages,
+      totalCount,
+      hasMore: skip + messages.length < totalCount
+    };
+  }
+
+  /**
+   * Search the messages of conversations the user can access, newest first
+   * Each hit comes with the surrounding messages of its conversation (or thread)
+   */
+  async searchMessages(
+    workspaceId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId,
+    filters: MessageSearchFilters
+  ): Promise<{
+    hits: MessageSearchHit[];
+    nextCursor: string | null;
+  }> {
+    const conditions: Record<string, unknown>[] = [];
+
+    if (filters.withUserId) {
+      conditions.push({
+        $or: [
+          { sender: userId, receiver: filters.withUserId },
+          { sender: filters.withUserId, receiver: userId }
+        ]
+      });
+    } else if (filters.groupId) {
+      const isMember = await Group.exists({ _id: filters.groupId, workspace: workspaceId, members: userId });
+      if (!isMember) {
+        throw new Error('You are not a member of this group');
+      }
+      conditions.push({ group: filters.groupId });
+    } else {
+      // Direct conversations of the user and groups they are still a member of
+      const groups = await Group.find({ workspace: workspaceId, members: userId }).select('_id');
+      conditions.push({
+        $or: [
+          { sender: userId, receiver: { $exists: true } },
+          { receiver: userId },
+          { group: { $in: groups.map(group => group._id) } }
+        ]
+      });
+    }
+
+    if (filters.senderId) {
+      conditions.push({ sender: filters.senderId });
+    }
+    if (filters.from || filters.to) {
+      conditions.push({
+        createdAt: {
+          ...(filters.from ? { $gte: filters.from } : {}),
+          ...(filters.to ? { $lte: filters.to } : {})
+        }
+      });
+    }
+    if (filters.hasAttachment !== undefined) {
+      conditions.push({ 'attachments.0': { $exists: filters.hasAttachment } });
+    }
+    if (filters.mentionsMe) {
+      conditions.push({ mentions: userId });
+    }
+    if (filters.cursor) {
+      conditions.push(cursorFilter(filters.cursor, 'before'));
+    }
+
+    // One extra message tells whether there is another page
+    const messages = await Message.find({
+      $text: { $search: filters.query },
+      workspace: workspaceId,
+      $and: conditions
+    })
+      .populate('sender', 'firstName lastName profilePictureUrl')
+      .populate('receiver', 'firstName lastName profilePictureUrl')
+      .populate('group', 'name')
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(filters.limit + 1);
+
+    const hasMore = messages.length > filters.limit;
+    const results = messages.slice(0, filters.limit);
+
+    const hits = await Promise.all(results.map(async message => {
+      if (filters.context === 0) {
+        return { message, before: [], after: [] };
+      }
+
+      // Use the stored IDs: a participant who deleted their account populates as null
+      const senderId = getParticipantId(message, 'sender');
+      const receiverId = getParticipantId(message, 'receiver');
+      const conversation = {
+        workspace: workspaceId,
+        parentMessage: message.parentMessage ?? { $exists: false },
+        ...(message.group
+          ? { group: message.group._id }
+          : {
+              $or: [
+                { sender: senderId, receiver: receiverId },
+                { sender: receiverId, receiver: senderId }
+              ]
+            })
+      };
+      const position: MessageCursor = { createdAt: message.createdAt, id: new mongoose.Types.ObjectId(message._id.toString()) };
+
+      const before = await Message.find({ ...conversation, $and: [cursorFilter(position, 'before')] })
+        .populate('sender', 'firstName lastName profilePictureUrl')
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(filters.context);
+      const after = await Message.find({ ...conversation, $and: [cursorFilter(position, 'after')] })
+        .populate('sender', 'firstName lastName profilePictureUrl')
+        .sort({ createdAt: 1, _id: 1 })
+        .limit(filters.context);
+
+      return { message, before: before.reverse(), after };
+    }));
+
+    return {
+      hits,
+      nextCursor: hasMore ? encodeCursor(results[results.length - 1]) : null
+    };
+  }
+
+  /**
+   * Take a snapshot of a message for quotes and forwards
+   */
+  private async createSnapshot(message: IMessage): Promise<IMessageSnapshot> {
+    const sender = await User.findById(message.sender).select('firstName lastName');
+
+    return {
+      message: new mongoose.Types.ObjectId(message._id.toString()),
+      sender: new mongoose.Types.ObjectId(message.sender.toString()),
+      senderName: sender ? `${sender.firstName} ${sender.lastName}` : 'Deleted user',
+      content: message.content,
+      createdAt: message.createdAt
+    };
+  }
+
+  /**
+   * Find a message the user can see (DM participant or group member)
+   */
+  private async getAccessibleMessage(
+    workspaceId: mongoose.Types.ObjectId,
+    messageId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId
+  ): Promise<IMessage> {
+    const message = await Message.findOne({ _id: messageId, workspace: workspaceId });
+    if (!message) {
+      throw new Error('Message not found');
+    }
+
+    if (message.group) {
+      const isMember = await Group.exists({ _id: message.group, workspace: workspaceId, members: userId });
+      if (!isMember) {
+        throw new Error('Message not found');
+      }
+    } else if (message.sender.toString() !== userId.toString() && message.receiver?.toString() !== userId.toString()) {
+      throw new Error('Message not found');
+    }
+
+    return message;
+  }
+
+  /**
+   * Resolve the thread root of a message the user can see
+   * Replies to a reply join the root's thread, so threads stay one level deep
+   */
+  async getThreadRoot(
+    workspaceId: mongoose.Types.ObjectId,
+    messageId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId
+  ): Promise<IMessage> {
+    const message = await this.getAccessibleMessage(workspaceId, messageId, userId);
+    if (!message.parentMessage) {
+      return message;
+    }
+
+    return await this.getAccessibleMessage(workspaceId, message.parentMessage, userId);
+  }
+
+  /**
+   * Get the replies of a thread, oldest first
+   */
+  async getThreadMessages(
+    workspaceId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId,
+    messageId: mongoose.Types.ObjectId,
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{
+    root: IMessage;
+    replies: IMessage[];
+    totalCount: number;
+    hasMore: boolean;
+    unreadCount: number;
+  }> {
+    const root = await this.getThreadRoot(workspaceId, messageId, userId);
+    await root.populate('sender', 'firstName lastName profilePictureUrl');
+    await root.populate('lastReplyBy', 'firstName lastName profilePictureUrl');
+
+    const skip = (page - 1) * limit;
+
+    const replies = await Message.find({ workspace: workspaceId, parentMessage: root._id })
+      .populate('sender', 'firstName lastName profilePictureUrl')
+      .sort({ createdAt: 1 })
+      .skip(skip)
+      .limit(limit);
+
+    const totalCount = await Message.countDocuments({ workspace: workspaceId, parentMessage: root._id });
+    const unreadCount = await this.getUnreadThreadMessageCount(
+      workspaceId,
+      userId,
+      new mongoose.Types.ObjectId(root._id.toString())
+    );
+
+    return {
+      root,
+      replies,
+      totalCount,
+      hasMore: skip + replies.length < totalCount,
+      unreadCount
+    };
+  }
+
+  /**
+   * Get unread reply count for a thread
+   */
+  async getUnreadThreadMessageCount(
+    workspaceId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId,
+    rootMessageId: mongoose.Types.ObjectId
+  ): Promise<number> {
+    return await Message.countDocuments({
+      workspace: workspaceId,
+      parentMessage: rootMessageId,
+      sender: { $ne: userId },
+      readBy: { $ne: userId }
+    });
+  }
+
+  /**
+   * Add the user's reaction to a message
+   * A message holds at most MESSAGE_MAX_REACTIONS distinct emoji
+   */
+  async addReaction(
+    workspaceId: mongoose.Types.ObjectId,
+    messageId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId,
+    emoji: string
+  ): Promise<IMessage> {
+    const message = await this.getAccessibleMessage(workspaceId, messageId, userId);
+
+    // Join an existing reaction
+    let result = await Message.updateOne(
+      { _id: message._id, 'reactions.emoji': emoji },
+      { $addToSet: { 'reactions.$.users': userId } }
+    );
+
+    if (result.matchedCount === 0) {
+      // Start a new reaction while the message is below the limit
+      const maxReactions = getMaxReactionsPerMessage();
+      result = await Message.updateOne(
+        {
+          _id: message._id,
+          'reactions.emoji': { $ne: emoji },
+          [`reactions.${maxReactions - 1}`]: { $exists: false }
+        },
+        { $push: { reactions: { emoji, users: [userId] } } }
+      );
+
+      if (result.matchedCount === 0) {
+        // Someone else may have started the same reaction in the meantime
+        result = await Message.updateOne(
+          { _id: message._id, 'reactions.emoji': emoji },
+          { $addToSet: { 'reactions.$.users': userId } }
+        );
+        if (result.matchedCount === 0) {
+          throw new Error('Reaction limit reached for this message');
+        }
+      }
+    }
+
+    return (await Message.findById(message._id))!;
+  }
+
+  /**
+   * Remove the user's reaction from a message
+   */
+  async removeReaction(
+    workspaceId: mongoose.Types.ObjectId,
+    messageId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId,
+    emoji: string
+  ): Promise<IMessage> {
+    const message = await this.getAccessibleMessage(workspaceId, messageId, userId);
+
+    const result = await Message.updateOne(
+      { _id: message._id, reactions: { $elemMatch: { emoji, users: userId } } },
+      { $pull: { 'reactions.$.users': userId } }
+    );
+
+    if (result.modifiedCount === 0) {
+      throw new Error('Reaction not found');
+    }
+
+    // Drop reactions nobody uses anymore so they free up a slot
+    await Message.updateOne(
+      { _id: message._id },
+      { $pull: { reactions: { users: { $size: 0 } } } }
+    );
+
+    return (await Message.findById(message._id))!;
+  }
+
+  /**
+   * Get the current content and prior revisions of a message for auditing
+   */
+  async getMessageHistory(
+    workspaceId: mongoose.Types.ObjectId,
+    messageId: mongoose.Types.ObjectId
+  ): Promise<IMessage | null> {
+    return await Message.findOne({ _id: messageId, workspace: workspaceId })
+      .select('+editHistory')
+      .populate('sender', 'firstName lastName email');
+  }
+
   /**
    * Delete a message (only sender can delete)
    */
-  async deleteMessage(messageId: mongoose.Types.ObjectId, userId: mongoose.Types.ObjectId): Promise<void> {
-    const message = await Message.findById(messageId);
+  async deleteMessage(
+    workspaceId: mongoose.Types.ObjectId,
+    messageId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId
+  ): Promise<void> {
+    const message = await Message.findOne({ _id: messageId, workspace: workspaceId });
     if (!message) {
       throw new Error('Message not found');
     }
@@ -403,5 +1136,25 @@ export class MessageService {
     }
 
     await Message.findByIdAndDelete(messageId);
+    const attachmentIds = message.attachments.map(attachment => attachment.attachment);
+
+    if (message.parentMessage) {
+      // Refresh the thread summary of the root
+      const lastReply = await Message.findOne({ parentMessage: message.parentMessage }).sort({ createdAt: -1 });
+      await Message.updateOne(
+        { _id: message.parentMessage },
+        lastReply
+          ? { $inc: { replyCount: -1 }, $set: { lastReplyAt: lastReply.createdAt, lastReplyBy: lastReply.sender } }
+          : { $set: { replyCount: 0 }, $unset: { lastReplyAt: 1, lastReplyBy: 1 } }
+      );
+    } else {
+      // Replies cannot outlive their thread
+      const replies = await Message.find({ parentMessage: messageId }).select('attachments');
+      await Message.deleteMany({ parentMessage: messageId });
+      attachmentIds.push(...replies.flatMap(reply => reply.attachments.map(attachment => attachment.attachment)));
+    }
+
+    // Free the storage of attachments no other message (e.g. a forward) still carries
+    await attachmentService.releaseUnusedAttachments(attachmentIds);
   }
 }
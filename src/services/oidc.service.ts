@@ -0,0 +1,372 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import OidcState from '../models/oidcState.model';
+import User, { IUser } from '../models/user.model';
+import { generateSecureToken, hashToken } from '../utils/crypto.util';
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+  providerName: string;
+  assumeEmailVerified: boolean;
+  claims: {
+    email: string;
+    emailVerified: string;
+    firstName: string;
+    lastName: string;
+    picture: string;
+  };
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+interface OidcProfile {
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+  picture?: string;
+}
+
+export interface OidcLoginResult {
+  user: IUser;
+  /** True if the account was created by this login */
+  created: boolean;
+  /** True if an existing account was linked by this login */
+  linked: boolean;
+}
+
+const STATE_EXPIRES_MS = 10 * 60 * 1000;
+const METADATA_CACHE_MS = 60 * 60 * 1000;
+const SIGNING_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+/**
+ * Read the OIDC configuration from the environment
+ * @returns The configuration, or null if single sign-on is not configured
+ */
+export const getOidcConfig = (): OidcConfig | null => {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  const redirectUri = process.env.OIDC_REDIRECT_URI;
+
+  if (!issuer || !clientId || !redirectUri) {
+    return null;
+  }
+
+  return {
+    issuer: issuer.replace(/\/+$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    providerName: process.env.OIDC_PROVIDER_NAME || 'Single sign-on',
+    assumeEmailVerified: process.env.OIDC_ASSUME_EMAIL_VERIFIED === 'true',
+    claims: {
+      email: process.env.OIDC_CLAIM_EMAIL || 'email',
+      emailVerified: process.env.OIDC_CLAIM_EMAIL_VERIFIED || 'email_verified',
+      firstName: process.env.OIDC_CLAIM_FIRST_NAME || 'given_name',
+      lastName: process.env.OIDC_CLAIM_LAST_NAME || 'family_name',
+      picture: process.env.OIDC_CLAIM_PICTURE || 'picture'
+    }
+  };
+};
+
+/**
+ * Check whether single sign-on is configured
+ */
+export const isOidcEnabled = (): boolean => getOidcConfig() !== null;
+
+/**
+ * Check whether password login and signup are turned off in favour of single sign-on
+ */
+export const isPasswordLoginDisabled = (): boolean =>
+  isOidcEnabled() && process.env.OIDC_DISABLE_PASSWORD_LOGIN === 'true';
+
+/**
+ * Read a claim by name, supporting dotted paths for nested claims (e.g. "profile.first_name")
+ */
+const getClaim = (claims: Record<string, any>, path: string): any =>
+  path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), claims);
+
+/**
+ * Make a name fit the user schema (2-50 characters)
+ */
+const normalizeName = (value: unknown, fallback: string): string => {
+  const name = typeof value === 'string' ? value.trim().slice(0, 50) : '';
+  return name.length >= 2 ? name : fallback;
+};
+
+const base64UrlSha256 = (value: string): string =>
+  crypto.createHash('sha256').update(value).digest('base64url');
+
+export class OidcService {
+  private metadata: { issuer: string; value: ProviderMetadata; fetchedAt: number } | null = null;
+  private signingKeys = new Map<string, crypto.KeyObject>();
+
+  /**
+   * Start a login: store state, nonce and PKCE verifier and build the provider URL
+   * @returns URL to redirect the browser to
+   */
+  async createAuthorizationUrl(): Promise<string> {
+    const config = this.requireConfig();
+    const metadata = await this.getMetadata(config);
+
+    const state = generateSecureToken();
+    const nonce = generateSecureToken();
+    const codeVerifier = generateSecureToken(48);
+
+    await OidcState.create({
+      stateHash: hashToken(state),
+      codeVerifier,
+      nonce,
+      expiresAt: new Date(Date.now() + STATE_EXPIRES_MS)
+    });
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', config.clientId);
+    url.searchParams.set('redirect_uri', config.redirectUri);
+    url.searchParams.set('scope', config.scopes);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', base64UrlSha256(codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return url.toString();
+  }
+
+  /**
+   * Finish a login: redeem the authorization code, verify the ID token
+   * and find, link or create the matching user
+   */
+  async handleCallback(code: string, state: string): Promise<OidcLoginResult> {
+    const config = this.requireConfig();
+
+    // Each state can only be used once
+    const pending = await OidcState.findOneAndDelete({ stateHash: hashToken(state) });
+    if (!pending || pending.expiresAt <= new Date()) {
+      throw new Error('Invalid or expired login state');
+    }
+
+    const metadata = await this.getMetadata(config);
+    const tokens = await this.exchangeCode(config, metadata, code, pending.codeVerifier);
+    const claims = await this.verifyIdToken(config, metadata, tokens.id_token, pending.nonce);
+
+    // Some providers only return profile claims from the userinfo endpoint
+    if (!getClaim(claims, config.claims.email) && metadata.userinfo_endpoint && tokens.access_token) {
+      const userInfo = await this.fetchUserInfo(metadata.userinfo_endpoint, tokens.access_token);
+      if (userInfo.sub === claims.sub) {
+        Object.assign(claims, userInfo, { sub: claims.sub });
+      }
+    }
+
+    return await this.findOrCreateUser(config, this.mapClaims(config, claims));
+  }
+
+  private requireConfig(): OidcConfig {
+    const config = getOidcConfig();
+    if (!config) {
+      throw new Error('Single sign-on is not configured');
+    }
+    return config;
+  }
+
+  private async getMetadata(config: OidcConfig): Promise<ProviderMetadata> {
+    if (
+      this.metadata &&
+      this.metadata.issuer === config.issuer &&
+      Date.now() - this.metadata.fetchedAt < METADATA_CACHE_MS
+    ) {
+      return this.metadata.value;
+    }
+
+    const response = await fetch(`${config.issuer}/.well-known/openid-configuration`);
+    if (!response.ok) {
+      throw new Error(`OIDC discovery failed with status ${response.status}`);
+    }
+
+    const value = await response.json() as ProviderMetadata;
+    if (value.issuer.replace(/\/+$/, '') !== config.issuer) {
+      throw new Error('OIDC discovery returned a different issuer');
+    }
+
+    this.metadata = { issuer: config.issuer, value, fetchedAt: Date.now() };
+    this.signingKeys.clear();
+
+    return value;
+  }
+
+  private async exchangeCode(
+    config: OidcConfig,
+    metadata: ProviderMetadata,
+    code: string,
+    codeVerifier: string
+  ): Promise<{ id_token: string; access_token?: string }> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.redirectUri,
+      client_id: config.clientId,
+      code_verifier: codeVerifier
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    if (config.clientSecret) {
+      const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(metadata.token_endpoint, { method: 'POST', headers, body });
+    if (!response.ok) {
+      throw new Error('Authorization code exchange failed');
+    }
+
+    const tokens = await response.json() as { id_token?: string; access_token?: string };
+    if (!tokens.id_token) {
+      throw new Error('Authorization code exchange failed');
+    }
+
+    return { id_token: tokens.id_token, access_token: tokens.access_token };
+  }
+
+  private async verifyIdToken(
+    config: OidcConfig,
+    metadata: ProviderMetadata,
+    idToken: string,
+    nonce: string
+  ): Promise<Record<string, any>> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('Invalid ID token');
+    }
+
+    const key = await this.getSigningKey(metadata, decoded.header.kid);
+
+    let claims: jwt.JwtPayload;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: SIGNING_ALGORITHMS,
+        issuer: metadata.issuer,
+        audience: config.clientId
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      throw new Error('Invalid ID token');
+    }
+
+    if (claims.nonce !== nonce || !claims.sub) {
+      throw new Error('Invalid ID token');
+    }
+
+    return claims;
+  }
+
+  private async getSigningKey(metadata: ProviderMetadata, kid?: string): Promise<crypto.KeyObject> {
+    const cacheKey = kid || 'default';
+    const cached = this.signingKeys.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    // Unknown key ID: the provider may have rotated its keys, so reload them
+    const response = await fetch(metadata.jwks_uri);
+    if (!response.ok) {
+      throw new Error(`Fetching OIDC signing keys failed with status ${response.status}`);
+    }
+
+    const { keys = [] } = await response.json() as { keys?: Array<crypto.JsonWebKey & { kid?: string; use?: string }> };
+    this.signingKeys.clear();
+    for (const jwk of keys) {
+      if (jwk.use && jwk.use !== 'sig') continue;
+      this.signingKeys.set(jwk.kid || 'default', crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+
+    const key = this.signingKeys.get(cacheKey) || (!kid && keys.length === 1 ? [...this.signingKeys.values()][0] : undefined);
+    if (!key) {
+      throw new Error('Invalid ID token');
+    }
+
+    return key;
+  }
+
+  private async fetchUserInfo(endpoint: string, accessToken: string): Promise<Record<string, any>> {
+    const response = await fetch(endpoint, { headers: { Authorization: `Bearer ${accessToken}` } });
+    if (!response.ok) {
+      return {};
+    }
+    return await response.json() as Record<string, any>;
+  }
+
+  private mapClaims(config: OidcConfig, claims: Record<string, any>): OidcProfile {
+    const email = getClaim(claims, config.claims.email);
+    const emailVerified = getClaim(claims, config.claims.emailVerified);
+
+    return {
+      subject: String(claims.sub),
+      email: typeof email === 'string' ? email.trim().toLowerCase() : undefined,
+      emailVerified: config.assumeEmailVerified || emailVerified === true || emailVerified === 'true',
+      firstName: getClaim(claims, config.claims.firstName),
+      lastName: getClaim(claims, config.claims.lastName),
+      picture: getClaim(claims, config.claims.picture)
+    };
+  }
+
+  private async findOrCreateUser(config: OidcConfig, profile: OidcProfile): Promise<OidcLoginResult> {
+    // Returning user
+    const existing = await User.findOne({
+      identities: { $elemMatch: { provider: config.issuer, subject: profile.subject } }
+    });
+    if (existing) {
+      return { user: existing, created: false, linked: false };
+    }
+
+    if (!profile.email) {
+      throw new Error('Identity provider did not return an email address');
+    }
+
+    // Link an existing local account, but only when the provider vouches for the email
+    const userWithEmail = await User.findOne({ email: profile.email });
+    if (userWithEmail) {
+      if (!profile.emailVerified) {
+        throw new Error('Email address is not verified by the identity provider');
+      }
+
+      userWithEmail.identities.push({ provider: config.issuer, subject: profile.subject, linkedAt: new Date() });
+      if (!userWithEmail.emailVerified) {
+        userWithEmail.emailVerified = true;
+        userWithEmail.emailVerifiedAt = new Date();
+      }
+      await userWithEmail.save();
+
+      return { user: userWithEmail, created: false, linked: true };
+    }
+
+    // Just-in-time provisioning; the random password is never shown, so only SSO (or a reset) works
+    const localPart = profile.email.split('@')[0];
+    const isFirstUser = (await User.countDocuments({})) === 0;
+    const user = await User.create({
+      firstName: normalizeName(profile.firstName, normalizeName(localPart, 'User')),
+      lastName: normalizeName(profile.lastName, 'User'),
+      email: profile.email,
+      password: generateSecureToken(),
+      role: isFirstUser ? 'owner' : 'member',
+      emailVerified: profile.emailVerified,
+      emailVerifiedAt: profile.emailVerified ? new Date() : undefined,
+      profilePicture: typeof profile.picture === 'string' ? profile.picture : '',
+      identities: [{ provider: config.issuer, subject: profile.subject, linkedAt: new Date() }]
+    });
+
+    return { user, created: true, linked: false };
+  }
+}
+
+export const oidcService = new OidcService();
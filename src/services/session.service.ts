@@ -0,0 +1,221 @@
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import Session, { ISession } from '../models/session.model';
+import { generateSecureToken, hashToken, safeCompare } from '../utils/crypto.util';
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface AccessTokenPayload {
+  id: string;
+  sid: string;
+  wid: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  accessTokenExpiresIn: string;
+  refreshTokenExpiresAt: Date;
+  session: ISession;
+}
+
+const getAccessTokenExpiresIn = (): string => process.env.JWT_EXPIRES_IN || '15m';
+const getRefreshTokenTtlDays = (): number => parseInt(process.env.REFRESH_TOKEN_EXPIRES_IN_DAYS || '30', 10);
+
+export class SessionService {
+  /**
+   * Create a new session and issue its first access/refresh token pair
+   */
+  async createSession(
+    userId: mongoose.Types.ObjectId | string,
+    workspaceId: mongoose.Types.ObjectId | string,
+    metadata: SessionMetadata = {}
+  ): Promise<AuthTokens> {
+    const secret = generateSecureToken();
+    const expiresAt = this.getRefreshTokenExpiry();
+
+    const session = await Session.create({
+      user: userId,
+      workspace: workspaceId,
+      refreshTokenHash: hashToken(secret),
+      userAgent: metadata.userAgent || '',
+      ipAddress: metadata.ipAddress || '',
+      lastUsedAt: new Date(),
+      expiresAt
+    });
+
+    return this.buildTokens(session, secret);
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair, rotating the refresh token
+   * Presenting an already rotated refresh token revokes the whole session
+   */
+  async refreshSession(refreshToken: string, metadata: SessionMetadata = {}): Promise<AuthTokens> {
+    const [sessionId, secret] = refreshToken.split('.');
+
+    if (!sessionId || !secret || !mongoose.Types.ObjectId.isValid(sessionId)) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const session = await Session.findById(sessionId);
+    // Sessions from before workspaces existed have to log in again
+    if (!session || session.revokedAt || session.expiresAt <= new Date() || !session.workspace) {
+      throw new Error('Invalid refresh token');
+    }
+
+    if (!safeCompare(session.refreshTokenHash, hashToken(secret))) {
+      // The token was already rotated - assume it leaked and kill the session
+      session.revokedAt = new Date();
+      session.revokedReason = 'refresh_token_reuse';
+      await session.save();
+      throw new Error('Refresh token reuse detected');
+    }
+
+    const newSecret = generateSecureToken();
+    session.refreshTokenHash = hashToken(newSecret);
+    session.lastUsedAt = new Date();
+    session.expiresAt = this.getRefreshTokenExpiry();
+    if (metadata.userAgent) session.userAgent = metadata.userAgent;
+    if (metadata.ipAddress) session.ipAddress = metadata.ipAddress;
+    await session.save();
+
+    return this.buildTokens(session, newSecret);
+  }
+
+  /**
+   * Verify an access token signature and expiry
+   */
+  verifyAccessToken(token: string): AccessTokenPayload {
+    const decoded = jwt.verify(
+      token,
+      process.env.JWT_SECRET || 'fallback_secret'
+    ) as Partial<AccessTokenPayload>;
+
+    if (!decoded.id || !decoded.sid || !decoded.wid) {
+      throw new Error('Token is not bound to a session');
+    }
+
+    return { id: decoded.id, sid: decoded.sid, wid: decoded.wid };
+  }
+
+  /**
+   * Get a session if it is still active for the given user
+   */
+  async getActiveSession(sessionId: string, userId: string): Promise<ISession | null> {
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+      return null;
+    }
+
+    return await Session.findOne({
+      _id: sessionId,
+      user: userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() }
+    });
+  }
+
+  /**
+   * Move a session to another workspace and issue a token pair for it
+   * Membership must be checked by the caller
+   */
+  async switchWorkspace(
+    sessionId: string,
+    userId: mongoose.Types.ObjectId | string,
+    workspaceId: mongoose.Types.ObjectId | string
+  ): Promise<AuthTokens> {
+    const session = await this.getActiveSession(sessionId, userId.toString());
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const secret = generateSecureToken();
+    session.workspace = new mongoose.Types.ObjectId(workspaceId.toString());
+    session.refreshTokenHash = hashToken(secret);
+    session.lastUsedAt = new Date();
+    await session.save();
+
+    return this.buildTokens(session, secret);
+  }
+
+  /**
+   * List active sessions for a user, most recently used first
+   */
+  async listSessions(userId: mongoose.Types.ObjectId | string): Promise<ISession[]> {
+    return await Session.find({
+      user: userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() }
+    })
+      .select('-refreshTokenHash')
+      .sort({ lastUsedAt: -1 });
+  }
+
+  /**
+   * Revoke a single session belonging to a user
+   */
+  async revokeSession(
+    sessionId: mongoose.Types.ObjectId | string,
+    userId: mongoose.Types.ObjectId | string,
+    reason: string = 'logout'
+  ): Promise<boolean> {
+    const result = await Session.updateOne(
+      { _id: sessionId, user: userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Revoke all sessions of a user, optionally keeping one (e.g. the current device)
+   * @returns IDs of the sessions that were revoked
+   */
+  async revokeAllSessions(
+    userId: mongoose.Types.ObjectId | string,
+    reason: string = 'logout_all',
+    exceptSessionId?: string
+  ): Promise<string[]> {
+    const filter: any = { user: userId, revokedAt: { $exists: false } };
+    if (exceptSessionId) {
+      filter._id = { $ne: exceptSessionId };
+    }
+
+    const sessions = await Session.find(filter).select('_id');
+    const sessionIds = sessions.map(session => session._id);
+
+    if (sessionIds.length > 0) {
+      await Session.updateMany(
+        { _id: { $in: sessionIds } },
+        { $set: { revokedAt: new Date(), revokedReason: reason } }
+      );
+    }
+
+    return sessionIds.map(id => id.toString());
+  }
+
+  private buildTokens(session: ISession, secret: string): AuthTokens {
+    const accessToken = jwt.sign(
+      { id: session.user.toString(), sid: session._id.toString(), wid: session.workspace?.toString() },
+      process.env.JWT_SECRET || 'fallback_secret',
+      { expiresIn: getAccessTokenExpiresIn() as jwt.SignOptions['expiresIn'] }
+    );
+
+    return {
+      accessToken,
+      refreshToken: `${session._id.toString()}.${secret}`,
+      accessTokenExpiresIn: getAccessTokenExpiresIn(),
+      refreshTokenExpiresAt: session.expiresAt,
+      session
+    };
+  }
+
+  private getRefreshTokenExpiry(): Date {
+    return new Date(Date.now() + getRefreshTokenTtlDays() * 24 * 60 * 60 * 1000);
+  }
+}
+
+export const sessionService = new SessionService();
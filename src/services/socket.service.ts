@@ -1,15 +1,23 @@
 import { Server as HttpServer } from 'http';
 import { Server, Socket } from 'socket.io';
-import jwt from 'jsonwebtoken';
 import User from '../models/user.model';
 import Group from '../models/group.model';
 import { MessageService } from './message.service';
-import { createMessageSchema } from '../validations/message.validation';
+import { sessionService } from './session.service';
+import { isEmailVerificationRequired } from './emailVerification.service';
+import { workspaceService } from './workspace.service';
+import { blockService } from './block.service';
+import { createMessageSchema, editMessageEventSchema, reactionEventSchema } from '../validations/message.validation';
+import Message, { IMessage } from '../models/message.model';
+import { INotification } from '../models/notification.model';
+import { formatMessage, FormattedMessage } from '../utils/messageFormat.util';
 import mongoose from 'mongoose';
 
 // Interface for authenticated socket
 interface AuthenticatedSocket extends Socket {
   userId?: string;
+  sessionId?: string;
+  workspaceId?: string;
 }
 
 export default class SocketService {
@@ -40,10 +48,13 @@ export default class SocketService {
         }
 
         // Verify token
-        const decoded = jwt.verify(
-          token,
-          process.env.JWT_SECRET || 'fallback_secret'
-        ) as { id: string };
+        const decoded = sessionService.verifyAccessToken(token);
+
+        // Reject tokens whose session was revoked
+        const session = await sessionService.getActiveSession(decoded.sid, decoded.id);
+        if (!session) {
+          return next(new Error('Authentication error: Session revoked'));
+        }
 
         // Check if user exists
         const user = await User.findById(decoded.id);
@@ -51,8 +62,15 @@ export default class SocketService {
           return next(new Error('Authentication error: User not found'));
         }
 
-        // Attach user ID to socket
+        // Reject users who were removed from the session's workspace
+        if (!(await workspaceService.isMember(decoded.wid, decoded.id))) {
+          return next(new Error('Authentication error: Not a member of this workspace'));
+        }
+
+        // Attach user, session and workspace IDs to socket
         socket.userId = decoded.id;
+        socket.sessionId = decoded.sid;
+        socket.workspaceId = decoded.wid;
         next();
       } catch (error) {
         next(new Error('Authentication error: Invalid token'));
@@ -72,6 +90,16 @@ export default class SocketService {
 
         // Join user's personal room
         socket.join(socket.userId);
+
+        // Join session room so the session can be disconnected when revoked
+        if (socket.sessionId) {
+          socket.join(`session:${socket.sessionId}`);
+        }
+
+        // Join workspace room for presence updates
+        if (socket.workspaceId) {
+          socket.join(`workspace:${socket.workspaceId}`);
+        }
         
         // Emit user online status
         this.emitUserStatus(socket.userId, 'online');
@@ -85,32 +113,40 @@ export default class SocketService {
             return;
           }
 
+          // Block unverified accounts when verification is required
+          if (isEmailVerificationRequired()) {
+            const sender = await User.findById(socket.userId).select('emailVerified');
+            if (!sender?.emailVerified) {
+              socket.emit('error', { message: 'Please verify your email address to use this feature' });
+              return;
+            }
+          }
+
           // Validate message data
-          const { content, receiver, group } = createMessageSchema.parse(data);
+          const { content, receiver, group, parentMessage, quotedMessage, forwardedMessage, attachments } = createMessageSchema.parse(data);
           const senderId = new mongoose.Types.ObjectId(socket.userId);
+          const workspaceId = new mongoose.Types.ObjectId(socket.workspaceId);
 
           const receiverId = receiver ? new mongoose.Types.ObjectId(receiver) : undefined;
           const groupId = group ? new mongoose.Types.ObjectId(group) : undefined;
 
           // Send message using service
-          const message = await this.messageService.sendMessage(senderId, content, receiverId, groupId);
-
-          // Format message for frontend
-          const formattedMessage = {
-            _id: message._id.toString(),
-            text: message.content,
-            sender: {
-              _id: message.sender._id.toString(),
-              firstName: (message.sender as any).firstName,
-              lastName: (message.sender as any).lastName,
-              profilePicture: (message.sender as any).profilePictureUrl
-            },
-            timestamp: message.createdAt.toISOString(),
-            isOwn: false // Will be set correctly for each recipient
-          };
+          const message = await this.messageService.sendMessage(workspaceId, senderId, content ?? '', receiverId, groupId, {
+            parentMessageId: parentMessage ? new mongoose.Types.ObjectId(parentMessage) : undefined,
+            quotedMessageId: quotedMessage ? new mongoose.Types.ObjectId(quotedMessage) : undefined,
+            forwardedMessageId: forwardedMessage ? new mongoose.Types.ObjectId(forwardedMessage) : undefined,
+            attachmentIds: attachments?.map(attachmentId => new mongoose.Types.ObjectId(attachmentId)),
+            onlineUserIds: this.getOnlineUsers()
+          });
+
+          // Format message for frontend (isOwn is set for each recipient)
+          const formattedMessage = formatMessage(message);
 
           // Emit message to appropriate recipients
-          if (receiverId) {
+          if (message.parentMessage) {
+            // Thread reply, kept out of the main conversation stream
+            await this.emitThreadReply(formattedMessage, message);
+          } else if (receiverId) {
             // Direct message
             this.emitDirectMessage(socket.userId, receiverId.toString(), formattedMessage);
           } else if (groupId) {
@@ -118,6 +154,8 @@ export default class SocketService {
             this.emitGroupMessage(groupId.toString(), formattedMessage);
           }
 
+          this.emitNotifications(await this.messageService.notifyMentions(workspaceId, message));
+
           // Acknowledge to sender
           socket.emit('message-sent', {
             success: true,
@@ -132,6 +170,47 @@ export default class SocketService {
         }
       });
 
+      // Handle editing messages via WebSocket
+      socket.on('edit-message', async (data) => {
+        try {
+          if (!socket.userId) {
+            socket.emit('error', { message: 'Authentication required' });
+            return;
+          }
+
+          const { messageId, content } = editMessageEventSchema.parse(data);
+          const workspaceId = new mongoose.Types.ObjectId(socket.workspaceId);
+
+          const message = await this.messageService.editMessage(
+            workspaceId,
+            new mongoose.Types.ObjectId(messageId),
+            new mongoose.Types.ObjectId(socket.userId),
+            content,
+            this.getOnlineUsers()
+          );
+
+          if (message.editedAt) {
+            this.emitMessageEdited(formatMessage(message), message.receiver?.toString(), message.group?.toString());
+            this.emitNotifications(await this.messageService.notifyMentions(workspaceId, message));
+          }
+
+        } catch (error) {
+          console.error('Error editing message:', error);
+          socket.emit('error', { 
+            message: error instanceof Error ? error.message : 'Failed to edit message' 
+          });
+        }
+      });
+
+      // Handle adding and removing reactions via WebSocket
+      socket.on('add-reaction', async (data) => {
+        await this.handleReaction(socket, 'add', data);
+      });
+
+      socket.on('remove-reaction', async (data) => {
+        await this.handleReaction(socket, 'remove', data);
+      });
+
       // Handle joining group rooms
       socket.on('join-group', async (groupId: string) => {
         try {
@@ -140,8 +219,8 @@ export default class SocketService {
             return;
           }
 
-          // Verify user is a member of the group
-          const group = await Group.findById(groupId);
+          // Verify user is a member of the group in the current workspace
+          const group = await Group.findOne({ _id: groupId, workspace: socket.workspaceId });
           if (!group) {
             socket.emit('error', { message: 'Group not found' });
             return;
@@ -179,39 +258,13 @@ export default class SocketService {
         });
       });
 
-      // Handle typing indicators
-      socket.on('typing-start', (data: { receiverId?: string; groupId?: string }) => {
-        if (data.receiverId) {
-          // Direct message typing
-          socket.to(data.receiverId).emit('user-typing', {
-            userId: socket.userId,
-            type: 'direct'
-          });
-        } else if (data.groupId) {
-          // Group message typing
-          socket.to(`group:${data.groupId}`).emit('user-typing', {
-            userId: socket.userId,
-            groupId: data.groupId,
-            type: 'group'
-          });
-        }
+      // Handle typing indicators (never shown to users who blocked the typist)
+      socket.on('typing-start', async (data: { receiverId?: string; groupId?: string }) => {
+        await this.emitTyping(socket, 'user-typing', data);
       });
 
-      socket.on('typing-stop', (data: { receiverId?: string; groupId?: string }) => {
-        if (data.receiverId) {
-          // Direct message typing stopped
-          socket.to(data.receiverId).emit('user-stopped-typing', {
-            userId: socket.userId,
-            type: 'direct'
-          });
-        } else if (data.groupId) {
-          // Group message typing stopped
-          socket.to(`group:${data.groupId}`).emit('user-stopped-typing', {
-            userId: socket.userId,
-            groupId: data.groupId,
-            type: 'group'
-          });
-        }
+      socket.on('typing-stop', async (data: { receiverId?: string; groupId?: string }) => {
+        await this.emitTyping(socket, 'user-stopped-typing', data);
       });
 
       // Handle message read status
@@ -223,9 +276,10 @@ export default class SocketService {
           }
 
           const userId = new mongoose.Types.ObjectId(socket.userId);
+          const workspaceId = new mongoose.Types.ObjectId(socket.workspaceId);
           const objectIds = data.messageIds.map(id => new mongoose.Types.ObjectId(id));
 
-          await this.messageService.markMessagesAsRead(userId, objectIds);
+          await this.messageService.markMessagesAsRead(workspaceId, userId, objectIds);
 
           // Emit read receipt to message senders
           // This could be enhanced to notify specific users
@@ -261,6 +315,66 @@ export default class SocketService {
     });
   }
 
+  // Apply a reaction change from a socket and broadcast the result
+  private async handleReaction(socket: AuthenticatedSocket, action: 'add' | 'remove', data: unknown) {
+    try {
+      if (!socket.userId) {
+        socket.emit('error', { message: 'Authentication required' });
+        return;
+      }
+
+      const { messageId, emoji } = reactionEventSchema.parse(data);
+      const workspaceId = new mongoose.Types.ObjectId(socket.workspaceId);
+      const userId = new mongoose.Types.ObjectId(socket.userId);
+
+      const message = action === 'add'
+        ? await this.messageService.addReaction(workspaceId, new mongoose.Types.ObjectId(messageId), userId, emoji)
+        : await this.messageService.removeReaction(workspaceId, new mongoose.Types.ObjectId(messageId), userId, emoji);
+
+      this.emitReactionUpdated(message);
+    } catch (error) {
+      console.error('Error updating reaction:', error);
+      socket.emit('error', { 
+        message: error instanceof Error ? error.message : 'Failed to update reaction' 
+      });
+    }
+  }
+
+  // Relay a typing indicator to a direct conversation or group, skipping blockers
+  private async emitTyping(
+    socket: AuthenticatedSocket,
+    event: 'user-typing' | 'user-stopped-typing',
+    data: { receiverId?: string; groupId?: string }
+  ) {
+    if (!socket.userId) {
+      return;
+    }
+
+    try {
+      const blockerIds = await blockService.getBlockerIds(socket.userId);
+
+      if (data.receiverId) {
+        // Direct message typing
+        if (blockerIds.includes(data.receiverId)) {
+          return;
+        }
+        socket.to(data.receiverId).emit(event, {
+          userId: socket.userId,
+          type: 'direct'
+        });
+      } else if (data.groupId) {
+        // Group message typing (personal rooms are named after the user ID)
+        socket.to(`group:${data.groupId}`).except(blockerIds).emit(event, {
+          userId: socket.userId,
+          groupId: data.groupId,
+          type: 'group'
+        });
+      }
+    } catch (error) {
+      console.error('Error emitting typing indicator:', error);
+    }
+  }
+
   // Method to emit a direct message
   public emitDirectMessage(senderId: string, receiverId: string, message: any) {
     // Emit to sender's room (with isOwn: true)
@@ -279,9 +393,101 @@ export default class SocketService {
     });
   }
 
-  // Method to emit user status changes
-  public emitUserStatus(userId: string, status: 'online' | 'offline') {
-    this.io.emit('user-status', { userId, status });
+  // Method to emit user status changes to the workspaces the user belongs to
+  public async emitUserStatus(userId: string, status: 'online' | 'offline') {
+    try {
+      const workspaces = await workspaceService.getUserWorkspaces(userId);
+      // Users who blocked this user do not see their presence
+      const blockerIds = await blockService.getBlockerIds(userId);
+      workspaces.forEach(workspace => {
+        this.io.to(`workspace:${workspace._id.toString()}`).except(blockerIds).emit('user-status', { userId, status });
+      });
+    } catch (error) {
+      console.error('Error emitting user status:', error);
+    }
+  }
+
+  // Method to emit a thread reply to the thread participants
+  // The conversation itself only gets a thread-updated summary
+  public async emitThreadReply(message: FormattedMessage, reply: IMessage) {
+    try {
+      const root = await Message.findById(reply.parentMessage)
+        .select('sender receiver group replyCount lastReplyAt threadParticipants');
+      if (!root) {
+        return;
+      }
+
+      const threadId = root._id.toString();
+      const summary = {
+        messageId: threadId,
+        replyCount: root.replyCount,
+        lastReplyAt: root.lastReplyAt?.toISOString()
+      };
+      const senderId = message.sender._id;
+
+      if (root.group) {
+        // Only notify participants who are still in the group
+        const groupId = root.group.toString();
+        const group = await Group.findById(groupId).select('members');
+        const memberIds = new Set((group?.members || []).map(member => member.toString()));
+        const recipients = root.threadParticipants
+          .map(participant => participant.toString())
+          .filter(participant => memberIds.has(participant) && participant !== senderId);
+
+        if (recipients.length > 0) {
+          this.io.to(recipients).emit('thread-reply', { ...message, threadId, groupId, isOwn: false });
+        }
+        this.io.to(senderId).emit('thread-reply', { ...message, threadId, groupId, isOwn: true });
+        this.io.to(`group:${groupId}`).emit('thread-updated', { ...summary, groupId });
+      } else {
+        const otherUserId = root.sender.toString() === senderId ? root.receiver!.toString() : root.sender.toString();
+
+        this.io.to(otherUserId).emit('thread-reply', { ...message, threadId, isOwn: false });
+        this.io.to(senderId).emit('thread-reply', { ...message, threadId, isOwn: true });
+        this.io.to([senderId, otherUserId]).emit('thread-updated', summary);
+      }
+    } catch (error) {
+      console.error('Error emitting thread reply:', error);
+    }
+  }
+
+  // Method to emit a message edit to the DM participants or the group room
+  public emitMessageEdited(message: FormattedMessage, receiverId?: string, groupId?: string) {
+    if (receiverId) {
+      // Direct message edit
+      this.io.to(message.sender._id).emit('message-edited', { ...message, isOwn: true });
+      this.io.to(receiverId).emit('message-edited', { ...message, isOwn: false });
+    } else if (groupId) {
+      // Group message edit
+      this.io.to(`group:${groupId}`).emit('message-edited', { ...message, groupId });
+    }
+  }
+
+  // Method to emit the reactions of a message to the DM participants or the group room
+  // Each reaction lists its users so clients can work out which ones are their own
+  public emitReactionUpdated(message: IMessage) {
+    const payload = {
+      messageId: message._id.toString(),
+      reactions: message.reactions.map(reaction => ({
+        emoji: reaction.emoji,
+        count: reaction.users.length,
+        users: reaction.users.map(user => user.toString())
+      }))
+    };
+
+    if (message.group) {
+      const groupId = message.group._id.toString();
+      this.io.to(`group:${groupId}`).emit('reaction-updated', { ...payload, groupId });
+    } else if (message.receiver) {
+      this.io.to(message.sender._id.toString()).to(message.receiver._id.toString()).emit('reaction-updated', payload);
+    }
+  }
+
+  // Method to push new notifications to their recipients
+  public emitNotifications(notifications: INotification[]) {
+    notifications.forEach(notification => {
+      this.io.to(notification.recipient.toString()).emit('notification', notification.toJSON());
+    });
   }
 
   // Method to emit message deletion
@@ -295,6 +501,12 @@ export default class SocketService {
     }
   }
 
+  // Method to disconnect all sockets of a revoked session
+  public disconnectSession(sessionId: string) {
+    this.io.to(`session:${sessionId}`).emit('session-revoked', { sessionId });
+    this.io.in(`session:${sessionId}`).disconnectSockets(true);
+  }
+
   // Method to get online users
   public getOnlineUsers(): string[] {
     return Array.from(this.userSockets.keys());
@@ -0,0 +1,49 @@
+import path from 'path';
+import { StorageDriver } from './storage/storageDriver';
+import { LocalStorageDriver } from './storage/localStorage.driver';
+import { S3StorageDriver } from './storage/s3Storage.driver';
+
+export type { StorageDriver, StoredFileInfo, PutFileOptions, SignedUrlOptions } from './storage/storageDriver';
+
+/** Lifetime of signed file URLs */
+export const getSignedUrlTtlSeconds = (): number => parseInt(process.env.FILE_URL_TTL_SECONDS || '3600', 10);
+
+/**
+ * Create the storage driver selected by STORAGE_DRIVER (local or s3)
+ */
+const createStorageDriver = (): StorageDriver => {
+  const driver = process.env.STORAGE_DRIVER || 'local';
+
+  switch (driver) {
+    case 'local':
+      return new LocalStorageDriver(process.env.FILES_DIR || path.join(process.cwd(), 'files'));
+    case 's3':
+      if (!process.env.S3_BUCKET) {
+        throw new Error('S3_BUCKET is required when STORAGE_DRIVER is s3');
+      }
+      return new S3StorageDriver({
+        bucket: process.env.S3_BUCKET,
+        region: process.env.S3_REGION || 'us-east-1',
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+        keyPrefix: process.env.S3_KEY_PREFIX || ''
+      });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+};
+
+let storageDriver: StorageDriver | null = null;
+
+/**
+ * Get the storage driver for uploaded files
+ * Created on first use so the environment is loaded by then
+ */
+export const getStorage = (): StorageDriver => {
+  if (!storageDriver) {
+    storageDriver = createStorageDriver();
+  }
+  return storageDriver;
+};
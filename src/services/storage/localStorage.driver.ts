@@ -0,0 +1,127 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { PutFileOptions, SignedUrlOptions, StorageDriver, StoredFileInfo } from './storageDriver';
+import { createUrlSignature } from '../../utils/crypto.util';
+
+/**
+ * Keep files in a directory on the local disk
+ * Signed URLs point at /files on this server and are checked by serveFile
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+    if (!fs.existsSync(this.rootDir)) {
+      fs.mkdirSync(this.rootDir, { recursive: true });
+      console.log(`📁 Created files directory: ${this.rootDir}`);
+    }
+  }
+
+  /**
+   * Resolve a key to a path, refusing keys that leave the root directory
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    const relativePath = path.relative(this.rootDir, filePath);
+    if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: Readable | Buffer, options: PutFileOptions = {}): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    // Write next to the target first so readers never see a partial file
+    const tempPath = path.join(this.rootDir, `.${uuidv4()}.tmp`);
+
+    try {
+      await pipeline(Buffer.isBuffer(body) ? Readable.from([body]) : body, fs.createWriteStream(tempPath));
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  async getStream(key: string, range?: { start: number; end: number }): Promise<Readable> {
+    const filePath = this.resolve(key);
+    if (!fs.existsSync(filePath)) {
+      throw new Error('File not found');
+    }
+
+    return fs.createReadStream(filePath, range);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const filePath = this.resolve(key);
+    if (!fs.existsSync(filePath)) {
+      return false;
+    }
+
+    await fs.promises.unlink(filePath);
+    return true;
+  }
+
+  async stat(key: string): Promise<StoredFileInfo | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return stats.isFile() ? { key, size: stats.size, lastModified: stats.mtime } : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async list(prefix: string = ''): Promise<StoredFileInfo[]> {
+    const dir = prefix ? this.resolve(prefix) : this.rootDir;
+
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const files: StoredFileInfo[] = [];
+    // Hidden entries are partial writes from put
+    for (const entry of entries.filter(candidate => candidate.isFile() && !candidate.name.startsWith('.'))) {
+      const info = await this.stat(`${prefix}${entry.name}`);
+      if (info) {
+        files.push(info);
+      }
+    }
+    return files;
+  }
+
+  async move(fromKey: string, toKey: string): Promise<void> {
+    const fromPath = this.resolve(fromKey);
+    const toPath = this.resolve(toKey);
+    if (!fs.existsSync(fromPath)) {
+      throw new Error('File not found');
+    }
+
+    await fs.promises.mkdir(path.dirname(toPath), { recursive: true });
+    await fs.promises.rename(fromPath, toPath);
+    // Renaming keeps the modification time; reset it so it records the move
+    const now = new Date();
+    await fs.promises.utimes(toPath, now, now);
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const expiresAt = Math.floor(Date.now() / 1000) + options.expiresInSeconds;
+    const signature = createUrlSignature(key, expiresAt);
+
+    return `${options.baseUrl}/files/${encodeURIComponent(key)}?expires=${expiresAt}&signature=${signature}`;
+  }
+}
@@ -0,0 +1,181 @@
+import { Readable } from 'stream';
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { PutFileOptions, SignedUrlOptions, StorageDriver, StoredFileInfo } from './storageDriver';
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  /** Custom endpoint for S3-compatible services such as MinIO */
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  /** Use bucket-in-path URLs, needed by MinIO */
+  forcePathStyle: boolean;
+  /** Prefix added to every key, e.g. "files/" */
+  keyPrefix: string;
+}
+
+const isNotFound = (error: unknown): boolean => {
+  return error instanceof S3ServiceException &&
+    (error.name === 'NotFound' || error.name === 'NoSuchKey' || error.$metadata.httpStatusCode === 404);
+};
+
+/**
+ * Keep files in an S3-compatible bucket so several server instances share them
+ * Signed URLs are presigned GET URLs served by the bucket itself
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  private client: S3Client;
+  private config: S3StorageConfig;
+
+  constructor(config: S3StorageConfig) {
+    this.config = config;
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      // Without explicit keys the default AWS credential chain is used
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined
+    });
+  }
+
+  private objectKey(key: string): string {
+    return `${this.config.keyPrefix}${key}`;
+  }
+
+  async put(key: string, body: Readable | Buffer, options: PutFileOptions = {}): Promise<void> {
+    if (!Buffer.isBuffer(body) && options.contentLength === undefined) {
+      throw new Error('contentLength is required to upload a stream');
+    }
+
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.objectKey(key),
+      Body: body,
+      ContentType: options.contentType,
+      ContentLength: Buffer.isBuffer(body) ? body.length : options.contentLength
+    }));
+  }
+
+  async getStream(key: string, range?: { start: number; end: number }): Promise<Readable> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: this.objectKey(key),
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined
+      }));
+
+      return response.Body as Readable;
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new Error('File not found');
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    // S3 deletes succeed for missing keys, so check first to report whether the file existed
+    if (!(await this.stat(key))) {
+      return false;
+    }
+
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.objectKey(key)
+    }));
+    return true;
+  }
+
+  async stat(key: string): Promise<StoredFileInfo | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({
+        Bucket: this.config.bucket,
+        Key: this.objectKey(key)
+      }));
+
+      return {
+        key,
+        size: response.ContentLength ?? 0,
+        lastModified: response.LastModified ?? new Date(0),
+        contentType: response.ContentType
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async list(prefix: string = ''): Promise<StoredFileInfo[]> {
+    const files: StoredFileInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.config.bucket,
+        Prefix: this.objectKey(prefix),
+        // Stop at the next "/" so subfolders are not listed
+        Delimiter: '/',
+        ContinuationToken: continuationToken
+      }));
+
+      for (const object of response.Contents ?? []) {
+        if (object.Key) {
+          files.push({
+            key: object.Key.slice(this.config.keyPrefix.length),
+            size: object.Size ?? 0,
+            lastModified: object.LastModified ?? new Date(0)
+          });
+        }
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return files;
+  }
+
+  async move(fromKey: string, toKey: string): Promise<void> {
+    // S3 has no rename: copy, then delete the original
+    try {
+      await this.client.send(new CopyObjectCommand({
+        Bucket: this.config.bucket,
+        CopySource: encodeURI(`${this.config.bucket}/${this.objectKey(fromKey)}`),
+        Key: this.objectKey(toKey)
+      }));
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new Error('File not found');
+      }
+      throw error;
+    }
+
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.objectKey(fromKey)
+    }));
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    return await getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.config.bucket, Key: this.objectKey(key) }),
+      { expiresIn: options.expiresInSeconds }
+    );
+  }
+}
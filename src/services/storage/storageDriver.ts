@@ -0,0 +1,70 @@
+import { Readable } from 'stream';
+
+export interface StoredFileInfo {
+  key: string;
+  size: number;
+  lastModified: Date;
+  contentType?: string;
+}
+
+export interface PutFileOptions {
+  contentType?: string;
+  /** Required for streams by S3-compatible drivers */
+  contentLength?: number;
+}
+
+export interface SignedUrlOptions {
+  expiresInSeconds: number;
+  /** Public base URL of this server, used by drivers that sign URLs to /files */
+  baseUrl: string;
+}
+
+/**
+ * Where uploaded files are kept
+ * Keys are file names (UUID + extension) generated by the server, optionally in a folder such as "quarantine/"
+ */
+export interface StorageDriver {
+  readonly name: string;
+
+  /**
+   * Store a file, replacing any file with the same key
+   */
+  put(key: string, body: Readable | Buffer, options?: PutFileOptions): Promise<void>;
+
+  /**
+   * Open a stored file for reading
+   * @param range - Inclusive byte range to read
+   * @throws Error('File not found') if the key does not exist
+   */
+  getStream(key: string, range?: { start: number; end: number }): Promise<Readable>;
+
+  /**
+   * Delete a stored file
+   * @returns True if the file existed
+   */
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Get the size and modification time of a stored file
+   * @returns The file information, or null if the key does not exist
+   */
+  stat(key: string): Promise<StoredFileInfo | null>;
+
+  /**
+   * List the files directly in a folder (not in its subfolders)
+   * @param prefix - Folder ending with "/", or "" for the top level
+   */
+  list(prefix?: string): Promise<StoredFileInfo[]>;
+
+  /**
+   * Move a file to another key
+   * The moved file's lastModified is the time of the move
+   * @throws Error('File not found') if the key does not exist
+   */
+  move(fromKey: string, toKey: string): Promise<void>;
+
+  /**
+   * Create a URL that downloads the file without authentication until it expires
+   */
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+}
@@ -0,0 +1,353 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import User, { IUser } from '../models/user.model';
+import { encryptSecret, decryptSecret, hashToken } from '../utils/crypto.util';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from '../utils/totp.util';
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: Date;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorChallengePayload {
+  id: string;
+  jti: string;
+  purpose: string;
+}
+
+const RECOVERY_CODE_COUNT = 10;
+// Wrong codes allowed per challenge before the password has to be entered again
+const MAX_CHALLENGE_FAILURES = 3;
+const CHALLENGE_PURPOSE = '2fa_challenge';
+
+const getIssuer = (): string => process.env.TWO_FACTOR_ISSUER || 'Workplace Connect';
+const getChallengeExpiresIn = (): string => process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m';
+
+/**
+ * Normalize a recovery code so dashes, spaces and casing do not matter
+ */
+const normalizeRecoveryCode = (code: string): string => code.replace(/[\s-]/g, '').toLowerCase();
+
+export class TwoFactorService {
+  /**
+   * Start enrolment by generating a new secret that must be confirmed with a code
+   */
+  async beginSetup(userId: mongoose.Types.ObjectId | string): Promise<TwoFactorSetup> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.twoFactor?.enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await User.updateOne(
+      { _id: userId },
+      { $set: { 'twoFactor.pendingSecret': encryptSecret(secret) } }
+    );
+
+    return {
+      secret,
+      otpauthUrl: buildOtpauthUri(secret, user.email, getIssuer())
+    };
+  }
+
+  /**
+   * Confirm enrolment with a code from the authenticator app
+   * @returns Recovery codes - shown to the user once, only their hashes are stored
+   */
+  async confirmSetup(userId: mongoose.Types.ObjectId | string, code: string): Promise<string[]> {
+    const user = await this.findWithSecrets(userId);
+
+    if (user.twoFactor?.enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    if (!user.twoFactor?.pendingSecret) {
+      throw new Error('Two-factor setup has not been started');
+    }
+
+    const secret = decryptSecret(user.twoFactor.pendingSecret);
+    const timeStep = verifyTotp(secret, code);
+    if (timeStep === null) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await User.updateOne(
+      { _id: userId },
+      {
+        $set: {
+          'twoFactor.enabled': true,
+          'twoFactor.secret': user.twoFactor.pendingSecret,
+          'twoFactor.recoveryCodes': recoveryCodes.map(recoveryCode => hashToken(normalizeRecoveryCode(recoveryCode))),
+          'twoFactor.lastUsedTimeStep': timeStep,
+          'twoFactor.enabledAt': new Date()
+        },
+        $unset: { 'twoFactor.pendingSecret': '' }
+      }
+    );
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Disable two-factor authentication after re-checking the password and a code
+   */
+  async disable(userId: mongoose.Types.ObjectId | string, password: string, code: string): Promise<void> {
+    const user = await this.findWithSecrets(userId);
+
+    if (!user.twoFactor?.enabled) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    if (!(await user.comparePassword(password))) {
+      throw new Error('Password is incorrect');
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    await User.updateOne(
+      { _id: userId },
+      {
+        $set: { 'twoFactor.enabled': false },
+        $unset: {
+          'twoFactor.secret': '',
+          'twoFactor.pendingSecret': '',
+          'twoFactor.recoveryCodes': '',
+          'twoFactor.lastUsedTimeStep': '',
+          'twoFactor.challengeId': '',
+          'twoFactor.challengeFailures': '',
+          'twoFactor.enabledAt': ''
+        }
+      }
+    );
+  }
+
+  /**
+   * Replace all recovery codes after verifying an authenticator code
+   * @returns New recovery codes
+   */
+  async regenerateRecoveryCodes(userId: mongoose.Types.ObjectId | string, code: string): Promise<string[]> {
+    const user = await this.findWithSecrets(userId);
+
+    if (!user.twoFactor?.enabled || !user.twoFactor.secret) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    if (!(await this.verifyTotpCode(user, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await User.updateOne(
+      { _id: userId },
+      { $set: { 'twoFactor.recoveryCodes': recoveryCodes.map(recoveryCode => hashToken(normalizeRecoveryCode(recoveryCode))) } }
+    );
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Get the two-factor status of a user
+   */
+  async getStatus(userId: mongoose.Types.ObjectId | string): Promise<TwoFactorStatus> {
+    const user = await this.findWithSecrets(userId);
+
+    return {
+      enabled: !!user.twoFactor?.enabled,
+      enabledAt: user.twoFactor?.enabledAt,
+      recoveryCodesRemaining: user.twoFactor?.enabled ? (user.twoFactor.recoveryCodes || []).length : 0
+    };
+  }
+
+  /**
+   * Verify a TOTP code or consume a one-time recovery code
+   */
+  async verifyCode(user: IUser, code: string): Promise<boolean> {
+    const trimmedCode = code.trim();
+
+    if (/^\d{6}$/.test(trimmedCode)) {
+      return this.verifyTotpCode(user, trimmedCode);
+    }
+
+    return this.consumeRecoveryCode(user, trimmedCode);
+  }
+
+  /**
+   * Issue a short-lived token proving the password step of login succeeded
+   * Only the latest challenge of a user is valid, and it can be completed once
+   */
+  async issueChallenge(userId: mongoose.Types.ObjectId | string): Promise<string> {
+    const challengeId = crypto.randomUUID();
+
+    await User.updateOne(
+      { _id: userId },
+      { $set: { 'twoFactor.challengeId': hashToken(challengeId), 'twoFactor.challengeFailures': 0 } }
+    );
+
+    return jwt.sign(
+      { id: userId.toString(), jti: challengeId, purpose: CHALLENGE_PURPOSE },
+      process.env.JWT_SECRET || 'fallback_secret',
+      { expiresIn: getChallengeExpiresIn() as jwt.SignOptions['expiresIn'] }
+    );
+  }
+
+  /**
+   * Find the user a pending login challenge was issued to
+   * @throws Error('Invalid or expired two-factor challenge') if the challenge is invalid, expired or used up
+   */
+  async getChallengeUser(challengeToken: string): Promise<IUser> {
+    const decoded = this.decodeChallenge(challengeToken);
+
+    const user = await User.findById(decoded.id).select('+twoFactor.challengeId');
+    if (!user?.twoFactor?.enabled || user.twoFactor.challengeId !== hashToken(decoded.jti)) {
+      throw new Error('Invalid or expired two-factor challenge');
+    }
+
+    return user;
+  }
+
+  /**
+   * Complete the second login step
+   * The challenge is consumed on success and after MAX_CHALLENGE_FAILURES wrong codes
+   * @throws Error('Invalid two-factor code') for a wrong code
+   */
+  async completeChallenge(user: IUser, challengeToken: string, code: string): Promise<void> {
+    const decoded = this.decodeChallenge(challengeToken);
+    const challengeId = hashToken(decoded.jti);
+
+    if (decoded.id !== user._id.toString()) {
+      throw new Error('Invalid or expired two-factor challenge');
+    }
+
+    if (!(await this.verifyCode(await this.findWithSecrets(user._id.toString()), code))) {
+      const failed = await User.findOneAndUpdate(
+        { _id: user._id, 'twoFactor.challengeId': challengeId },
+        { $inc: { 'twoFactor.challengeFailures': 1 } },
+        { new: true }
+      ).select('+twoFactor.challengeFailures');
+
+      if (failed && (failed.twoFactor.challengeFailures ?? 0) >= MAX_CHALLENGE_FAILURES) {
+        await this.clearChallenge(user._id.toString(), challengeId);
+      }
+
+      throw new Error('Invalid two-factor code');
+    }
+
+    // Only the first request with this challenge may log in
+    if (!(await this.clearChallenge(user._id.toString(), challengeId))) {
+      throw new Error('Invalid or expired two-factor challenge');
+    }
+  }
+
+  /**
+   * Verify the signature, expiry and purpose of a challenge token
+   */
+  private decodeChallenge(challengeToken: string): TwoFactorChallengePayload {
+    let decoded: Partial<TwoFactorChallengePayload>;
+    try {
+      decoded = jwt.verify(
+        challengeToken,
+        process.env.JWT_SECRET || 'fallback_secret'
+      ) as Partial<TwoFactorChallengePayload>;
+    } catch {
+      throw new Error('Invalid or expired two-factor challenge');
+    }
+
+    if (!decoded.id || !decoded.jti || decoded.purpose !== CHALLENGE_PURPOSE) {
+      throw new Error('Invalid or expired two-factor challenge');
+    }
+
+    return decoded as TwoFactorChallengePayload;
+  }
+
+  /**
+   * Remove a pending challenge if it is still the current one
+   * @returns True if it was removed
+   */
+  private async clearChallenge(userId: mongoose.Types.ObjectId | string, challengeId: string): Promise<boolean> {
+    const result = await User.updateOne(
+      { _id: userId, 'twoFactor.challengeId': challengeId },
+      { $unset: { 'twoFactor.challengeId': '', 'twoFactor.challengeFailures': '' } }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Verify a TOTP code, rejecting codes from an already used time step
+   */
+  private async verifyTotpCode(user: IUser, code: string): Promise<boolean> {
+    if (!user.twoFactor?.secret) {
+      return false;
+    }
+
+    const timeStep = verifyTotp(decryptSecret(user.twoFactor.secret), code);
+    if (timeStep === null) {
+      return false;
+    }
+
+    // Only one login per code - the update fails if this or a later step was already used
+    const result = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [
+          { 'twoFactor.lastUsedTimeStep': { $exists: false } },
+          { 'twoFactor.lastUsedTimeStep': { $lt: timeStep } }
+        ]
+      },
+      { $set: { 'twoFactor.lastUsedTimeStep': timeStep } }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Atomically remove a matching recovery code
+   */
+  private async consumeRecoveryCode(user: IUser, code: string): Promise<boolean> {
+    const codeHash = hashToken(normalizeRecoveryCode(code));
+
+    const result = await User.updateOne(
+      { _id: user._id, 'twoFactor.recoveryCodes': codeHash },
+      { $pull: { 'twoFactor.recoveryCodes': codeHash } }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = crypto.randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  private async findWithSecrets(userId: mongoose.Types.ObjectId | string): Promise<IUser> {
+    const user = await User.findById(userId).select(
+      '+password +twoFactor.secret +twoFactor.pendingSecret +twoFactor.recoveryCodes +twoFactor.lastUsedTimeStep'
+    );
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user;
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import mongoose from 'mongoose';
+import UploadSession, { IUploadSession } from '../models/uploadSession.model';
+import { IAttachment } from '../models/attachment.model';
+import { attachmentService } from './attachment.service';
+import { fileService } from './file.service';
+import {
+  generateStoredFilename,
+  getAttachmentKind,
+  getAttachmentSizeLimit,
+  getUploadTmpPath,
+  hashFile
+} from '../utils/fileUpload.util';
+
+export interface CreateUploadInput {
+  filename: string;
+  mimeType: string;
+  size: number;
+  checksum: string;
+}
+
+/**
+ * Resumable uploads for large attachments
+ * A client creates an upload, appends chunks at the current offset (resuming from it after a failure)
+ * and completes it; the assembled file then goes through the same path as a regular attachment upload
+ */
+export class UploadService {
+  private get sessionTtlMs(): number {
+    return parseInt(process.env.UPLOAD_SESSION_TTL_HOURS || '24', 10) * 60 * 60 * 1000;
+  }
+
+  /**
+   * Start a resumable upload
+   * The type, size limit and quotas are checked up front so a refused file is never transferred
+   */
+  async createUpload(
+    workspaceId: mongoose.Types.ObjectId,
+    uploaderId: mongoose.Types.ObjectId,
+    input: CreateUploadInput
+  ): Promise<IUploadSession> {
+    const kind = getAttachmentKind(input.mimeType, input.filename);
+    if (!kind) {
+      throw new Error('Invalid file type');
+    }
+
+    const sizeLimit = getAttachmentSizeLimit(kind);
+    if (input.size > sizeLimit) {
+      throw new Error(`${input.filename} exceeds the ${sizeLimit / (1024 * 1024)} MB limit for ${kind} files`);
+    }
+
+    await fileService.checkQuota(uploaderId, workspaceId, input.size);
+
+    const filename = generateStoredFilename(input.filename);
+    await fs.promises.writeFile(getUploadTmpPath(filename), Buffer.alloc(0));
+
+    try {
+      return await UploadSession.create({
+        workspace: workspaceId,
+        uploader: uploaderId,
+        filename,
+        originalName: input.filename,
+        mimeType: input.mimeType,
+        kind,
+        size: input.size,
+        checksum: input.checksum,
+        expiresAt: new Date(Date.now() + this.sessionTtlMs)
+      });
+    } catch (error) {
+      await fs.promises.rm(getUploadTmpPath(filename), { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Get an upload of the user, e.g. to find the offset to resume from
+   * @throws Error('Upload not found') if it does not exist, expired or belongs to someone else
+   */
+  async getUpload(uploadId: string, uploaderId: mongoose.Types.ObjectId): Promise<IUploadSession> {
+    const upload = await UploadSession.findOne({
+      _id: uploadId,
+      uploader: uploaderId,
+      expiresAt: { $gt: new Date() }
+    });
+
+    if (!upload) {
+      throw new Error('Upload not found');
+    }
+
+    return upload;
+  }
+
+  /**
+   * Append a chunk at the given offset
+   * The offset must equal the bytes received so far; a retried chunk that was already stored is refused
+   * @param checksum - Optional SHA-256 (hex) of the chunk
+   * @returns The upload with its new offset
+   */
+  async appendChunk(
+    uploadId: string,
+    uploaderId: mongoose.Types.ObjectId,
+    offset: number,
+    chunk: Buffer,
+    checksum?: string
+  ): Promise<IUploadSession> {
+    const upload = await this.getUpload(uploadId, uploaderId);
+
+    if (offset !== upload.receivedBytes) {
+      throw new Error('Upload offset mismatch');
+    }
+
+    if (offset + chunk.length > upload.size) {
+      throw new Error('Chunk exceeds the declared upload size');
+    }
+
+    if (checksum && crypto.createHash('sha256').update(chunk).digest('hex') !== checksum.toLowerCase()) {
+      throw new Error('Chunk checksum mismatch');
+    }
+
+    // Write at the offset rather than appending, so a chunk that failed half way is simply overwritten
+    const handle = await fs.promises.open(getUploadTmpPath(upload.filename), 'r+');
+    try {
+      await handle.write(chunk, 0, chunk.length, offset);
+    } finally {
+      await handle.close();
+    }
+
+    // Only advance from the offset we wrote at, so concurrent chunks for the same offset count once
+    const updated = await UploadSession.findOneAndUpdate(
+      { _id: upload._id, receivedBytes: offset },
+      {
+        $inc: { receivedBytes: chunk.length },
+        $set: { expiresAt: new Date(Date.now() + this.sessionTtlMs) }
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      throw new Error('Upload offset mismatch');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Finish an upload once every byte has been received
+   * The file must match the checksum given when the upload was created; on a mismatch the upload is discarded
+   * @returns The attachment created from the file
+   */
+  async completeUpload(uploadId: string, uploaderId: mongoose.Types.ObjectId): Promise<IAttachment> {
+    const upload = await this.getUpload(uploadId, uploaderId);
+
+    if (upload.receivedBytes < upload.size) {
+      throw new Error('Upload is incomplete');
+    }
+
+    // Claim the upload so a repeated complete request cannot create a second attachment
+    const claimed = await UploadSession.findOneAndDelete({ _id: upload._id, receivedBytes: upload.size });
+    if (!claimed) {
+      throw new Error('Upload not found');
+    }
+
+    const filePath = getUploadTmpPath(claimed.filename);
+    if (await hashFile(filePath) !== claimed.checksum) {
+      await fs.promises.rm(filePath, { force: true });
+      throw new Error('File checksum mismatch');
+    }
+
+    const [attachment] = await attachmentService.createAttachments(claimed.workspace, claimed.uploader, [{
+      filename: claimed.filename,
+      originalname: claimed.originalName,
+      mimetype: claimed.mimeType,
+      size: claimed.size,
+      path: filePath
+    }]);
+
+    return attachment;
+  }
+
+  /**
+   * Cancel an upload and remove the partial file
+   */
+  async abortUpload(uploadId: string, uploaderId: mongoose.Types.ObjectId): Promise<void> {
+    const upload = await UploadSession.findOneAndDelete({ _id: uploadId, uploader: uploaderId });
+    if (!upload) {
+      throw new Error('Upload not found');
+    }
+
+    await fs.promises.rm(getUploadTmpPath(upload.filename), { force: true });
+  }
+
+  /**
+   * Remove uploads that received no chunk before they expired
+   * @returns Number of uploads removed
+   */
+  async expireAbandonedUploads(): Promise<number> {
+    const expired = await UploadSession.find({ expiresAt: { $lte: new Date() } }).select('filename');
+    let removed = 0;
+
+    for (const upload of expired) {
+      // Skip uploads that received a chunk since they were found
+      const { deletedCount } = await UploadSession.deleteOne({ _id: upload._id, expiresAt: { $lte: new Date() } });
+      if (deletedCount > 0) {
+        await fs.promises.rm(getUploadTmpPath(upload.filename), { force: true });
+        removed += 1;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Periodically remove abandoned uploads
+   */
+  startExpiryTimer(intervalMs: number = 15 * 60 * 1000): void {
+    setInterval(() => {
+      this.expireAbandonedUploads()
+        .then(count => {
+          if (count > 0) {
+            console.log(`🧹 Removed ${count} abandoned upload(s)`);
+          }
+        })
+        .catch(error => console.error('Error removing abandoned uploads:', error));
+    }, intervalMs).unref();
+  }
+}
+
+export const uploadService = new UploadService();
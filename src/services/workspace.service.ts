@@ -0,0 +1,272 @@
+import mongoose from 'mongoose';
+import Workspace, { IWorkspace, WorkspaceMemberRole } from '../models/workspace.model';
+import User, { IUser } from '../models/user.model';
+import { PERMISSIONS, hasPermission } from '../config/roles';
+import { generateSecureToken } from '../utils/crypto.util';
+
+/**
+ * Build a unique, URL-friendly slug from a workspace name
+ */
+const buildSlug = (name: string): string => {
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40) || 'workspace';
+
+  return `${base}-${generateSecureToken(4).toLowerCase().replace(/[^a-z0-9]/g, '')}`;
+};
+
+/**
+ * Get the domain part of an email address
+ */
+const getEmailDomain = (email: string): string => email.split('@').pop()!.toLowerCase();
+
+export class WorkspaceService {
+  /**
+   * Create a workspace with the creator as its first admin
+   */
+  async createWorkspace(
+    creatorId: mongoose.Types.ObjectId | string,
+    name: string,
+    allowedDomains: string[] = [],
+    isPersonal: boolean = false
+  ): Promise<IWorkspace> {
+    if (allowedDomains.length > 0) {
+      await this.assertCanClaimDomains(creatorId, allowedDomains);
+    }
+
+    return await Workspace.create({
+      name,
+      slug: buildSlug(name),
+      createdBy: creatorId,
+      members: [{ user: creatorId, role: 'admin', joinedAt: new Date() }],
+      allowedDomains,
+      isPersonal
+    });
+  }
+
+  /**
+   * Get all workspaces a user belongs to
+   */
+  async getUserWorkspaces(userId: mongoose.Types.ObjectId | string): Promise<IWorkspace[]> {
+    return await Workspace.find({ 'members.user': userId }).sort({ name: 1 });
+  }
+
+  /**
+   * Get a workspace, but only if the user is one of its members
+   */
+  async getWorkspaceForMember(
+    workspaceId: mongoose.Types.ObjectId | string,
+    userId: mongoose.Types.ObjectId | string
+  ): Promise<IWorkspace> {
+    if (!mongoose.Types.ObjectId.isValid(workspaceId.toString())) {
+      throw new Error('Workspace not found');
+    }
+
+    const workspace = await Workspace.findOne({ _id: workspaceId, 'members.user': userId });
+    if (!workspace) {
+      throw new Error('Workspace not found');
+    }
+
+    return workspace;
+  }
+
+  /**
+   * Check whether a user is a member of a workspace
+   */
+  async isMember(
+    workspaceId: mongoose.Types.ObjectId | string,
+    userId: mongoose.Types.ObjectId | string
+  ): Promise<boolean> {
+    if (!mongoose.Types.ObjectId.isValid(workspaceId.toString())) {
+      return false;
+    }
+
+    return !!(await Workspace.exists({ _id: workspaceId, 'members.user': userId }));
+  }
+
+  /**
+   * Get the user IDs of all members of a workspace
+   */
+  async getMemberIds(workspaceId: mongoose.Types.ObjectId | string): Promise<mongoose.Types.ObjectId[]> {
+    const workspace = await Workspace.findById(workspaceId).select('members.user');
+    return workspace ? workspace.members.map(member => member.user) : [];
+  }
+
+  /**
+   * Update workspace settings (workspace admins only)
+   */
+  async updateWorkspace(
+    workspaceId: mongoose.Types.ObjectId | string,
+    userId: mongoose.Types.ObjectId | string,
+    updates: { name?: string; allowedDomains?: string[] }
+  ): Promise<IWorkspace> {
+    const workspace = await this.getWorkspaceForMember(workspaceId, userId);
+    this.assertAdmin(workspace, userId, 'Only workspace admins can update the workspace');
+
+    if (updates.allowedDomains) {
+      const newDomains = updates.allowedDomains.filter(domain => !workspace.allowedDomains.includes(domain));
+      if (newDomains.length > 0) {
+        await this.assertCanClaimDomains(userId, newDomains);
+      }
+      workspace.allowedDomains = updates.allowedDomains;
+    }
+
+    if (updates.name) {
+      workspace.name = updates.name;
+    }
+
+    return await workspace.save();
+  }
+
+  /**
+   * Add an existing user to a workspace by email (workspace admins only)
+   */
+  async addMemberByEmail(
+    workspaceId: mongoose.Types.ObjectId | string,
+    userId: mongoose.Types.ObjectId | string,
+    email: string,
+    role: WorkspaceMemberRole = 'member'
+  ): Promise<IWorkspace> {
+    const workspace = await this.getWorkspaceForMember(workspaceId, userId);
+    this.assertAdmin(workspace, userId, 'Only workspace admins can add members');
+
+    const user = await User.findOne({ email: email.toLowerCase() });
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (workspace.members.some(member => member.user.toString() === user._id.toString())) {
+      throw new Error('User is already a member of this workspace');
+    }
+
+    workspace.members.push({
+      user: new mongoose.Types.ObjectId(user._id.toString()),
+      role,
+      joinedAt: new Date()
+    });
+
+    return await workspace.save();
+  }
+
+  /**
+   * Remove a member (admins can remove anyone, members can leave)
+   */
+  async removeMember(
+    workspaceId: mongoose.Types.ObjectId | string,
+    userId: mongoose.Types.ObjectId | string,
+    memberIdToRemove: mongoose.Types.ObjectId | string
+  ): Promise<IWorkspace> {
+    const workspace = await this.getWorkspaceForMember(workspaceId, userId);
+
+    const isRemovingSelf = userId.toString() === memberIdToRemove.toString();
+    if (!isRemovingSelf) {
+      this.assertAdmin(workspace, userId, 'Only workspace admins can remove members');
+    }
+
+    const member = workspace.members.find(m => m.user.toString() === memberIdToRemove.toString());
+    if (!member) {
+      throw new Error('User is not a member of this workspace');
+    }
+
+    const adminCount = workspace.members.filter(m => m.role === 'admin').length;
+    if (member.role === 'admin' && adminCount === 1) {
+      throw new Error('A workspace must keep at least one admin');
+    }
+
+    workspace.members = workspace.members.filter(m => m.user.toString() !== memberIdToRemove.toString());
+
+    return await workspace.save();
+  }
+
+  /**
+   * Add a user with a verified email to every workspace that allows their email domain
+   * @returns Workspaces the user joined
+   */
+  async joinByEmailDomain(user: IUser): Promise<IWorkspace[]> {
+    // Auto-join trusts the domain, so it must be proven first
+    if (!user.emailVerified) {
+      return [];
+    }
+
+    const workspaces = await Workspace.find({
+      allowedDomains: getEmailDomain(user.email),
+      'members.user': { $ne: user._id.toString() }
+    });
+
+    for (const workspace of workspaces) {
+      workspace.members.push({
+        user: new mongoose.Types.ObjectId(user._id.toString()),
+        role: 'member',
+        joinedAt: new Date()
+      });
+      await workspace.save();
+    }
+
+    return workspaces;
+  }
+
+  /**
+   * Pick the workspace a new session starts in
+   * Falls back to domain auto-join and finally creates a personal workspace,
+   * so every user always has somewhere to land
+   */
+  async resolveWorkspaceForLogin(user: IUser): Promise<mongoose.Types.ObjectId> {
+    const userId = user._id.toString();
+
+    if (user.defaultWorkspace && (await this.isMember(user.defaultWorkspace, userId))) {
+      return user.defaultWorkspace;
+    }
+
+    await this.joinByEmailDomain(user);
+
+    const [firstWorkspace] = await this.getUserWorkspaces(userId);
+    const workspace = firstWorkspace ||
+      await this.createWorkspace(userId, `${user.firstName}'s Workspace`.slice(0, 50), [], true);
+
+    await this.setDefaultWorkspace(userId, workspace._id);
+
+    return workspace._id;
+  }
+
+  /**
+   * Remember the last used workspace of a user
+   */
+  async setDefaultWorkspace(
+    userId: mongoose.Types.ObjectId | string,
+    workspaceId: mongoose.Types.ObjectId | string
+  ): Promise<void> {
+    await User.updateOne({ _id: userId }, { $set: { defaultWorkspace: workspaceId } });
+  }
+
+  private assertAdmin(workspace: IWorkspace, userId: mongoose.Types.ObjectId | string, message: string): void {
+    const member = workspace.members.find(m => m.user.toString() === userId.toString());
+    if (!member || member.role !== 'admin') {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Only allow claiming the domain of your own verified email address,
+   * otherwise anyone could collect the sign-ups of someone else's company
+   * Global admins may claim any domain
+   */
+  private async assertCanClaimDomains(userId: mongoose.Types.ObjectId | string, domains: string[]): Promise<void> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (hasPermission(user.role, PERMISSIONS.WORKSPACES_MANAGE_DOMAINS)) {
+      return;
+    }
+
+    const ownDomain = getEmailDomain(user.email);
+    if (!user.emailVerified || domains.some(domain => domain !== ownDomain)) {
+      throw new Error('You can only allow the domain of your own verified email address');
+    }
+  }
+}
+
+export const workspaceService = new WorkspaceService();
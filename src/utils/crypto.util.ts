@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+
+/**
+ * Generate a cryptographically secure, URL-safe random token
+ * @param bytes - Number of random bytes (default: 32)
+ * @returns Base64url encoded token string
+ */
+export const generateSecureToken = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString('base64url');
+};
+
+/**
+ * Hash a token for storage so the raw value never touches the database
+ * @param token - Raw token value
+ * @returns SHA-256 hex digest of the token
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Compare two hex digests in constant time
+ * @param a - First digest
+ * @param b - Second digest
+ * @returns True if both digests are equal
+ */
+export const safeCompare = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+
+  if (bufferA.length !== bufferB.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(bufferA, bufferB);
+};
+
+/**
+ * Derive the 256-bit key used to encrypt secrets at rest
+ * @returns Encryption key
+ */
+const getEncryptionKey = (): Buffer => {
+  const secret = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'fallback_secret';
+  return crypto.createHash('sha256').update(secret).digest();
+};
+
+/**
+ * Encrypt a secret with AES-256-GCM
+ * @param plaintext - Value to encrypt
+ * @returns Encrypted payload in the form iv.authTag.ciphertext (base64url)
+ */
+export const encryptSecret = (plaintext: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [iv, authTag, ciphertext].map(part => part.toString('base64url')).join('.');
+};
+
+/**
+ * Decrypt a secret encrypted with encryptSecret
+ * @param payload - Encrypted payload
+ * @returns Decrypted value
+ */
+export const decryptSecret = (payload: string): string => {
+  const [iv, authTag, ciphertext] = payload.split('.').map(part => Buffer.from(part, 'base64url'));
+  if (!iv || !authTag || !ciphertext) {
+    throw new Error('Malformed encrypted secret');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+/**
+ * Sign a value so it can be shared in a URL until it expires
+ * @param value - Value to sign, such as a file name
+ * @param expiresAt - Expiry as a Unix timestamp in seconds
+ * @returns HMAC-SHA256 signature (base64url)
+ */
+export const createUrlSignature = (value: string, expiresAt: number): string => {
+  const secret = process.env.FILE_URL_SECRET || process.env.JWT_SECRET || 'fallback_secret';
+  return crypto.createHmac('sha256', secret).update(`${value}:${expiresAt}`).digest('base64url');
+};
+
+/**
+ * Check a signature created by createUrlSignature
+ * @param value - Signed value
+ * @param expiresAt - Expiry from the URL (Unix timestamp in seconds)
+ * @param signature - Signature from the URL
+ * @returns True if the signature matches and has not expired
+ */
+export const verifyUrlSignature = (value: string, expiresAt: number, signature: string): boolean => {
+  if (!Number.isFinite(expiresAt) || expiresAt * 1000 < Date.now()) {
+    return false;
+  }
+
+  return safeCompare(createUrlSignature(value, expiresAt), signature);
+};
@@ -1,26 +1,75 @@
 import multer from 'multer';
+import crypto from 'crypto';
 import path from 'path';
+import os from 'os';
 import fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
-import { Request } from 'express';
+import express, { Request, Response, NextFunction } from 'express';
+import { pipeline } from 'stream/promises';
+import { getAllVariantFilenames } from './imageProcessing.util';
+import { getStorage } from '../services/storage.service';
 
-// Ensure uploads directory exists
-const uploadsDir = path.join(process.cwd(), 'files');
-if (!fs.existsSync(uploadsDir)) {
-  fs.mkdirSync(uploadsDir, { recursive: true });
+// Uploads are received into a local temporary directory, processed, then moved to the storage driver
+const uploadTmpDir = process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), 'workplace-connect-uploads');
+if (!fs.existsSync(uploadTmpDir)) {
+  fs.mkdirSync(uploadTmpDir, { recursive: true });
 }
 
+/**
+ * Uploaded file waiting in the upload directory
+ * Multer files match it, so do the files assembled by resumable uploads
+ */
+export type UploadedFile = Pick<Express.Multer.File, 'filename' | 'originalname' | 'mimetype' | 'size' | 'path'>;
+
+/**
+ * Generate a unique stored file name (UUID + original extension)
+ */
+export const generateStoredFilename = (originalName: string): string => {
+  return `${uuidv4()}${path.extname(originalName).toLowerCase()}`;
+};
+
+/**
+ * Get the directory uploads are received in
+ */
+export const getUploadTmpDir = (): string => uploadTmpDir;
+
+/**
+ * Get the path of a file in the upload directory
+ */
+export const getUploadTmpPath = (filename: string): string => path.join(uploadTmpDir, filename);
+
+/**
+ * Compute the SHA-256 of a local file
+ * @returns Hex digest
+ */
+export const hashFile = async (filePath: string): Promise<string> => {
+  const hash = crypto.createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+};
+
+/**
+ * Read the first bytes of a local file
+ */
+export const readFileHeader = async (filePath: string, length: number): Promise<Buffer> => {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
 // Configure multer storage
 const storage = multer.diskStorage({
   destination: (req: Request, file: Express.Multer.File, cb: (error: Error | null, destination: string) => void) => {
-    cb(null, uploadsDir);
+    cb(null, uploadTmpDir);
   },
   filename: (req: Request, file: Express.Multer.File, cb: (error: Error | null, filename: string) => void) => {
     // Generate unique filename with original extension
-    const uniqueName = uuidv4();
-    const extension = path.extname(file.originalname).toLowerCase();
-    const filename = `${uniqueName}${extension}`;
-    cb(null, filename);
+    cb(null, generateStoredFilename(file.originalname));
   }
 });
 
@@ -55,22 +104,252 @@ export const uploadProfilePicture = multer({
   fileFilter: fileFilter
 });
 
+export type AttachmentKind = 'image' | 'video' | 'audio' | 'document';
+
+// Attachment types accepted on messages; both the MIME type and the extension must match
+const ATTACHMENT_TYPES: Array<{ kind: AttachmentKind; mimeTypes: string[]; extensions: string[] }> = [
+  {
+    kind: 'image',
+    mimeTypes: ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'],
+    extensions: ['.jpg', '.jpeg', '.png', '.gif', '.webp']
+  },
+  {
+    kind: 'video',
+    mimeTypes: ['video/mp4', 'video/webm', 'video/quicktime'],
+    extensions: ['.mp4', '.webm', '.mov']
+  },
+  {
+    kind: 'audio',
+    mimeTypes: ['audio/mpeg', 'audio/ogg', 'audio/wav', 'audio/x-wav', 'audio/webm', 'audio/mp4', 'audio/x-m4a', 'audio/aac'],
+    extensions: ['.mp3', '.ogg', '.oga', '.wav', '.weba', '.m4a', '.aac']
+  },
+  {
+    kind: 'document',
+    mimeTypes: [
+      'application/pdf',
+      'text/plain',
+      'text/csv',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-powerpoint',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      'application/zip',
+      'application/x-zip-compressed'
+    ],
+    extensions: ['.pdf', '.txt', '.csv', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.zip']
+  }
+];
+
+// Canonical MIME type of each accepted extension, for files without stored metadata
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.mp3': 'audio/mpeg',
+  '.ogg': 'audio/ogg',
+  '.oga': 'audio/ogg',
+  '.wav': 'audio/wav',
+  '.weba': 'audio/webm',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.zip': 'application/zip'
+};
+
+/**
+ * Get the MIME type of a stored file from its extension
+ * @returns The MIME type, or application/octet-stream for unknown extensions
+ */
+export const getMimeTypeForFilename = (filename: string): string => {
+  return EXTENSION_MIME_TYPES[path.extname(filename).toLowerCase()] || 'application/octet-stream';
+};
+
+/** Extensions of every file type that can be uploaded */
+export const ALLOWED_FILE_EXTENSIONS = [...new Set(ATTACHMENT_TYPES.flatMap(type => type.extensions))];
+
+export const MAX_ATTACHMENTS_PER_UPLOAD = 10;
+
+const getAttachmentSizeLimitsMb = (): Record<AttachmentKind, number> => ({
+  image: parseInt(process.env.ATTACHMENT_MAX_IMAGE_MB || '10', 10),
+  video: parseInt(process.env.ATTACHMENT_MAX_VIDEO_MB || '100', 10),
+  audio: parseInt(process.env.ATTACHMENT_MAX_AUDIO_MB || '25', 10),
+  document: parseInt(process.env.ATTACHMENT_MAX_DOCUMENT_MB || '25', 10)
+});
+
+/**
+ * Work out the attachment kind of an uploaded file
+ * @param mimeType - MIME type reported by the client
+ * @param originalName - Original file name, used for its extension
+ * @returns The kind, or null if the type is not accepted
+ */
+export const getAttachmentKind = (mimeType: string, originalName: string): AttachmentKind | null => {
+  const extension = path.extname(originalName).toLowerCase();
+  const type = ATTACHMENT_TYPES.find(candidate =>
+    candidate.mimeTypes.includes(mimeType) && candidate.extensions.includes(extension)
+  );
+
+  return type ? type.kind : null;
+};
+
+/**
+ * Get the upload size limit of an attachment kind
+ * @returns Limit in bytes
+ */
+export const getAttachmentSizeLimit = (kind: AttachmentKind): number => {
+  return getAttachmentSizeLimitsMb()[kind] * 1024 * 1024;
+};
+
+// File filter for message attachments
+const attachmentFileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (getAttachmentKind(file.mimetype, file.originalname)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Only images, videos, audio files and documents (PDF, text, Office, ZIP) are allowed.'));
+  }
+};
+
+/**
+ * Accept up to MAX_ATTACHMENTS_PER_UPLOAD files in the "files" field
+ * Multer only checks the largest per-kind limit; the limit of each kind is checked after the upload
+ * Upload errors are answered with 400 (or 413 when a file is too large)
+ */
+export const uploadAttachments = (req: Request, res: Response, next: NextFunction): void => {
+  const upload = multer({
+    storage: storage,
+    limits: {
+      fileSize: Math.max(...Object.values(getAttachmentSizeLimitsMb())) * 1024 * 1024,
+      files: MAX_ATTACHMENTS_PER_UPLOAD
+    },
+    fileFilter: attachmentFileFilter
+  }).array('files', MAX_ATTACHMENTS_PER_UPLOAD);
+
+  upload(req, res, (error: unknown) => {
+    if (!error) {
+      next();
+      return;
+    }
+
+    // Multer has already removed the files stored before the failure
+    if (error instanceof multer.MulterError) {
+      res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({ message: error.message });
+      return;
+    }
+
+    res.status(400).json({ message: error instanceof Error ? error.message : 'File upload failed' });
+  });
+};
+
+/** Largest chunk accepted by a single request of a resumable upload */
+export const getUploadChunkMaxBytes = (): number => parseInt(process.env.UPLOAD_CHUNK_MAX_MB || '8', 10) * 1024 * 1024;
+
 /**
- * Delete a file from the uploads directory
+ * Read the raw body of a resumable upload chunk into req.body as a Buffer
+ * Chunks must be sent as application/octet-stream (or application/offset+octet-stream)
+ * Oversized chunks are answered with 413
+ */
+export const readUploadChunk = (req: Request, res: Response, next: NextFunction): void => {
+  const parse = express.raw({
+    type: ['application/octet-stream', 'application/offset+octet-stream'],
+    limit: getUploadChunkMaxBytes()
+  });
+
+  parse(req, res, (error: unknown) => {
+    if (error) {
+      const status = (error as { status?: number }).status === 413 ? 413 : 400;
+      res.status(status).json({ message: status === 413 ? 'Chunk is too large' : 'Invalid chunk body' });
+      return;
+    }
+
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({ message: 'Chunk body must be non-empty application/octet-stream data' });
+      return;
+    }
+
+    next();
+  });
+};
+
+/**
+ * Check whether a stored file is an image with resized variants
+ */
+export const isImageFilename = (filename: string): boolean => {
+  const imageType = ATTACHMENT_TYPES.find(type => type.kind === 'image')!;
+  return imageType.extensions.includes(path.extname(filename).toLowerCase());
+};
+
+/**
+ * Move an uploaded file and the variants generated next to it to the storage driver
+ * The temporary copies are removed whether or not the move succeeds
+ * @param file - File received in the upload directory
+ * @param variants - Names of variants generated in the upload directory
+ * @param contentType - MIME type stored with the original
+ */
+export const saveUploadedFile = async (
+  file: UploadedFile,
+  variants: string[] = [],
+  contentType: string = file.mimetype
+): Promise<void> => {
+  const storageDriver = getStorage();
+  const uploads = [
+    { name: file.filename, contentType },
+    ...variants.map(variant => ({
+      name: variant,
+      contentType: path.extname(variant).toLowerCase() === '.webp' ? 'image/webp' : contentType
+    }))
+  ];
+
+  try {
+    for (const upload of uploads) {
+      const localPath = getUploadTmpPath(upload.name);
+      const { size } = await fs.promises.stat(localPath);
+      await storageDriver.put(upload.name, fs.createReadStream(localPath), {
+        contentType: upload.contentType,
+        contentLength: size
+      });
+    }
+  } finally {
+    await Promise.all(uploads.map(upload => fs.promises.rm(getUploadTmpPath(upload.name), { force: true })));
+  }
+};
+
+/**
+ * Remove the temporary copy of an upload that was refused, along with any image variants
+ * @param file - File received in the upload directory
+ */
+export const discardUploadedFile = async (file: UploadedFile): Promise<void> => {
+  const names = isImageFilename(file.filename) ? [file.filename, ...getAllVariantFilenames(file.filename)] : [file.filename];
+  await Promise.all(names.map(name => fs.promises.rm(getUploadTmpPath(name), { force: true })));
+};
+
+/**
+ * Delete a stored file, along with its image variants
  * @param filename - Name of the file to delete
  * @returns Promise<boolean> - True if file was deleted, false if file didn't exist
  */
 export const deleteFile = async (filename: string): Promise<boolean> => {
   try {
-    const filePath = path.join(uploadsDir, filename);
-    
-    // Check if file exists
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
-      return true;
+    const storageDriver = getStorage();
+
+    if (isImageFilename(filename)) {
+      await Promise.all(getAllVariantFilenames(filename).map(variant => storageDriver.delete(variant)));
     }
-    
-    return false;
+
+    return await storageDriver.delete(filename);
   } catch (error) {
     console.error('Error deleting file:', error);
     return false;
@@ -82,21 +361,20 @@ export const deleteFile = async (filename: string): Promise<boolean> => {
  * @param filename - Name of the file
  * @returns File information or null if file doesn't exist
  */
-export const getFileInfo = (filename: string) => {
+export const getFileInfo = async (filename: string) => {
   try {
-    const filePath = path.join(uploadsDir, filename);
-    
-    if (fs.existsSync(filePath)) {
-      const stats = fs.statSync(filePath);
+    const info = await getStorage().stat(filename);
+
+    if (info) {
       return {
         filename,
-        path: filePath,
-        size: stats.size,
-        createdAt: stats.birthtime,
-        modifiedAt: stats.mtime
+        size: info.size,
+        contentType: info.contentType,
+        createdAt: info.lastModified,
+        modifiedAt: info.lastModified
       };
     }
-    
+
     return null;
   } catch (error) {
     console.error('Error getting file info:', error);
@@ -0,0 +1,100 @@
+import sharp from 'sharp';
+import path from 'path';
+import fs from 'fs';
+
+/** Widths/heights (longest side, in px) of the resized variants of uploaded images */
+export const IMAGE_VARIANT_SIZES = [64, 256, 1024] as const;
+
+export type ImageVariantSize = typeof IMAGE_VARIANT_SIZES[number];
+
+/**
+ * Name of a resized variant of an image
+ * @param filename - Stored name of the original image
+ * @param size - Variant size, or undefined for the full-size WebP version
+ * @param webp - Whether to name the WebP version of the variant
+ * @returns e.g. <uuid>_256.png or <uuid>_256.webp
+ */
+export const getVariantFilename = (filename: string, size: ImageVariantSize | undefined, webp: boolean): string => {
+  const extension = path.extname(filename);
+  const base = path.basename(filename, extension);
+  const suffix = size ? `_${size}` : '';
+
+  return `${base}${suffix}${webp ? '.webp' : extension}`;
+};
+
+/**
+ * Names of every variant an image can have, used to clean them up
+ */
+export const getAllVariantFilenames = (filename: string): string[] => {
+  const names = [getVariantFilename(filename, undefined, true)];
+  for (const size of IMAGE_VARIANT_SIZES) {
+    names.push(getVariantFilename(filename, size, false), getVariantFilename(filename, size, true));
+  }
+
+  // A WebP original has no separate full-size WebP version
+  return [...new Set(names)].filter(name => name !== filename);
+};
+
+/**
+ * Strip EXIF/GPS and other metadata from an uploaded image, applying its orientation first
+ * The file is rewritten in place
+ * @param filePath - Path of the uploaded image
+ * @returns Dimensions and size of the cleaned image
+ */
+export const stripImageMetadata = async (filePath: string): Promise<{ width?: number; height?: number; size: number }> => {
+  // Same extension, so sharp writes the same format
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}`);
+
+  // sharp drops all metadata unless withMetadata() is called
+  const info = await sharp(filePath, { animated: true }).rotate().toFile(tempPath);
+  await fs.promises.rename(tempPath, filePath);
+
+  return { width: info.width, height: info.pageHeight ?? info.height, size: info.size };
+};
+
+/**
+ * Generate the resized and WebP variants of an uploaded image next to it
+ * Images are never enlarged, so sizes above the original are skipped
+ * @param filePath - Path of the uploaded image
+ * @returns Names of the generated variants
+ */
+export const generateImageVariants = async (filePath: string): Promise<string[]> => {
+  const dir = path.dirname(filePath);
+  const filename = path.basename(filePath);
+  const { width = 0, pageHeight, height = 0 } = await sharp(filePath).metadata();
+  const longestSide = Math.max(width, pageHeight ?? height);
+  const variants: string[] = [];
+
+  if (path.extname(filename).toLowerCase() !== '.webp') {
+    variants.push(getVariantFilename(filename, undefined, true));
+    await sharp(filePath, { animated: true }).webp().toFile(path.join(dir, variants[variants.length - 1]));
+  }
+
+  for (const size of IMAGE_VARIANT_SIZES) {
+    if (size >= longestSide) {
+      continue;
+    }
+
+    const resized = sharp(filePath, { animated: true }).resize(size, size, { fit: 'inside', withoutEnlargement: true });
+    const resizedName = getVariantFilename(filename, size, false);
+    const resizedWebpName = getVariantFilename(filename, size, true);
+    await resized.clone().toFile(path.join(dir, resizedName));
+    await resized.clone().webp().toFile(path.join(dir, resizedWebpName));
+    variants.push(resizedName, resizedWebpName);
+  }
+
+  return variants;
+};
+
+/**
+ * Strip metadata and generate variants for a freshly uploaded image
+ * @param filePath - Path of the uploaded image
+ * @returns Dimensions and size of the cleaned original, and the names of its variants
+ */
+export const processUploadedImage = async (
+  filePath: string
+): Promise<{ width?: number; height?: number; size: number; variants: string[] }> => {
+  const result = await stripImageMetadata(filePath);
+  const variants = await generateImageVariants(filePath);
+  return { ...result, variants };
+};
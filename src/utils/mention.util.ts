@@ -0,0 +1,41 @@
+/**
+ * Mentions found in message content
+ * Users are mentioned as @<userId> (inserted by clients) or @<email>
+ */
+export interface ParsedMentions {
+  userIds: string[];
+  emails: string[];
+  /** @here: group members who are online */
+  here: boolean;
+  /** @channel: every group member */
+  channel: boolean;
+}
+
+const MENTION_PATTERN = /(^|[^\w@.])@([0-9a-fA-F]{24}|here|channel|[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[A-Za-z]{2,})(?![\w@])/g;
+
+/**
+ * Extract mentions from message content
+ * @param content - Plain text message content
+ * @returns Unique user IDs and emails (lowercased) plus the @here/@channel flags
+ */
+export const parseMentions = (content: string): ParsedMentions => {
+  const userIds = new Set<string>();
+  const emails = new Set<string>();
+  let here = false;
+  let channel = false;
+
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const token = match[2];
+    if (token === 'here') {
+      here = true;
+    } else if (token === 'channel') {
+      channel = true;
+    } else if (token.includes('@')) {
+      emails.add(token.toLowerCase());
+    } else {
+      userIds.add(token.toLowerCase());
+    }
+  }
+
+  return { userIds: [...userIds], emails: [...emails], here, channel };
+};
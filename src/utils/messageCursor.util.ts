@@ -0,0 +1,50 @@
+import mongoose from 'mongoose';
+
+/**
+ * Position of a message in a list ordered by createdAt, then _id
+ */
+export interface MessageCursor {
+  createdAt: Date;
+  id: mongoose.Types.ObjectId;
+}
+
+/**
+ * Encode the position of a message as an opaque cursor
+ * @param message - Message the cursor points at
+ * @returns URL-safe cursor string
+ */
+export const encodeCursor = (message: { createdAt: Date; _id: unknown }): string => {
+  return Buffer.from(`${message.createdAt.getTime()}:${String(message._id)}`).toString('base64url');
+};
+
+/**
+ * Decode a cursor created by encodeCursor
+ * @param cursor - Cursor string from a client
+ * @returns The cursor, or null if it is malformed
+ */
+export const decodeCursor = (cursor: string): MessageCursor | null => {
+  const [timestamp, id] = Buffer.from(cursor, 'base64url').toString().split(':');
+  const createdAt = new Date(Number(timestamp));
+
+  if (!timestamp || Number.isNaN(createdAt.getTime()) || !id || !mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  return { createdAt, id: new mongoose.Types.ObjectId(id) };
+};
+
+/**
+ * Build a filter for messages strictly before or after a cursor
+ * @param cursor - Position to page from
+ * @param direction - 'before' for older messages, 'after' for newer ones
+ */
+export const cursorFilter = (cursor: MessageCursor, direction: 'before' | 'after') => {
+  const operator = direction === 'before' ? '$lt' : '$gt';
+
+  return {
+    $or: [
+      { createdAt: { [operator]: cursor.createdAt } },
+      { createdAt: cursor.createdAt, _id: { [operator]: cursor.id } }
+    ]
+  };
+};
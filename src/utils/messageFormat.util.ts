@@ -0,0 +1,115 @@
+import mongoose from 'mongoose';
+import { IMessage, IMessageAttachment, IMessageReaction, IMessageSnapshot } from '../models/message.model';
+
+/**
+ * Get the user ID behind the sender or receiver of a message, populated or not
+ * A populated user is null once the account was deleted, while the stored ID is kept
+ */
+export const getParticipantId = (message: IMessage, path: 'sender' | 'receiver'): mongoose.Types.ObjectId => {
+  const value = message.populated(path) ?? message.get(path);
+  return value?._id ?? value;
+};
+
+/**
+ * Aggregate the reactions of a message
+ * @param reactions - Reactions stored on the message
+ * @param currentUserId - User the reactions are shown to, used for reactedByMe
+ * @returns Emoji with their counts, in the order they were first used
+ */
+export const summarizeReactions = (reactions: IMessageReaction[] = [], currentUserId?: string) => {
+  return reactions
+    .filter(reaction => reaction.users.length > 0)
+    .map(reaction => ({
+      emoji: reaction.emoji,
+      count: reaction.users.length,
+      reactedByMe: currentUserId !== undefined && reaction.users.some(user => user.toString() === currentUserId)
+    }));
+};
+
+/**
+ * Shape a quote or forward snapshot
+ */
+const formatSnapshot = (snapshot: IMessageSnapshot) => ({
+  messageId: snapshot.message.toString(),
+  text: snapshot.content,
+  sender: {
+    _id: snapshot.sender.toString(),
+    name: snapshot.senderName
+  },
+  timestamp: snapshot.createdAt.toISOString()
+});
+
+/**
+ * Shape an attachment; url is relative to the server and requires authentication
+ */
+const formatAttachment = (attachment: IMessageAttachment) => ({
+  _id: attachment.attachment.toString(),
+  name: attachment.name,
+  size: attachment.size,
+  mimeType: attachment.mimeType,
+  kind: attachment.kind,
+  width: attachment.width ?? null,
+  height: attachment.height ?? null,
+  url: `/files/${attachment.filename}`
+});
+
+/**
+ * Summarize the latest reply of a thread root
+ * lastReplyBy may or may not be populated
+ */
+const formatLastReply = (message: IMessage) => {
+  const author = message.lastReplyBy as any;
+
+  return {
+    timestamp: message.lastReplyAt!.toISOString(),
+    sender: author?.firstName !== undefined
+      ? {
+          _id: author._id.toString(),
+          firstName: author.firstName,
+          lastName: author.lastName,
+          profilePicture: author.profilePictureUrl
+        }
+      : { _id: author?.toString() }
+  };
+};
+
+/**
+ * Shape a message with a populated sender for API responses and socket events
+ * The sender of a deleted account is reduced to its ID
+ * @param message - Message document
+ * @param currentUserId - User the message is shown to, used for isOwn
+ * @returns Message in the format the frontend expects
+ */
+export const formatMessage = (message: IMessage, currentUserId?: string) => {
+  const sender = message.sender as any;
+  const senderId = getParticipantId(message, 'sender').toString();
+
+  return {
+    _id: message._id.toString(),
+    text: message.content,
+    sender: sender?.firstName !== undefined
+      ? {
+          _id: senderId,
+          firstName: sender.firstName,
+          lastName: sender.lastName,
+          profilePicture: sender.profilePictureUrl
+        }
+      : { _id: senderId },
+    timestamp: message.createdAt.toISOString(),
+    editedAt: message.editedAt ? message.editedAt.toISOString() : null,
+    reactions: summarizeReactions(message.reactions, currentUserId),
+    parentMessageId: message.parentMessage ? message.parentMessage.toString() : null,
+    replyCount: message.replyCount || 0,
+    lastReply: message.lastReplyAt ? formatLastReply(message) : null,
+    quote: message.quote ? formatSnapshot(message.quote) : null,
+    forwardedFrom: message.forwardedFrom ? formatSnapshot(message.forwardedFrom) : null,
+    mentions: (message.mentions || []).map(userId => userId.toString()),
+    broadcastMentions: message.broadcastMentions || [],
+    invalidMentions: message.invalidMentions || [],
+    attachments: (message.attachments || []).map(formatAttachment),
+    workspaceId: message.workspace?.toString(),
+    isOwn: currentUserId !== undefined && senderId === currentUserId
+  };
+};
+
+export type FormattedMessage = ReturnType<typeof formatMessage>;
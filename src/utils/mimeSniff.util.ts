@@ -0,0 +1,94 @@
+/** Bytes read from the start of a file to detect its type */
+export const MIME_SNIFF_BYTES = 4100;
+
+const startsWith = (header: Buffer, bytes: number[], offset: number = 0): boolean => {
+  return header.length >= offset + bytes.length && bytes.every((byte, index) => header[offset + index] === byte);
+};
+
+const ascii = (value: string): number[] => [...value].map(char => char.charCodeAt(0));
+
+// Container formats whose content can be any of several declared types
+const ZIP_TYPES = [
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+];
+const OLE_TYPES = ['application/msword', 'application/vnd.ms-excel', 'application/vnd.ms-powerpoint'];
+const ISO_MEDIA_TYPES = ['video/mp4', 'video/quicktime', 'audio/mp4', 'audio/x-m4a'];
+const MATROSKA_TYPES = ['video/webm', 'audio/webm'];
+const TEXT_TYPES = ['text/plain', 'text/csv'];
+
+/**
+ * Detect the format of a file from its first bytes
+ * @returns The MIME type, or the list of types a container format may hold, or null if unknown
+ */
+const detectFormat = (header: Buffer): string | string[] | null => {
+  if (startsWith(header, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(header, ascii('GIF87a')) || startsWith(header, ascii('GIF89a'))) return 'image/gif';
+  if (startsWith(header, ascii('RIFF')) && startsWith(header, ascii('WEBP'), 8)) return 'image/webp';
+  if (startsWith(header, ascii('RIFF')) && startsWith(header, ascii('WAVE'), 8)) return ['audio/wav', 'audio/x-wav'];
+  if (startsWith(header, ascii('ftyp'), 4)) return ISO_MEDIA_TYPES;
+  if (startsWith(header, [0x1a, 0x45, 0xdf, 0xa3])) return MATROSKA_TYPES;
+  if (startsWith(header, ascii('OggS'))) return 'audio/ogg';
+  if (startsWith(header, ascii('ID3'))) return 'audio/mpeg';
+  // ADTS AAC frames (layer bits 00) and MPEG audio frames share the 11-bit frame sync
+  if (header.length >= 2 && header[0] === 0xff && (header[1] & 0xe0) === 0xe0) {
+    return (header[1] & 0x06) === 0 ? 'audio/aac' : 'audio/mpeg';
+  }
+  if (startsWith(header, ascii('%PDF-'))) return 'application/pdf';
+  if (startsWith(header, [0x50, 0x4b, 0x03, 0x04]) || startsWith(header, [0x50, 0x4b, 0x05, 0x06])) return ZIP_TYPES;
+  if (startsWith(header, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return OLE_TYPES;
+  return null;
+};
+
+/**
+ * Check whether bytes look like text: no NUL bytes and valid UTF-8
+ * The last few bytes may be a character cut off by the sniff window
+ */
+const isText = (header: Buffer, complete: boolean): boolean => {
+  if (header.includes(0)) {
+    return false;
+  }
+
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  for (let trim = 0; trim <= (complete ? 0 : 3) && trim < header.length; trim++) {
+    try {
+      decoder.decode(header.subarray(0, header.length - trim));
+      return true;
+    } catch {
+      // Try again without a possibly cut character
+    }
+  }
+  return header.length === 0;
+};
+
+/**
+ * Work out the MIME type of a file from its content
+ * The declared type is kept when the content is a container that can hold it (e.g. DOCX in ZIP)
+ * @param header - First MIME_SNIFF_BYTES bytes of the file
+ * @param declaredMimeType - MIME type reported by the client
+ * @param complete - Whether the header is the whole file
+ * @returns The MIME type, or null if the content does not match the declared type
+ */
+export const sniffMimeType = (header: Buffer, declaredMimeType: string, complete: boolean = false): string | null => {
+  const detected = detectFormat(header);
+
+  if (Array.isArray(detected)) {
+    return detected.includes(declaredMimeType) ? declaredMimeType : null;
+  }
+
+  if (detected) {
+    // image/jpg is a common alias of image/jpeg
+    const declared = declaredMimeType === 'image/jpg' ? 'image/jpeg' : declaredMimeType;
+    return detected === declared ? detected : null;
+  }
+
+  if (TEXT_TYPES.includes(declaredMimeType) && isText(header, complete)) {
+    return declaredMimeType;
+  }
+
+  return null;
+};
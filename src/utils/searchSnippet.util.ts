@@ -0,0 +1,63 @@
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 60;
+
+export interface SearchSnippet {
+  text: string;
+  /** Character ranges of matched terms in text, end exclusive */
+  highlights: Array<{ start: number; end: number }>;
+}
+
+/**
+ * Extract the terms to highlight from a search query
+ * Quoted phrases are kept whole, excluded (-term) and one-letter terms are dropped
+ * @param query - Search query as typed by the user
+ * @returns Lowercased terms, longest first
+ */
+export const getSearchTerms = (query: string): string[] => {
+  const terms = new Set<string>();
+
+  for (const match of query.matchAll(/(-?)"([^"]+)"|(\S+)/g)) {
+    const excluded = match[1] === '-' || match[3]?.startsWith('-');
+    const term = (match[2] ?? match[3]).replace(/"/g, '').trim().toLowerCase();
+    if (!excluded && term.length > 1) {
+      terms.add(term);
+    }
+  }
+
+  return [...terms].sort((a, b) => b.length - a.length);
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Cut a snippet of message content around the first matched term
+ * @param content - Message content
+ * @param terms - Terms from getSearchTerms
+ * @returns Snippet text with the ranges to highlight
+ */
+export const buildSnippet = (content: string, terms: string[]): SearchSnippet => {
+  const matches: Array<{ start: number; end: number }> = [];
+
+  if (terms.length > 0) {
+    const pattern = new RegExp(terms.map(escapeRegExp).join('|'), 'gi');
+    for (const match of content.matchAll(pattern)) {
+      matches.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+
+  const windowStart = matches.length > 0 && content.length > SNIPPET_LENGTH
+    ? Math.max(0, Math.min(matches[0].start - SNIPPET_LEAD, content.length - SNIPPET_LENGTH))
+    : 0;
+  const windowEnd = Math.min(content.length, windowStart + SNIPPET_LENGTH);
+
+  const prefix = windowStart > 0 ? '…' : '';
+  const suffix = windowEnd < content.length ? '…' : '';
+  const offset = prefix.length - windowStart;
+
+  return {
+    text: `${prefix}${content.slice(windowStart, windowEnd)}${suffix}`,
+    highlights: matches
+      .filter(match => match.start >= windowStart && match.end <= windowEnd)
+      .map(match => ({ start: match.start + offset, end: match.end + offset }))
+  };
+};
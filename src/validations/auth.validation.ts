@@ -38,5 +38,93 @@ export const loginSchema = z.object({
     .min(1, 'Password is required')
 });
 
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z
+    .string()
+    .min(1, 'Challenge token is required'),
+  code: z
+    .string()
+    .trim()
+    .min(1, 'Authenticator or recovery code is required')
+    .max(20, 'Code is too long')
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z
+    .string()
+    .min(1, 'Refresh token is required')
+});
+
+export const sessionIdSchema = z.object({
+  sessionId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid session ID format')
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z
+    .string()
+    .email('Invalid email format')
+    .trim()
+    .toLowerCase()
+});
+
+export const resetPasswordSchema = z.object({
+  token: z
+    .string()
+    .min(1, 'Reset token is required'),
+  password: z
+    .string()
+    .min(6, 'Password must be at least 6 characters')
+    .max(100, 'Password is too long'),
+  confirmPassword: z
+    .string()
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword']
+});
+
+export const verifyEmailSchema = z.object({
+  token: z
+    .string()
+    .min(1, 'Verification token is required')
+});
+
+export const unlockAccountSchema = z.object({
+  token: z
+    .string()
+    .min(1, 'Unlock token is required')
+});
+
+export const oidcCallbackQuerySchema = z.object({
+  code: z
+    .string()
+    .min(1, 'Authorization code is required')
+    .optional(),
+  state: z
+    .string()
+    .min(1, 'State is required')
+    .optional(),
+  error: z
+    .string()
+    .optional(),
+  error_description: z
+    .string()
+    .optional()
+});
+
+export const oidcExchangeSchema = z.object({
+  code: z
+    .string()
+    .min(1, 'Login code is required')
+});
+
 export type RegisterInput = z.infer<typeof registerSchema>;
-export type LoginInput = z.infer<typeof loginSchema>;
\ No newline at end of file
+export type LoginInput = z.infer<typeof loginSchema>;
+export type TwoFactorLoginInput = z.infer<typeof twoFactorLoginSchema>;
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type SessionIdInput = z.infer<typeof sessionIdSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
+export type UnlockAccountInput = z.infer<typeof unlockAccountSchema>;
\ No newline at end of file
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const fileGcSchema = z.object({
+  // Only report what would be quarantined, restored and deleted
+  dryRun: z
+    .boolean()
+    .optional()
+    .default(false)
+});
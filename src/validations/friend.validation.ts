@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+// Get friends query validation
+export const getFriendsQuerySchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) => val ? parseInt(val, 10) : 1)
+    .refine((val) => val > 0, 'Page must be greater than 0'),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => val ? parseInt(val, 10) : 20)
+    .refine((val) => val > 0 && val <= 100, 'Limit must be between 1 and 100'),
+  search: z
+    .string()
+    .optional()
+    .transform((val) => val?.trim())
+});
+
+// Friend user ID parameter validation
+export const friendUserIdSchema = z.object({
+  userId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID format')
+});
+
+// Type exports for TypeScript
+export type GetFriendsQuery = z.infer<typeof getFriendsQuerySchema>;
+export type FriendUserIdInput = z.infer<typeof friendUserIdSchema>;
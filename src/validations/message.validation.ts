@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import mongoose from 'mongoose';
+import { decodeCursor } from '../utils/messageCursor.util';
+import { MAX_ATTACHMENTS_PER_UPLOAD } from '../utils/fileUpload.util';
 
 // Helper function to validate MongoDB ObjectId
 const isValidObjectId = (value: string) => {
@@ -7,10 +9,12 @@ const isValidObjectId = (value: string) => {
 };
 
 export const createMessageSchema = z.object({
+  // Not used for forwards, which copy the forwarded message
   content: z
     .string()
     .min(1, 'Message content cannot be empty')
-    .trim(),
+    .trim()
+    .optional(),
   receiver: z
     .string()
     .refine(isValidObjectId, {
@@ -22,8 +26,48 @@ export const createMessageSchema = z.object({
     .refine(isValidObjectId, {
       message: 'Invalid group ID format'
     })
+    .optional(),
+  // Reply in the thread of this message; receiver and group are taken from it
+  parentMessage: z
+    .string()
+    .refine(isValidObjectId, {
+      message: 'Invalid parent message ID format'
+    })
+    .optional(),
+  // Quote this message of the same conversation inline
+  quotedMessage: z
+    .string()
+    .refine(isValidObjectId, {
+      message: 'Invalid quoted message ID format'
+    })
+    .optional(),
+  // Forward this message, keeping its original sender
+  forwardedMessage: z
+    .string()
+    .refine(isValidObjectId, {
+      message: 'Invalid forwarded message ID format'
+    })
+    .optional(),
+  // Attachment IDs returned by POST /api/messages/attachments
+  attachments: z
+    .array(z.string().refine(isValidObjectId, {
+      message: 'Invalid attachment ID format'
+    }))
+    .max(MAX_ATTACHMENTS_PER_UPLOAD, `Cannot attach more than ${MAX_ATTACHMENTS_PER_UPLOAD} files`)
     .optional()
-}).refine(data => data.receiver || data.group, {
+}).refine(data => data.content || data.forwardedMessage || data.attachments?.length, {
+  message: 'Message content cannot be empty',
+  path: ['content']
+}).refine(data => !(data.content && data.forwardedMessage), {
+  message: 'Forwarded messages cannot have their own content',
+  path: ['content']
+}).refine(data => !(data.attachments?.length && data.forwardedMessage), {
+  message: 'Forwarded messages cannot have their own attachments',
+  path: ['attachments']
+}).refine(data => !(data.quotedMessage && data.forwardedMessage), {
+  message: 'A message cannot both quote and forward',
+  path: ['quotedMessage']
+}).refine(data => data.receiver || data.group || data.parentMessage, {
   message: 'Either receiver or group must be provided',
   path: ['receiver']
 }).refine(data => !(data.receiver && data.group), {
@@ -31,6 +75,29 @@ export const createMessageSchema = z.object({
   path: ['group']
 });
 
+export const editMessageSchema = z.object({
+  content: z
+    .string()
+    .min(1, 'Message content cannot be empty')
+    .trim()
+});
+
+// A single emoji (with modifiers, joiners and flags) or a :shortcode:
+const emojiPattern = new RegExp(
+  '^(?:(?:\\p{Extended_Pictographic}|\\p{Regional_Indicator}|[#*0-9]\\uFE0F?\\u20E3)' +
+  '[\\p{Extended_Pictographic}\\p{Emoji_Modifier}\\p{Regional_Indicator}\\u200D\\uFE0F\\u20E3]*' +
+  '|:[a-z0-9_+-]{1,30}:)$',
+  'u'
+);
+
+export const reactionSchema = z.object({
+  emoji: z
+    .string()
+    .trim()
+    .max(32, 'Reaction is too long')
+    .regex(emojiPattern, 'Reaction must be a single emoji or a :shortcode:')
+});
+
 export const markMessagesAsReadSchema = z.object({
   messageIds: z
     .array(z.string().refine(isValidObjectId, {
@@ -56,6 +123,167 @@ export const userIdSchema = z.object({
     })
 });
 
+export const threadQuerySchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) => val ? parseInt(val, 10) : 1)
+    .refine((val) => val > 0, 'Page must be greater than 0'),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => val ? parseInt(val, 10) : 50)
+    .refine((val) => val > 0 && val <= 100, 'Limit must be between 1 and 100')
+});
+
+const cursorQuery = z
+  .string()
+  .transform((val, ctx) => {
+    const cursor = decodeCursor(val);
+    if (!cursor) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+      return z.NEVER;
+    }
+    return cursor;
+  })
+  .optional();
+
+export const historyQuerySchema = z.object({
+  // Page numbers are kept for older clients; prefer the cursors
+  page: z
+    .string()
+    .optional()
+    .transform((val) => val ? parseInt(val, 10) : undefined)
+    .refine((val) => val === undefined || val > 0, 'Page must be greater than 0'),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => val ? parseInt(val, 10) : 50)
+    .refine((val) => val > 0 && val <= 100, 'Limit must be between 1 and 100'),
+  before: cursorQuery,
+  after: cursorQuery,
+  around: z
+    .string()
+    .refine(isValidObjectId, {
+      message: 'Invalid message ID format'
+    })
+    .optional()
+}).refine(data => [data.page, data.before, data.after, data.around].filter(val => val !== undefined).length <= 1, {
+  message: 'Use only one of page, before, after and around',
+  path: ['before']
+});
+
+export const mentionsQuerySchema = threadQuerySchema.extend({
+  unread: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((val) => val === 'true')
+});
+
+const isValidDate = (value: string) => !Number.isNaN(Date.parse(value));
+
+const booleanQuery = z
+  .enum(['true', 'false'])
+  .optional()
+  .transform((val) => val === undefined ? undefined : val === 'true');
+
+export const searchMessagesQuerySchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .min(1, 'Search query is required')
+    .max(200, 'Search query cannot exceed 200 characters'),
+  sender: z
+    .string()
+    .refine(isValidObjectId, {
+      message: 'Invalid sender ID format'
+    })
+    .optional(),
+  // Direct conversation with this user
+  withUser: z
+    .string()
+    .refine(isValidObjectId, {
+      message: 'Invalid user ID format'
+    })
+    .optional(),
+  group: z
+    .string()
+    .refine(isValidObjectId, {
+      message: 'Invalid group ID format'
+    })
+    .optional(),
+  from: z
+    .string()
+    .refine(isValidDate, 'Invalid from date')
+    .transform((val) => new Date(val))
+    .optional(),
+  to: z
+    .string()
+    .refine(isValidDate, 'Invalid to date')
+    .transform((val) => new Date(val))
+    .optional(),
+  hasAttachment: booleanQuery,
+  mentionsMe: booleanQuery,
+  // Messages of context shown before and after each hit
+  context: z
+    .string()
+    .optional()
+    .transform((val) => val ? parseInt(val, 10) : 2)
+    .refine((val) => val >= 0 && val <= 5, 'Context must be between 0 and 5'),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => val ? parseInt(val, 10) : 20)
+    .refine((val) => val > 0 && val <= 50, 'Limit must be between 1 and 50'),
+  cursor: cursorQuery
+}).refine(data => !(data.withUser && data.group), {
+  message: 'Cannot filter by both a direct conversation and a group',
+  path: ['group']
+}).refine(data => !(data.from && data.to && data.from > data.to), {
+  message: 'From date must be before to date',
+  path: ['from']
+});
+
+const sha256Hex = z
+  .string()
+  .regex(/^[0-9a-f]{64}$/i, 'Checksum must be a hex-encoded SHA-256 digest')
+  .transform((val) => val.toLowerCase());
+
+export const createUploadSchema = z.object({
+  filename: z
+    .string()
+    .trim()
+    .min(1, 'File name is required')
+    .max(255, 'File name cannot exceed 255 characters'),
+  mimeType: z
+    .string()
+    .min(1, 'MIME type is required'),
+  size: z
+    .number()
+    .int('Size must be a whole number of bytes')
+    .positive('Size must be greater than 0'),
+  // SHA-256 of the whole file, checked when the upload is completed
+  checksum: sha256Hex
+});
+
+export const uploadIdSchema = z.object({
+  uploadId: z
+    .string()
+    .refine(isValidObjectId, {
+      message: 'Invalid upload ID format'
+    })
+});
+
+// Headers of an upload chunk request
+export const uploadChunkHeadersSchema = z.object({
+  'upload-offset': z
+    .string({ required_error: 'Upload-Offset header is required' })
+    .regex(/^\d+$/, 'Upload-Offset must be a non-negative integer')
+    .transform((val) => parseInt(val, 10)),
+  // SHA-256 of the chunk
+  'upload-checksum': sha256Hex.optional()
+});
+
 export const groupIdSchema = z.object({
   groupId: z
     .string()
@@ -64,8 +292,20 @@ export const groupIdSchema = z.object({
     })
 });
 
+// Socket payload for edit-message
+export const editMessageEventSchema = messageIdSchema.merge(editMessageSchema);
+
+// Socket payload for add-reaction and remove-reaction
+export const reactionEventSchema = messageIdSchema.merge(reactionSchema);
+
 export type CreateMessageInput = z.infer<typeof createMessageSchema>;
+export type EditMessageInput = z.infer<typeof editMessageSchema>;
+export type ReactionInput = z.infer<typeof reactionSchema>;
 export type MarkMessagesAsReadInput = z.infer<typeof markMessagesAsReadSchema>;
 export type MessageIdInput = z.infer<typeof messageIdSchema>;
 export type UserIdInput = z.infer<typeof userIdSchema>;
+export type ThreadQuery = z.infer<typeof threadQuerySchema>;
+export type HistoryQuery = z.infer<typeof historyQuerySchema>;
+export type MentionsQuery = z.infer<typeof mentionsQuerySchema>;
+export type SearchMessagesQuery = z.infer<typeof searchMessagesQuerySchema>;
 export type GroupIdInput = z.infer<typeof groupIdSchema>;
\ No newline at end of file
@@ -15,7 +15,7 @@ export const getNotificationsQuerySchema = z.object({
       message: 'Limit must be between 1 and 100' 
     }),
   type: z
-    .enum(['friend_request', 'friend_accepted', 'friend_rejected', 'message', 'group_invite', 'system'])
+    .enum(['friend_request', 'friend_accepted', 'friend_rejected', 'message', 'mention', 'group_invite', 'system'])
     .optional(),
   isRead: z
     .string()
@@ -35,7 +35,7 @@ export const markAsReadSchema = z.object({
     .max(50, 'Cannot mark more than 50 notifications at once')
     .optional(),
   type: z
-    .enum(['friend_request', 'friend_accepted', 'friend_rejected', 'message', 'group_invite', 'system'])
+    .enum(['friend_request', 'friend_accepted', 'friend_rejected', 'message', 'mention', 'group_invite', 'system'])
     .optional(),
   markAll: z.boolean().optional()
 }).refine(
@@ -53,7 +53,7 @@ export const deleteNotificationsSchema = z.object({
     .max(50, 'Cannot delete more than 50 notifications at once')
     .optional(),
   type: z
-    .enum(['friend_request', 'friend_accepted', 'friend_rejected', 'message', 'group_invite', 'system'])
+    .enum(['friend_request', 'friend_accepted', 'friend_rejected', 'message', 'mention', 'group_invite', 'system'])
     .optional(),
   deleteAll: z.boolean().optional()
 }).refine(
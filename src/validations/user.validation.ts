@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { ROLES } from '../config/roles';
+import { API_KEY_SCOPE_VALUES } from '../config/apiKeyScopes';
 
 /**
  * Validation schema for updating user profile
@@ -71,3 +73,90 @@ export const getUsersQuerySchema = z.object({
     .optional()
     .transform((val) => val?.trim())
 });
+
+/**
+ * Validation schema for confirming two-factor enrolment or regenerating recovery codes
+ */
+export const twoFactorCodeSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, 'Code must be a 6-digit authenticator code')
+});
+
+/**
+ * Validation schema for disabling two-factor authentication
+ */
+export const disableTwoFactorSchema = z.object({
+  password: z
+    .string()
+    .min(1, 'Password is required'),
+  code: z
+    .string()
+    .trim()
+    .min(1, 'Authenticator or recovery code is required')
+    .max(20, 'Code is too long')
+});
+
+/**
+ * Validation schema for a user ID route parameter
+ */
+export const userIdParamSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID format')
+});
+
+/**
+ * Validation schema for changing a user's global role
+ */
+export const updateUserRoleSchema = z.object({
+  role: z.enum(ROLES, {
+    errorMap: () => ({ message: `Role must be one of: ${ROLES.join(', ')}` })
+  })
+});
+
+/**
+ * Validation schema for creating a personal API key
+ */
+export const createApiKeySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Key name is required')
+    .max(100, 'Key name cannot exceed 100 characters'),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPE_VALUES, {
+      errorMap: () => ({ message: `Scope must be one of: ${API_KEY_SCOPE_VALUES.join(', ')}` })
+    }))
+    .min(1, 'At least one scope is required'),
+  expiresInDays: z
+    .number()
+    .int('Expiry must be a whole number of days')
+    .min(1, 'Expiry must be at least 1 day')
+    .max(365, 'Expiry cannot exceed 365 days')
+    .optional()
+});
+
+/**
+ * Validation schema for an API key ID route parameter
+ */
+export const apiKeyIdParamSchema = z.object({
+  keyId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid API key ID format')
+});
+
+/**
+ * Validation schema for blocking a user
+ */
+export const blockUserSchema = z.object({
+  userId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID format')
+});
+
+/**
+ * Validation schema for a blocked user ID route parameter
+ */
+export const blockedUserIdParamSchema = blockUserSchema;
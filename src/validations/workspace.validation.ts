@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import mongoose from 'mongoose';
+
+// Helper function to validate MongoDB ObjectId
+const isValidObjectId = (value: string) => {
+  return mongoose.Types.ObjectId.isValid(value);
+};
+
+const domainSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/, 'Invalid email domain (e.g. example.com)');
+
+export const createWorkspaceSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Workspace name must be at least 2 characters')
+    .max(50, 'Workspace name cannot exceed 50 characters'),
+  allowedDomains: z
+    .array(domainSchema)
+    .max(10, 'Maximum 10 domains allowed')
+    .optional()
+});
+
+export const updateWorkspaceSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Workspace name must be at least 2 characters')
+    .max(50, 'Workspace name cannot exceed 50 characters')
+    .optional(),
+  allowedDomains: z
+    .array(domainSchema)
+    .max(10, 'Maximum 10 domains allowed')
+    .optional()
+}).refine(data => data.name !== undefined || data.allowedDomains !== undefined, {
+  message: 'At least one field must be provided'
+});
+
+export const addWorkspaceMemberSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email('Invalid email format'),
+  role: z
+    .enum(['admin', 'member'])
+    .default('member')
+});
+
+export const workspaceIdParamSchema = z.object({
+  id: z
+    .string()
+    .refine(isValidObjectId, {
+      message: 'Invalid workspace ID format'
+    })
+});
+
+export const workspaceMemberParamsSchema = workspaceIdParamSchema.extend({
+  userId: z
+    .string()
+    .refine(isValidObjectId, {
+      message: 'Invalid user ID format'
+    })
+});
+
+export type CreateWorkspaceInput = z.infer<typeof createWorkspaceSchema>;
+export type UpdateWorkspaceInput = z.infer<typeof updateWorkspaceSchema>;
+export type AddWorkspaceMemberInput = z.infer<typeof addWorkspaceMemberSchema>;